@@ -0,0 +1,3 @@
+// Allows `kolmafia-stubs/kolmafia` to be used as the `kolmafia` module, e.g. in
+// Jest's moduleNameMapper
+module.exports = require('./build/src/kolmafia');
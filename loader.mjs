@@ -0,0 +1,60 @@
+/**
+ * @file ESM loader hooks that resolve `import ... from 'kolmafia'` to the stubs
+ * provided by this package.
+ *
+ * Node.js 16.12 and later call `resolve()` and `load()`. Earlier versions
+ * (12.22 to 16.11) call `resolve()`, `getFormat()` and `getSource()` instead,
+ * and pass the default hook as the last argument rather than the next one.
+ *
+ * Usage:
+ *    node --loader kolmafia-stubs/loader.mjs my-test.mjs
+ */
+
+import {createRequire} from 'module';
+import {pathToFileURL} from 'url';
+
+const require = createRequire(import.meta.url);
+const STUBS_PATH = require.resolve('./build/src/kolmafia');
+/** URL of the generated ES module that re-exports the CommonJS stubs */
+const STUBS_URL = pathToFileURL(STUBS_PATH).href + '?esm';
+
+/**
+ * Returns the source of the ES module that re-exports the stubs.
+ */
+function getStubsSource() {
+  // Named exports are listed explicitly, so that they do not depend on
+  // Node.js detecting the exports of the CommonJS module
+  const names = Object.keys(require(STUBS_PATH)).filter(
+    name => name !== 'default' && name !== '__esModule'
+  );
+  return (
+    `import stubs from ${JSON.stringify(pathToFileURL(STUBS_PATH).href)};\n` +
+    `export const {${names.join(', ')}} = stubs;\n` +
+    'export default stubs;\n'
+  );
+}
+
+export async function resolve(specifier, context, nextResolve) {
+  if (specifier === 'kolmafia') {
+    return {url: STUBS_URL, shortCircuit: true};
+  }
+  // Before Node.js 16.12, the default hook expects itself as the last argument
+  return nextResolve(specifier, context, nextResolve);
+}
+
+export async function load(url, context, nextLoad) {
+  if (url === STUBS_URL) {
+    return {format: 'module', source: getStubsSource(), shortCircuit: true};
+  }
+  return nextLoad(url, context);
+}
+
+export async function getFormat(url, context, defaultGetFormat) {
+  if (url === STUBS_URL) return {format: 'module'};
+  return defaultGetFormat(url, context, defaultGetFormat);
+}
+
+export async function getSource(url, context, defaultGetSource) {
+  if (url === STUBS_URL) return {source: getStubsSource()};
+  return defaultGetSource(url, context, defaultGetSource);
+}
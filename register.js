@@ -0,0 +1,2 @@
+// Allows `node -r kolmafia-stubs/register` and `require('kolmafia-stubs/register')`
+require('./build/src/register');
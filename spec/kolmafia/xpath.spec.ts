@@ -221,6 +221,87 @@ yAd: '1'},event));">An on-court proposal</a>`,
     });
   });
 
+  describe('with the htmlcleaner cleaner', () => {
+    // The original XPather tests were run against documents cleaned by
+    // HtmlCleaner, so they should produce the same results.
+    const xpathHc = (html: string, selector: string) =>
+      xpath(html, selector, {cleaner: 'htmlcleaner'});
+
+    it('should produce the same results as HtmlCleaner', () => {
+      expect(xpathHc(TEST_HTML, '//div//a').length).toEqual(160);
+      expect(xpathHc(TEST_HTML, '/body/*[1]/@type')).toEqual([
+        'text/javascript',
+      ]);
+      expect(xpathHc(TEST_HTML, '//*[@class][@id]//*[@style]').length).toEqual(
+        23
+      );
+      expect(xpathHc(TEST_HTML, '//div//@class').length).toEqual(130);
+      expect(xpathHc(TEST_HTML, '//div[2]/@*[2]')).toEqual([
+        'ad',
+        'bd',
+        'bd',
+        'papreviewdiv',
+        'ad',
+        'bd',
+        'bd',
+      ]);
+      expect(xpathHc(TEST_HTML, '//div//../span[position() = 2]/@id')).toEqual([
+        'featured2ct',
+        'footer2',
+        'worldnewsct',
+      ]);
+    });
+
+    it('should match positions in malformed tables', () => {
+      const html =
+        '<table><tr><td>a<td>b</table>' +
+        '<table><form><tr><td>1</font><tr><td>2<tr><td>3</form></table>';
+
+      expect(xpathHc(html, '//table[2]//tr[3]/td/text()')).toEqual(['3']);
+      expect(xpathHc(html, '//table/tbody/tr/td[2]/text()')).toEqual(['b']);
+    });
+  });
+
+  describe('with the domhandler backend', () => {
+    const SELECTORS = [
+      // Includes scripts, which both backends wrap in /*<!--*/ ... /*-->*/
+      '//div//div',
+      '//script',
+      '//div//a',
+      '//div//a[@id][@class]',
+      '/body/*[1]/@type',
+      '//*[@class][@id]//*[@style]',
+      '//div[2]/@*[2]',
+      '//div//../span[position() = 2]/@id',
+      'data(//div//a[@id][@class])',
+      '//p/last()',
+      '//body//div[3][@class]//span[12.2<position()]/@id',
+    ];
+
+    for (const cleaner of ['cheerio', 'htmlcleaner'] as const) {
+      it(`should produce the same results as xmldom (${cleaner})`, () => {
+        for (const selector of SELECTORS) {
+          expect(xpath(TEST_HTML, selector, {cleaner, backend: 'domhandler'}))
+            .withContext(selector)
+            .toEqual(xpath(TEST_HTML, selector, {cleaner}));
+        }
+      });
+    }
+
+    it('should parse scripts like xmldom', () => {
+      for (const script of [
+        'if (a < b && c) go(1);',
+        '<!-- if (a < b) go(1); -->',
+        '//<![CDATA[\nif (a < b) go(1);\n//]]>',
+      ]) {
+        const html = `<body><script>${script}</script></body>`;
+        expect(xpath(html, '//script', {backend: 'domhandler'}))
+          .withContext(script)
+          .toEqual(xpath(html, '//script'));
+      }
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // End of code derived from HtmlCleaner
   // ---------------------------------------------------------------------------
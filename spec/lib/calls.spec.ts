@@ -0,0 +1,162 @@
+/**
+ * @file Tests for the call test helpers.
+ */
+
+import {myAdventures, myMeat, print, setProperty} from '../../src/kolmafia';
+import {
+  assertCalled,
+  assertCalledBefore,
+  assertCalledWith,
+  assertNeverCalled,
+  CallAssertionError,
+  clearCalls,
+  getCalls,
+  replaceFunction,
+  restoreFunctions,
+  wrapFunction,
+} from '../../src/lib/calls';
+import {resetDefaultRuntime} from '../../src/runtime/default-runtime';
+import {createRuntime} from '../../src/runtime/runtime';
+
+describe('call helpers', () => {
+  afterEach(() => resetDefaultRuntime());
+
+  describe('getCalls()', () => {
+    it('should select calls by name or by filter', () => {
+      print('foo');
+      setProperty('bar', 'baz');
+      print('qux');
+
+      expect(getCalls('print').map(call => call.args)).toEqual([
+        ['foo'],
+        ['qux'],
+      ]);
+      expect(
+        getCalls({name: ['print', 'setProperty']}).map(call => call.index)
+      ).toEqual([0, 1, 2]);
+    });
+
+    it('should read the calls of the given runtime', () => {
+      const runtime = createRuntime();
+      runtime.print('foo');
+      expect(getCalls('print', runtime).length).toBe(1);
+      expect(getCalls('print')).toEqual([]);
+    });
+  });
+
+  describe('clearCalls()', () => {
+    it('should forget calls and restart their index', () => {
+      print('foo');
+      clearCalls();
+      expect(getCalls()).toEqual([]);
+
+      print('bar');
+      expect(getCalls()[0].index).toBe(0);
+    });
+  });
+
+  describe('replaceFunction()', () => {
+    it('should replace a function and still record its calls', () => {
+      replaceFunction('myMeat', () => 100);
+      expect(myMeat()).toBe(100);
+      expect(getCalls('myMeat')[0].result).toBe(100);
+    });
+
+    it('should only affect the given runtime', () => {
+      const runtime = createRuntime();
+      replaceFunction('myMeat', () => 5, runtime);
+      expect(runtime.myMeat()).toBe(5);
+      expect(myMeat()).toBe(0);
+    });
+  });
+
+  describe('wrapFunction()', () => {
+    it('should wrap the current implementation', () => {
+      replaceFunction('myMeat', () => 100);
+      wrapFunction('myMeat', original => () => original() + 1);
+      wrapFunction('myMeat', original => () => original() * 2);
+      expect(myMeat()).toBe(202);
+    });
+  });
+
+  describe('restoreFunctions()', () => {
+    it('should restore one function, or all of them', () => {
+      replaceFunction('myMeat', () => 100);
+      replaceFunction('myAdventures', () => 10);
+
+      restoreFunctions('myMeat');
+      expect(myMeat()).toBe(0);
+      expect(myAdventures()).toBe(10);
+
+      restoreFunctions();
+      expect(myAdventures()).toBe(0);
+    });
+  });
+
+  describe('assertCalled()', () => {
+    it('should check that a function was called', () => {
+      print('foo');
+      assertCalled('print');
+      expect(() => assertCalled('abort')).toThrowError(
+        CallAssertionError,
+        'Expected abort() to be called at least once, but it was called 0 time(s)'
+      );
+    });
+
+    it('should check the number of calls', () => {
+      print('foo');
+      print('bar');
+      assertCalled('print', 2);
+      expect(() => assertCalled('print', 1)).toThrowError(
+        CallAssertionError,
+        'Expected print() to be called 1 time(s), but it was called 2 time(s)'
+      );
+    });
+  });
+
+  describe('assertNeverCalled()', () => {
+    it('should list the unexpected calls', () => {
+      assertNeverCalled('print');
+      print('foo');
+      expect(() => assertNeverCalled('print')).toThrowError(
+        CallAssertionError,
+        /^Expected print\(\) to never be called, but got:\n {2}print\('foo'\) at .*calls\.spec/
+      );
+    });
+  });
+
+  describe('assertCalledWith()', () => {
+    it('should compare arguments deeply', () => {
+      print('foo', 'red');
+      assertCalledWith('print', ['foo', 'red']);
+      expect(() => assertCalledWith('print', ['foo'])).toThrowError(
+        CallAssertionError,
+        /^Expected print\('foo'\) to be called, but got:\n {2}print\('foo', 'red'\)/
+      );
+    });
+  });
+
+  describe('assertCalledBefore()', () => {
+    it('should compare the first call of each function', () => {
+      print('foo');
+      setProperty('bar', '1');
+      print('baz');
+
+      assertCalledBefore('print', 'setProperty');
+      expect(() => assertCalledBefore('setProperty', 'print')).toThrowError(
+        CallAssertionError,
+        /^Expected setProperty\(\) to be called before print\(\), but got:\n {2}print\('foo'\)/
+      );
+    });
+
+    it('should fail if either function was not called', () => {
+      print('foo');
+      expect(() => assertCalledBefore('print', 'abort')).toThrowError(
+        CallAssertionError
+      );
+      expect(() => assertCalledBefore('abort', 'print')).toThrowError(
+        CallAssertionError
+      );
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @file Tests for the cassette test helpers.
+ */
+
+import {mkdtempSync, rmdirSync, unlinkSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+
+import {visitUrl, xpath} from '../../src/kolmafia';
+import {
+  ejectCassettes,
+  getUnusedCassetteEntries,
+  insertCassette,
+  loadCassette,
+} from '../../src/lib/cassettes';
+import {UnusedCassetteEntriesError} from '../../src/runtime/cassettes';
+import {resetDefaultRuntime} from '../../src/runtime/default-runtime';
+import {createRuntime} from '../../src/runtime/runtime';
+
+const CASSETTE_PATH = 'spec/lib/fixtures/cassette.json';
+
+describe('cassette helpers', () => {
+  afterEach(() => resetDefaultRuntime());
+
+  describe('loadCassette()', () => {
+    let directory: string;
+    let path: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'kolmafia-stubs-'));
+      path = join(directory, 'cassette.json');
+    });
+    afterEach(() => {
+      unlinkSync(path);
+      rmdirSync(directory);
+    });
+
+    it('should name cassettes after their file by default', () => {
+      writeFileSync(path, JSON.stringify({entries: []}));
+      expect(loadCassette(path)).toEqual({name: path, entries: []});
+
+      writeFileSync(path, JSON.stringify({name: 'inventory', entries: []}));
+      expect(loadCassette(path).name).toBe('inventory');
+    });
+
+    it('should accept a bare list of entries', () => {
+      const entries = [{url: 'main.php', response: 'main'}];
+      writeFileSync(path, JSON.stringify(entries));
+      expect(loadCassette(path)).toEqual({name: path, entries});
+    });
+
+    it('should reject files without a list of entries', () => {
+      writeFileSync(path, JSON.stringify({response: 'main'}));
+      expect(() => loadCassette(path)).toThrowError(
+        `Cassette file ${path} does not contain a list of entries`
+      );
+    });
+  });
+
+  describe('insertCassette()', () => {
+    it('should load cassettes given as a path', () => {
+      insertCassette(CASSETTE_PATH);
+      const page = visitUrl('inventory.php?which=1', false);
+      expect(xpath(page, '//b[@class="ircm"]/text()')).toEqual([
+        'seal-clubbing club',
+        'spices',
+      ]);
+    });
+
+    it('should insert cassettes into the given runtime only', () => {
+      const runtime = createRuntime();
+      insertCassette(
+        {entries: [{url: 'main.php', response: 'main'}]},
+        {},
+        runtime
+      );
+      expect(runtime.visitUrl('main.php')).toBe('main');
+      expect(() => visitUrl('main.php')).toThrowError(/No cassettes/);
+    });
+  });
+
+  describe('getUnusedCassetteEntries()', () => {
+    it('should describe entries that were never played', () => {
+      insertCassette(CASSETTE_PATH);
+      expect(getUnusedCassetteEntries().length).toBe(2);
+
+      visitUrl('desc_item.php?whichitem=123');
+      expect(getUnusedCassetteEntries()).toEqual([
+        `GET inventory.php?which=1 (${CASSETTE_PATH} #0)`,
+      ]);
+    });
+  });
+
+  describe('ejectCassettes()', () => {
+    it('should remove cassettes that were not fully played', () => {
+      insertCassette(CASSETTE_PATH);
+      ejectCassettes();
+      expect(getUnusedCassetteEntries()).toEqual([]);
+      expect(() => visitUrl('inventory.php?which=1')).toThrowError(
+        /No cassettes/
+      );
+    });
+
+    it('should report unused entries of strict cassettes', () => {
+      insertCassette(CASSETTE_PATH, {strict: true});
+      visitUrl('desc_item.php?whichitem=123');
+      expect(() => ejectCassettes()).toThrowError(
+        UnusedCassetteEntriesError,
+        /1 cassette entry was never played:\n {2}GET inventory\.php\?which=1/
+      );
+      expect(getUnusedCassetteEntries()).toEqual([]);
+    });
+  });
+});
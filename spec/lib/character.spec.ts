@@ -0,0 +1,56 @@
+/**
+ * @file Tests for the character test helpers.
+ */
+
+import {
+  myBasestat,
+  myClass,
+  myLevel,
+  myMeat,
+  myName,
+  Stat,
+} from '../../src/kolmafia';
+import {getCharacter, updateCharacter} from '../../src/lib/character';
+import {resetDefaultRuntime} from '../../src/runtime/default-runtime';
+import {createRuntime} from '../../src/runtime/runtime';
+
+describe('character helpers', () => {
+  afterEach(() => resetDefaultRuntime());
+
+  describe('getCharacter()', () => {
+    it('should return the character read by the my* functions', () => {
+      const character = getCharacter();
+      character.meat = 60;
+      character.name = 'Alice';
+      expect(myMeat()).toBe(60);
+      expect(myName()).toBe('Alice');
+    });
+
+    it('should return the character of the given runtime', () => {
+      const runtime = createRuntime({character: {meat: 100}});
+      expect(getCharacter(runtime).meat).toBe(100);
+      expect(getCharacter().meat).toBe(0);
+    });
+  });
+
+  describe('updateCharacter()', () => {
+    it('should only change the given values', () => {
+      updateCharacter({name: 'Alice', meat: 100});
+      updateCharacter({meat: 50});
+      expect(myName()).toBe('Alice');
+      expect(myMeat()).toBe(50);
+    });
+
+    it('should raise the primestat to reach the given level', () => {
+      updateCharacter({class: 'Pastamancer', level: 3});
+      expect(myClass().toString()).toBe('Pastamancer');
+      expect(myLevel()).toBe(3);
+      expect(myBasestat(Stat.get('Mysticality'))).toBe(8);
+    });
+
+    it('should reject unknown classes and familiars', () => {
+      expect(() => updateCharacter({class: 'Space Pirate'})).toThrowError();
+      expect(() => updateCharacter({familiar: 'Space Parrot'})).toThrowError();
+    });
+  });
+});
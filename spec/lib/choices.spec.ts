@@ -0,0 +1,68 @@
+/**
+ * @file Tests for the choice adventure test helpers.
+ */
+
+import {adv1, Location, runChoice, setProperty} from '../../src/kolmafia';
+import {getCharacter} from '../../src/lib/character';
+import {getChoiceDecisions, getPendingChoice} from '../../src/lib/choices';
+import {queueEncounters} from '../../src/lib/combat';
+import {resetDefaultRuntime} from '../../src/runtime/default-runtime';
+import {KoLmafiaAbortError} from '../../src/runtime/output';
+import {createRuntime} from '../../src/runtime/runtime';
+
+const NEXT = {id: 2, options: {1: {meat: 5}}};
+const CHOICE = {id: 1, options: {1: {choice: NEXT}, 2: {meat: 10}}};
+
+describe('choice helpers', () => {
+  beforeEach(() => {
+    getCharacter().adventures = 5;
+  });
+  afterEach(() => resetDefaultRuntime());
+
+  describe('getPendingChoice()', () => {
+    it('should follow the choices that a script has to make', () => {
+      expect(getPendingChoice()).toBeNull();
+      queueEncounters('Noob Cave', {choice: CHOICE});
+
+      expect(adv1(Location.get('Noob Cave'), -1, '')).toBe(false);
+      expect(getPendingChoice()).toEqual({
+        location: 'Noob Cave',
+        choice: CHOICE,
+        followsFight: false,
+        free: false,
+      });
+      runChoice(1);
+      expect(getPendingChoice()!.choice).toBe(NEXT);
+      runChoice(1);
+      expect(getPendingChoice()).toBeNull();
+    });
+
+    it('should return the choice of the given runtime', () => {
+      const runtime = createRuntime();
+      runtime.state.choices.begin('Noob Cave', {id: 1}, false, false);
+      expect(getPendingChoice(runtime)).not.toBeNull();
+      expect(getPendingChoice()).toBeNull();
+    });
+  });
+
+  describe('getChoiceDecisions()', () => {
+    it('should list choices made by preferences and by the script', () => {
+      setProperty('choiceAdventure1', '1');
+      queueEncounters('Noob Cave', {choice: CHOICE});
+      adv1(Location.get('Noob Cave'), -1, '');
+      runChoice(1);
+
+      expect(getChoiceDecisions()).toEqual([
+        {choice: 1, option: 1},
+        {choice: 2, option: 1},
+      ]);
+    });
+
+    it('should not list options that were not available', () => {
+      queueEncounters('Noob Cave', {choice: CHOICE});
+      adv1(Location.get('Noob Cave'), -1, '');
+      expect(() => runChoice(3)).toThrowError(KoLmafiaAbortError);
+      expect(getChoiceDecisions()).toEqual([]);
+    });
+  });
+});
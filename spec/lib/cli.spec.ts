@@ -0,0 +1,83 @@
+/**
+ * @file Tests for the gCLI test helpers.
+ */
+
+import {cliExecute} from '../../src/kolmafia';
+import {
+  getCliHistory,
+  getUnknownCliCommands,
+  registerCliCommand,
+} from '../../src/lib/cli';
+import {getOutputText} from '../../src/lib/output';
+import {resetDefaultRuntime} from '../../src/runtime/default-runtime';
+import {createRuntime} from '../../src/runtime/runtime';
+
+describe('gCLI helpers', () => {
+  afterEach(() => resetDefaultRuntime());
+
+  describe('registerCliCommand()', () => {
+    it('should register every alias, ignoring case', () => {
+      const calls: string[] = [];
+      registerCliCommand(['Garden', 'grow'], ({command, parameters}) => {
+        calls.push(`${command} ${parameters}`);
+      });
+
+      expect(cliExecute('garden pick; GROW  all ')).toBe(true);
+      expect(calls).toEqual(['garden pick', 'grow all']);
+    });
+
+    it('should replace built-in handlers', () => {
+      registerCliCommand('echo', () => false);
+      expect(cliExecute('echo hello')).toBe(false);
+      expect(getOutputText()).toBe('');
+    });
+
+    it('should register handlers in the given runtime only', () => {
+      const runtime = createRuntime();
+      registerCliCommand('garden', () => true, runtime);
+      expect(runtime.cliExecute('garden pick')).toBe(true);
+      expect(cliExecute('garden pick')).toBe(false);
+    });
+  });
+
+  describe('getCliHistory()', () => {
+    it('should list each command with its outcome', () => {
+      registerCliCommand('garden', () => false);
+      cliExecute('echoq hi; garden pick');
+
+      expect(getCliHistory()).toEqual([
+        {
+          command: 'echo',
+          parameters: 'hi',
+          quiet: true,
+          handled: true,
+          success: true,
+        },
+        {
+          command: 'garden',
+          parameters: 'pick',
+          quiet: false,
+          handled: true,
+          success: false,
+        },
+      ]);
+    });
+  });
+
+  describe('getUnknownCliCommands()', () => {
+    it('should only list commands without a handler', () => {
+      cliExecute('echo hi');
+      cliExecute('summon 2');
+
+      expect(getUnknownCliCommands()).toEqual([
+        {
+          command: 'summon',
+          parameters: '2',
+          quiet: false,
+          handled: false,
+          success: false,
+        },
+      ]);
+    });
+  });
+});
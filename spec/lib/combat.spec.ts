@@ -0,0 +1,92 @@
+/**
+ * @file Tests for the encounter test helpers.
+ */
+
+import {adv1, Location} from '../../src/kolmafia';
+import {getCharacter} from '../../src/lib/character';
+import {
+  getEncounterHistory,
+  getQueuedEncounters,
+  queueEncounters,
+} from '../../src/lib/combat';
+import {resetDefaultRuntime} from '../../src/runtime/default-runtime';
+import {createRuntime} from '../../src/runtime/runtime';
+
+describe('encounter helpers', () => {
+  afterEach(() => resetDefaultRuntime());
+
+  describe('queueEncounters()', () => {
+    it('should append encounters after those already queued', () => {
+      queueEncounters('Noob Cave', {monster: 'fluffy bunny'});
+      queueEncounters(Location.get('Noob Cave'), [
+        {name: 'Like a Bat Into Hell'},
+        {monster: 'fluffy bunny', free: true},
+      ]);
+      expect(getQueuedEncounters('Noob Cave')).toEqual([
+        {monster: 'fluffy bunny'},
+        {name: 'Like a Bat Into Hell'},
+        {monster: 'fluffy bunny', free: true},
+      ]);
+    });
+
+    it('should reject unknown locations and monsters', () => {
+      expect(() =>
+        queueEncounters('Noob Cavern', {monster: 'fluffy bunny'})
+      ).toThrowError();
+      expect(() =>
+        queueEncounters('Noob Cave', {monster: 'fluffy bunnies'})
+      ).toThrowError();
+      expect(getQueuedEncounters('Noob Cave')).toEqual([]);
+    });
+
+    it('should queue encounters in the given runtime only', () => {
+      const runtime = createRuntime();
+      queueEncounters('Noob Cave', {monster: 'fluffy bunny'}, runtime);
+      expect(getQueuedEncounters('Noob Cave', runtime).length).toBe(1);
+      expect(getQueuedEncounters('Noob Cave')).toEqual([]);
+    });
+  });
+
+  describe('getQueuedEncounters()', () => {
+    it('should not include encounters that have happened', () => {
+      getCharacter().adventures = 5;
+      queueEncounters('Noob Cave', [
+        {monster: 'fluffy bunny'},
+        {name: 'Like a Bat Into Hell'},
+      ]);
+      adv1(Location.get('Noob Cave'), -1, '');
+      expect(getQueuedEncounters('Noob Cave')).toEqual([
+        {name: 'Like a Bat Into Hell'},
+      ]);
+    });
+  });
+
+  describe('getEncounterHistory()', () => {
+    it('should describe each finished encounter', () => {
+      getCharacter().adventures = 5;
+      queueEncounters('Noob Cave', [
+        {monster: 'fluffy bunny'},
+        {name: 'Like a Bat Into Hell'},
+      ]);
+      adv1(Location.get('Noob Cave'), -1, '');
+      adv1(Location.get('Noob Cave'), -1, '');
+
+      expect(getEncounterHistory()).toEqual([
+        {
+          location: 'Noob Cave',
+          encounter: 'fluffy bunny',
+          monster: 'fluffy bunny',
+          result: 'win',
+          rounds: 1,
+        },
+        {
+          location: 'Noob Cave',
+          encounter: 'Like a Bat Into Hell',
+          monster: 'none',
+          result: 'noncombat',
+          rounds: 0,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * @file Tests for the data file parser.
+ */
+
+import {join} from 'path';
+
+import {
+  DataFileError,
+  loadDataFile,
+  parseDataFile,
+  resolveDataFile,
+} from '../../src/lib/data-file';
+
+const SCHEMA = {
+  file: 'example.txt',
+  version: 2,
+  columns: [
+    {name: 'id', type: 'int'},
+    {name: 'name', type: 'string'},
+    {name: 'uses', type: 'list'},
+    {name: 'chance', type: 'float', optional: true},
+  ],
+} as const;
+
+describe('parseDataFile()', () => {
+  it('should parse lines into typed records', () => {
+    const text = [
+      '2',
+      '# Comment',
+      '',
+      '1\tfoo\tfood, booze\t0.5',
+      '2\tbar\tnone',
+      '3\tba\\tz\\\\\t\t1\textra',
+    ].join('\n');
+
+    expect(parseDataFile(text, SCHEMA)).toEqual([
+      {
+        id: 1,
+        name: 'foo',
+        uses: ['food', 'booze'],
+        chance: 0.5,
+        rest: [],
+        line: 4,
+      },
+      {id: 2, name: 'bar', uses: [], chance: 0, rest: [], line: 5},
+      {
+        id: 3,
+        name: 'ba\tz\\',
+        uses: [],
+        chance: 1,
+        rest: ['extra'],
+        line: 6,
+      },
+    ]);
+  });
+
+  it('should check the version number', () => {
+    expect(() => parseDataFile('1\tfoo\tnone', SCHEMA)).toThrowError(
+      DataFileError,
+      "example.txt:1: Expected version number 2, but found '1\tfoo\tnone'"
+    );
+    expect(() => parseDataFile('3\n', SCHEMA, 'data/example.txt')).toThrowError(
+      DataFileError,
+      'data/example.txt:1: Expected version 2, but file has version 3'
+    );
+  });
+
+  it('should parse files without a version line', () => {
+    const unversioned = {...SCHEMA, version: undefined};
+    expect(
+      parseDataFile('1\tfoo\tnone', unversioned).map(record => record.name)
+    ).toEqual(['foo']);
+  });
+
+  it('should report the line of missing columns', () => {
+    expect(() =>
+      parseDataFile('2\n1\tfoo\tnone\n\n2\tbar', SCHEMA)
+    ).toThrowError(
+      DataFileError,
+      "example.txt:4: Expected at least 3 fields, but found 2 (missing 'uses')"
+    );
+  });
+
+  it('should report the line of invalid numbers', () => {
+    try {
+      parseDataFile('2\nx\tfoo\tnone', SCHEMA);
+      fail('parseDataFile() did not throw');
+    } catch (e) {
+      expect(e instanceof DataFileError).toBe(true);
+      expect((e as DataFileError).line).toBe(2);
+      expect((e as DataFileError).reason).toBe(
+        "Column 'id' must be an integer, but is 'x'"
+      );
+    }
+  });
+});
+
+describe('resolveDataFile()', () => {
+  it('should prefer files, then the directory, then bundled data', () => {
+    expect(
+      resolveDataFile('items.txt', {
+        files: {'items.txt': 'custom/items.txt'},
+        directory: 'spec/runtime/fixtures',
+      })
+    ).toBe('custom/items.txt');
+    expect(
+      resolveDataFile('items.txt', {directory: 'spec/runtime/fixtures'})
+    ).toBe(join('spec/runtime/fixtures', 'items.txt'));
+    expect(
+      resolveDataFile('monsters.txt', {directory: 'spec/runtime/fixtures'})
+    ).toMatch(/data[/\\]monsters\.txt$/);
+  });
+});
+
+describe('loadDataFile()', () => {
+  it('should report the path of the file in errors', () => {
+    expect(() =>
+      loadDataFile(
+        {...SCHEMA, file: 'items.txt'},
+        {directory: 'spec/runtime/fixtures'}
+      )
+    ).toThrowError(
+      DataFileError,
+      /fixtures[/\\]items\.txt:1: Expected version 2, but file has version 1/
+    );
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * @file Tests for DocumentIndex.
+ */
+
+import {readFileSync} from 'fs';
+import {DOMParser} from 'xmldom';
+
+import {DocumentIndex} from '../../src/lib/document-index';
+import {compileXPath} from '../../src/lib/xpather';
+import {getParsedDocument} from '../../src/lib/xpath-cache';
+
+describe('DocumentIndex', () => {
+  const root = new DOMParser().parseFromString(
+    '<html><body><div id="a"><p>1</p><div id="b"><p>2</p></div></div>' +
+      '<P>3</P></body></html>'
+  ).documentElement;
+  const [outer, inner] = Array.from(root.getElementsByTagName('div'));
+
+  it('should compute subtree ranges in document order', () => {
+    const index = new DocumentIndex<Element>(root);
+
+    expect(index.getRange(root)).toEqual([0, 6]);
+    expect(index.getRange(outer)).toEqual([2, 5]);
+    expect(index.getRange(inner)).toEqual([4, 5]);
+  });
+
+  it('should find descendants by name', () => {
+    const index = new DocumentIndex<Element>(root);
+    const texts = (el: Element, name: string) =>
+      index.getDescendantsByName(el, name)!.map(e => e.textContent);
+
+    expect(texts(root, 'p')).toEqual(['1', '2', '3']);
+    expect(texts(outer, 'p')).toEqual(['1', '2']);
+    expect(texts(outer, 'div')).toEqual(['2']);
+    expect(texts(inner, 'span')).toEqual([]);
+  });
+
+  it('should ignore elements outside the document', () => {
+    const index = new DocumentIndex<Element>(outer);
+
+    expect(index.getRange(root)).toBeUndefined();
+    expect(index.getDescendantsByName(root, 'p')).toBeUndefined();
+  });
+
+  describe('with compileXPath()', () => {
+    const SELECTORS = [
+      '//div//a',
+      '//div//a[@id][@class]',
+      '//div[3]//a[@id]',
+      '//div[2]//span',
+      '//body//div[3][@class]//span[12.2<position()]/@id',
+      '//div[last() >= 4]//./div[position() = last()][position() > 22]//li[2]//a',
+      '//div//../span[position() = 2]/@id',
+      '//ul//li[position()>1]/a/@href',
+      'count(//div//li)',
+    ];
+
+    for (const backend of ['xmldom', 'domhandler'] as const) {
+      it(`should return the same results in the same order (${backend})`, () => {
+        const html = readFileSync('spec/kolmafia/xpath.spec.html', 'utf8');
+        const doc = getParsedDocument(html, 'cheerio', backend);
+        const index = new DocumentIndex(doc);
+
+        for (const selector of SELECTORS) {
+          const compiled = compileXPath(selector);
+          expect(compiled.evaluate(doc, index))
+            .withContext(selector)
+            .toEqual(compiled.evaluate(doc));
+        }
+      });
+    }
+  });
+});
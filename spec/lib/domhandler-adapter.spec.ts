@@ -0,0 +1,51 @@
+/**
+ * @file Tests for the domhandler adapter.
+ */
+
+import cheerio = require('cheerio');
+
+import {
+  DomhandlerElementAdapter,
+  wrapDomhandlerNode,
+} from '../../src/lib/domhandler-adapter';
+import {evaluateXPath} from '../../src/lib/xpather';
+
+describe('wrapDomhandlerNode()', () => {
+  const $ = cheerio.load(
+    '<div id="a" class="x"><!-- note --><b>Big</b> rock<br></div>'
+  );
+  const div = $('div')[0];
+
+  it('should wrap each node only once', () => {
+    expect(wrapDomhandlerNode(div)).toBe(wrapDomhandlerNode(div));
+    const b = wrapDomhandlerNode(div).childNodes[1];
+    expect(b.parentNode).toBe(wrapDomhandlerNode(div));
+  });
+
+  it('should expose DOM properties', () => {
+    const el = wrapDomhandlerNode(div);
+    expect(el).toBeInstanceOf(DomhandlerElementAdapter);
+    expect(el.nodeName).toBe('div');
+    expect(el.nodeType).toBe(el.ELEMENT_NODE);
+    expect(el.textContent).toBe('Big rock');
+    expect(el.getAttribute('class')).toBe('x');
+    expect(el.getAttribute('missing')).toBeNull();
+    expect(el.hasAttribute('id')).toBe(true);
+    expect(el.attributes.length).toBe(2);
+    expect(el.attributes.item(1)!.name).toBe('class');
+
+    const types = [];
+    for (let i = 0; i < el.childNodes.length; ++i) {
+      types.push(el.childNodes.item(i).nodeType);
+    }
+    expect(types).toEqual([8, 1, 3, 1]);
+  });
+
+  it('should be usable with evaluateXPath()', () => {
+    const root = wrapDomhandlerNode($('html')[0]);
+
+    expect(evaluateXPath(root, '//div/@id')).toEqual(['a']);
+    expect(evaluateXPath(root, '//div/b/text()')).toEqual(['Big']);
+    expect(evaluateXPath(root, '//b')).toEqual([wrapDomhandlerNode($('b')[0])]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @file Tests for the virtual file system test helpers.
+ */
+
+import {
+  bufferToFile,
+  fileToBuffer,
+  fileToMap,
+  mapToFile,
+} from '../../src/kolmafia';
+import {
+  getFile,
+  getFileWrites,
+  loadFixtureFiles,
+  seedFiles,
+} from '../../src/lib/files';
+import {resetDefaultRuntime} from '../../src/runtime/default-runtime';
+import {createRuntime} from '../../src/runtime/runtime';
+
+describe('file helpers', () => {
+  afterEach(() => resetDefaultRuntime());
+
+  describe('seedFiles()', () => {
+    it('should add files that scripts can read without recording writes', () => {
+      seedFiles({
+        'scripts/config.txt': 'scripts',
+        'data/config.txt': 'data',
+      });
+      expect(fileToBuffer('config.txt')).toBe('scripts');
+      expect(getFileWrites()).toEqual([]);
+    });
+
+    it('should reject paths outside the KoLmafia directory', () => {
+      expect(() => seedFiles({'../config.txt': ''})).toThrowError(
+        'Invalid file path: ../config.txt'
+      );
+    });
+
+    it('should add files to the given runtime only', () => {
+      const runtime = createRuntime();
+      seedFiles({'data/x.txt': 'runtime'}, runtime);
+      expect(runtime.fileToBuffer('x.txt')).toBe('runtime');
+      expect(fileToBuffer('x.txt')).toBe('');
+    });
+  });
+
+  describe('loadFixtureFiles()', () => {
+    it('should add files in subdirectories to data/', () => {
+      loadFixtureFiles('spec/lib/fixtures/files');
+      expect(getFile('data/nested/greeting.txt')).toBe('hello\n');
+
+      const map = {};
+      expect(fileToMap('classes.txt', map)).toBeTrue();
+      expect(map).toEqual({
+        'Seal Clubber': {1: 'seal-clubbing club'},
+        'Turtle Tamer': {2: 'turtle totem'},
+      });
+    });
+
+    it('should add files to another directory', () => {
+      loadFixtureFiles('spec/lib/fixtures/files', 'scripts/fixtures');
+      expect(getFile('scripts/fixtures/nested/greeting.txt')).toBe('hello\n');
+      expect(getFile('data/nested/greeting.txt')).toBeUndefined();
+    });
+  });
+
+  describe('getFile()', () => {
+    it('should read files by their path in the KoLmafia directory', () => {
+      bufferToFile('written', 'out.txt');
+      expect(getFile('data/out.txt')).toBe('written');
+      expect(getFile('out.txt')).toBeUndefined();
+    });
+  });
+
+  describe('getFileWrites()', () => {
+    it('should list writes made by scripts, in order', () => {
+      bufferToFile('first', 'out.txt');
+      mapToFile({a: 1}, 'map.txt');
+      bufferToFile('second', 'out.txt');
+
+      expect(getFileWrites()).toEqual([
+        {path: 'data/out.txt', contents: 'first'},
+        {path: 'data/map.txt', contents: 'a\t1\n'},
+        {path: 'data/out.txt', contents: 'second'},
+      ]);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * @file Tests for the HtmlCleaner-compatible HTML cleaner.
+ */
+
+import {cleanHtmlLikeHtmlCleaner} from '../../src/lib/html-cleaner';
+
+describe('cleanHtmlLikeHtmlCleaner()', () => {
+  /** Cleans the HTML and returns the contents of <body> */
+  const cleanBody = (html: string) => {
+    const match = /<body[^>]*>([^]*)<\/body>/.exec(
+      cleanHtmlLikeHtmlCleaner(html)
+    );
+    return match ? match[1] : null;
+  };
+
+  it('should wrap the document in <html>, <head> and <body>', () => {
+    expect(cleanHtmlLikeHtmlCleaner('Hello')).toBe(
+      '<html><head></head><body>Hello</body></html>'
+    );
+    expect(
+      cleanHtmlLikeHtmlCleaner(
+        '<!DOCTYPE html><html lang=en><body bgcolor=white>x</body></html>y'
+      )
+    ).toBe(
+      '<html lang="en"><head></head><body bgcolor="white">xy</body></html>'
+    );
+  });
+
+  it('should move head elements into <head>', () => {
+    expect(
+      cleanHtmlLikeHtmlCleaner('<title>A &amp; B</title><b>hi</b><meta name=x>')
+    ).toBe(
+      '<html><head><title>A &amp; B</title><meta name="x"/></head><body><b>hi</b></body></html>'
+    );
+  });
+
+  it('should insert <tbody> and <tr>', () => {
+    expect(cleanBody('<table><tr><td>a</td></tr></table>')).toBe(
+      '<table><tbody><tr><td>a</td></tr></tbody></table>'
+    );
+    expect(cleanBody('<table><td>a</td></table>')).toBe(
+      '<table><tbody><tr><td>a</td></tr></tbody></table>'
+    );
+    expect(cleanBody('<table><thead><tr><th>a</th></tr></thead></table>')).toBe(
+      '<table><thead><tr><th>a</th></tr></thead></table>'
+    );
+  });
+
+  it('should close unclosed table cells and rows', () => {
+    expect(cleanBody('<table><tr><td>a<td>b<tr><td>c</table>')).toBe(
+      '<table><tbody><tr><td>a</td><td>b</td></tr><tr><td>c</td></tr></tbody></table>'
+    );
+  });
+
+  it('should drop stray end tags', () => {
+    expect(
+      cleanBody('<table><tr><td><font color=red>x</td></font><td>y</table>')
+    ).toBe(
+      '<table><tbody><tr><td><font color="red">x</font></td><td>y</td></tr></tbody></table>'
+    );
+    expect(cleanBody('a</span>b</div>')).toBe('ab');
+  });
+
+  it('should keep forms inside tables', () => {
+    expect(
+      cleanBody('<table><form action=x><tr><td>a</td></tr></form></table>')
+    ).toBe(
+      '<table><form action="x"><tbody><tr><td>a</td></tr></tbody></form></table>'
+    );
+  });
+
+  it('should drop table tags outside of tables', () => {
+    expect(cleanBody('<td>a</td><tr>b</tr>')).toBe('ab');
+  });
+
+  it('should move content that is not allowed in tables', () => {
+    expect(cleanBody('<table>text<tr><td>1</td></tr></table>')).toBe(
+      'text<table><tbody><tr><td>1</td></tr></tbody></table>'
+    );
+    expect(cleanBody('<table><div>x</div><tr><td>1</td></tr></table>')).toBe(
+      '<div>x</div><table><tbody><tr><td>1</td></tr></tbody></table>'
+    );
+  });
+
+  it('should drop unknown tags but keep their contents', () => {
+    expect(cleanBody('<b><foo bar="1">baz</foo></b>')).toBe('<b>baz</b>');
+  });
+
+  it('should implicitly close paragraphs and list items', () => {
+    expect(cleanBody('<p>1<p>2<div>3</div>')).toBe(
+      '<p>1</p><p>2</p><div>3</div>'
+    );
+    expect(cleanBody('<ul><li>a<li>b</ul>')).toBe(
+      '<ul><li>a</li><li>b</li></ul>'
+    );
+  });
+
+  it('should normalize attributes', () => {
+    expect(
+      cleanBody('<input TYPE=checkbox checked value="a&amp;b" type=x>')
+    ).toBe('<input type="checkbox" checked="checked" value="a&amp;b"/>');
+  });
+
+  it('should not parse the contents of <script>', () => {
+    expect(cleanBody('<b>x</b><script>if (a<b) f("</b>");</script>')).toBe(
+      '<b>x</b><script>if (a&lt;b) f("&lt;/b&gt;");</script>'
+    );
+  });
+
+  it('should remove characters that are not allowed in XML', () => {
+    expect(
+      cleanBody('<b title="a\u0001b">c\u0000\td\uFFFE\r\n\u{1F600}</b>')
+    ).toBe('<b title="ab">c\td\r\n\u{1F600}</b>');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * @file Tests for the serializer that reproduces HtmlCleaner's output.
+ *
+ * The fixtures in `fixtures/htmlcleaner-serializer.json` pair markup and
+ * selectors with the strings that KoLmafia's `xpath()` returns for them.
+ * Each fixture records where its expected strings come from:
+ *
+ * - `kolmafia` and `page`: The KoLmafia version that returned them, and the
+ *   game page that the markup was taken from. To capture a fixture, save the
+ *   page and run `js require('kolmafia').xpath(html, selector)` in the gCLI.
+ * - `derivedFrom`: If they were not captured (`kolmafia` is `null`), the
+ *   source code that they were derived from.
+ */
+
+import {readFileSync} from 'fs';
+
+import {xpath} from '../../src/kolmafia/xpath';
+
+interface SerializerFixture {
+  description: string;
+  html: string;
+  selector: string;
+  expected: string[];
+  /** Version of KoLmafia that returned `expected`, e.g. `"r26000"` */
+  kolmafia: string | null;
+  /** Game page that `html` was taken from, e.g. `"inventory.php"` */
+  page: string | null;
+  /** Source code that `expected` was derived from, if it was not captured */
+  derivedFrom?: string;
+}
+
+describe('serializeLikeHtmlCleaner()', () => {
+  // Use file path relative to project root, so that the fixtures can be
+  // loaded from the compiled JS code
+  const fixtures: SerializerFixture[] = JSON.parse(
+    readFileSync('spec/lib/fixtures/htmlcleaner-serializer.json', 'utf8')
+  );
+
+  it('should record where each fixture comes from', () => {
+    for (const {description, kolmafia, page, derivedFrom} of fixtures) {
+      expect(kolmafia === null ? !!derivedFrom : !!page)
+        .withContext(description)
+        .toBe(true);
+    }
+  });
+
+  for (const fixture of fixtures) {
+    const source = fixture.kolmafia
+      ? `KoLmafia ${fixture.kolmafia}, ${fixture.page}`
+      : 'derived';
+    it(`${fixture.description} (${source})`, () => {
+      expect(
+        xpath(fixture.html, fixture.selector, {
+          cleaner: 'htmlcleaner',
+          serializer: 'htmlcleaner',
+        })
+      ).toEqual(fixture.expected);
+    });
+  }
+
+  it('should serialize documents cleaned by cheerio', () => {
+    expect(
+      xpath('<p>A<br>B&nbsp;C</p>', '//p', {serializer: 'htmlcleaner'})
+    ).toEqual(['<p>A<br />B&nbsp;C</p>']);
+    expect(
+      xpath(
+        '<body><script>if (a < b && c) go(1);</script></body>',
+        '//script',
+        {
+          serializer: 'htmlcleaner',
+        }
+      )
+    ).toEqual(['<script>/*<![CDATA[*/if (a < b && c) go(1);/*]]>*/</script>']);
+  });
+
+  it('should not change the default serializer', () => {
+    expect(xpath('<p>A<br>B</p>', '//p')).toEqual(['<p>A<br/>B</p>']);
+  });
+});
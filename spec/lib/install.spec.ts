@@ -0,0 +1,79 @@
+/**
+ * @file Tests for installKolmafiaStubs() and the loaders that use it.
+ */
+
+import {spawnSync} from 'child_process';
+import {mkdtempSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+
+import * as kolmafia from '../../src/kolmafia';
+import {
+  installKolmafiaStubs,
+  uninstallKolmafiaStubs,
+} from '../../src/lib/install';
+
+const requireKolmafia = () => require('kolmafia');
+
+describe('installKolmafiaStubs()', () => {
+  afterEach(() => uninstallKolmafiaStubs());
+
+  it('should register the stubs as the kolmafia module', () => {
+    expect(requireKolmafia).toThrowError(/Cannot find module 'kolmafia'/);
+
+    installKolmafiaStubs();
+    expect(requireKolmafia()).toBe(kolmafia);
+    expect(requireKolmafia().xpath).toBe(kolmafia.xpath);
+  });
+
+  it('should return a function that uninstalls the stubs', () => {
+    const uninstall = installKolmafiaStubs();
+    installKolmafiaStubs();
+    uninstall();
+
+    expect(requireKolmafia).toThrowError(/Cannot find module 'kolmafia'/);
+  });
+
+  it('should stop resolving kolmafia after it has been required', () => {
+    installKolmafiaStubs();
+    expect(requireKolmafia()).toBe(kolmafia);
+    uninstallKolmafiaStubs();
+    expect(requireKolmafia).toThrowError(/Cannot find module 'kolmafia'/);
+
+    installKolmafiaStubs();
+    expect(requireKolmafia()).toBe(kolmafia);
+  });
+
+  it('should be installed by kolmafia-stubs/register', () => {
+    // Use file path relative to project root
+    require(`${process.cwd()}/register`);
+    expect(requireKolmafia()).toBe(kolmafia);
+  });
+});
+
+describe('loader.mjs', () => {
+  it('should resolve ESM imports of kolmafia to the stubs', () => {
+    // Node.js 10 has no loader hooks that can resolve bare specifiers
+    if (Number(process.versions.node.split('.')[0]) < 12) {
+      pending('ESM loaders require Node.js 12.22 or later');
+    }
+    // Node.js 12 does not apply loaders to code given with -e
+    const script = join(
+      mkdtempSync(join(tmpdir(), 'kolmafia-stubs-')),
+      'test.mjs'
+    );
+    writeFileSync(
+      script,
+      "import {xpath} from 'kolmafia';\n" +
+        "console.log(xpath('<b>1</b><b>2</b>', '//b/text()').join());\n"
+    );
+    const {stdout, stderr} = spawnSync(
+      process.execPath,
+      ['--no-warnings', '--loader', './loader.mjs', script],
+      {encoding: 'utf8'}
+    );
+
+    expect(stderr).toBe('');
+    expect(stdout.trim()).toBe('1,2');
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * @file Tests for the inventory test helpers.
+ */
+
+import {Item, itemAmount, putCloset} from '../../src/kolmafia';
+import {addItems, getInventoryActions, getItems} from '../../src/lib/inventory';
+import {resetDefaultRuntime} from '../../src/runtime/default-runtime';
+import {createRuntime} from '../../src/runtime/runtime';
+
+describe('inventory helpers', () => {
+  afterEach(() => resetDefaultRuntime());
+
+  describe('addItems()', () => {
+    it('should add items by name or id without recording an action', () => {
+      addItems({spices: 3, 2: 1});
+      expect(itemAmount(Item.get('spices'))).toBe(3);
+      expect(itemAmount(Item.get('seal tooth'))).toBe(1);
+      expect(getInventoryActions()).toEqual([]);
+    });
+
+    it('should remove items given negative quantities', () => {
+      addItems({spices: 3}, 'closet');
+      addItems({spices: -3}, 'closet');
+      expect(getItems('closet')).toEqual({});
+      expect(() => addItems({spices: -1}, 'closet')).toThrowError(
+        'Not enough spices in closet to remove'
+      );
+    });
+
+    it('should add items to the given runtime only', () => {
+      const runtime = createRuntime();
+      addItems({spices: 1}, 'storage', runtime);
+      expect(runtime.storageAmount(Item.get('spices'))).toBe(1);
+      expect(getItems('storage')).toEqual({});
+    });
+  });
+
+  describe('getItems()', () => {
+    it('should return the items in a location, keyed by name', () => {
+      addItems({8: 2, 'seal tooth': 1});
+      addItems({spices: 4}, 'display');
+      expect(getItems()).toEqual({spices: 2, 'seal tooth': 1});
+      expect(getItems('display')).toEqual({spices: 4});
+    });
+  });
+
+  describe('getInventoryActions()', () => {
+    it('should only list actions that succeeded', () => {
+      addItems({spices: 3});
+      putCloset(2, Item.get('spices'));
+      putCloset(2, Item.get('spices'));
+      expect(getInventoryActions()).toEqual([
+        {function: 'putCloset', item: 'spices', quantity: 2},
+      ]);
+    });
+  });
+});
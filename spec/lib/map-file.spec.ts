@@ -0,0 +1,80 @@
+/**
+ * @file Tests for the map file format used by `mapToFile()` and `fileToMap()`.
+ */
+
+import {getMapShape, parseMap, serializeMap} from '../../src/lib/map-file';
+
+describe('serializeMap()', () => {
+  it('should write one line per value, prefixed by its keys', () => {
+    expect(
+      serializeMap({
+        'Seal Clubber': {1: 'seal-clubbing club', 2: 'club'},
+        count: 3,
+        enabled: true,
+      })
+    ).toBe(
+      'Seal Clubber\t1\tseal-clubbing club\n' +
+        'Seal Clubber\t2\tclub\n' +
+        'count\t3\n' +
+        'enabled\ttrue\n'
+    );
+  });
+
+  it('should write records on one line in compact mode', () => {
+    const map = {goal: ['meat', 500]};
+    expect(serializeMap(map)).toBe('goal\tmeat\t500\n');
+    expect(serializeMap(map, false)).toBe('goal\tmeat\ngoal\t500\n');
+  });
+
+  it('should escape tabs, newlines and backslashes', () => {
+    expect(serializeMap({'a\tb': 'c\nd\\'})).toBe('a\\tb\tc\\nd\\\\\n');
+  });
+});
+
+describe('parseMap()', () => {
+  it('should treat every field but the last as a key', () => {
+    expect(
+      parseMap('Seal Clubber\t1\tseal-clubbing club\ncount\t3\n\n')
+    ).toEqual({'Seal Clubber': {1: 'seal-clubbing club'}, count: '3'});
+  });
+
+  it('should collect values with the same keys into arrays', () => {
+    expect(parseMap('goal\tmeat\ngoal\t500\ngoal\tfast\n')).toEqual({
+      goal: ['meat', '500', 'fast'],
+    });
+  });
+
+  it('should replace existing values in the given map', () => {
+    const map = {count: '1', other: 'kept'};
+    expect(parseMap('count\t2\n', map)).toBe(map);
+    expect(map).toEqual({count: '2', other: 'kept'});
+  });
+
+  it('should split lines according to the shape of the map', () => {
+    expect(parseMap('a\t1\t2\nb\t3\t4\n', {a: []})).toEqual({
+      a: ['1', '2'],
+      b: ['3', '4'],
+    });
+    expect(parseMap('a\t1\na\t2\n', {}, {keys: 1, record: true})).toEqual({
+      a: ['1', '2'],
+    });
+    expect(parseMap('x\ty\tz\n', {}, {keys: 1, record: false})).toEqual({
+      x: 'y\tz',
+    });
+    expect(parseMap('x\n', {}, {keys: 1, record: false})).toEqual({});
+  });
+
+  it('should read back escaped fields', () => {
+    const map = {'a\tb': {'c\\': 'd\ne'}};
+    expect(parseMap(serializeMap(map))).toEqual(map);
+  });
+});
+
+describe('getMapShape()', () => {
+  it('should return the keys and type of the first value', () => {
+    expect(getMapShape({a: {1: 'x'}})).toEqual({keys: 2, record: false});
+    expect(getMapShape({a: []})).toEqual({keys: 1, record: true});
+    expect(getMapShape({a: {}})).toBeUndefined();
+    expect(getMapShape({})).toBeUndefined();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * @file Tests for the custom matchers.
+ */
+
+import {
+  getProperty,
+  Item,
+  print,
+  setProperty,
+  use,
+  xpath,
+} from '../../src/kolmafia';
+import {addItems} from '../../src/lib/inventory';
+import {
+  jasmineMatchers,
+  jestMatchers,
+  KolmafiaMatchers,
+  kolmafiaMatchers,
+} from '../../src/lib/matchers';
+import {resetDefaultRuntime} from '../../src/runtime/default-runtime';
+
+type Expectation = KolmafiaMatchers<void> & {not: KolmafiaMatchers<void>};
+
+/** Calls `expect()` with the types of the custom matchers. */
+function expectCustom(actual: unknown): Expectation {
+  return (expect(actual) as unknown) as Expectation;
+}
+
+const PAGE =
+  '<html><body><div id="inv">' +
+  '<p class="item">seal tooth</p><p class="item">spices</p>' +
+  '</div></body></html>';
+
+describe('custom matchers', () => {
+  beforeEach(() => jasmine.addMatchers(jasmineMatchers));
+  afterEach(() => resetDefaultRuntime());
+
+  describe('toMatchXPath()', () => {
+    it('should match results of xpath()', () => {
+      expectCustom(PAGE).toMatchXPath('//p');
+      expectCustom(PAGE).toMatchXPath('//p/text()', 'spices');
+      expectCustom(PAGE).toMatchXPath('//p/text()', ['seal tooth', 'spices']);
+      expectCustom(PAGE).not.toMatchXPath('//table');
+      expectCustom(PAGE).not.toMatchXPath('//p/text()', ['spices']);
+    });
+
+    it('should show a diff and the context of each match', () => {
+      const {pass, message} = kolmafiaMatchers.toMatchXPath(
+        PAGE,
+        '//p/text()',
+        ['seal tooth', 'salt']
+      );
+      expect(pass).toBe(false);
+      expect(message).toBe(
+        "Expected HTML to match XPath //p/text() with [ 'seal tooth', 'salt' ]." +
+          '\nDiff (- expected, + actual):' +
+          "\n    'seal tooth'" +
+          "\n  - 'salt'" +
+          "\n  + 'spices'" +
+          '\nMatched nodes:' +
+          "\n  'seal tooth'" +
+          "\n  'spices'" +
+          '\nContext of each match:' +
+          '\n  seal tooth' +
+          '\n  spices'
+      );
+
+      const elements = kolmafiaMatchers.toMatchXPath(PAGE, '//p', '<p>x</p>');
+      expect(elements.message).toContain(
+        '\nContext of each match:' +
+          `\n  ${xpath(PAGE, '//div')[0]}` +
+          `\n  ${xpath(PAGE, '//div')[0]}`
+      );
+    });
+
+    it('should show the cleaned page if nothing matched', () => {
+      const {message} = kolmafiaMatchers.toMatchXPath('<p>unclosed', '//table');
+      expect(message).toBe(
+        'Expected HTML to match XPath //table.' +
+          '\nMatched nodes: none' +
+          '\nCleaned page:' +
+          `\n  ${xpath('<p>unclosed', '//body')[0]}`
+      );
+    });
+  });
+
+  describe('toPrint()', () => {
+    it('should check messages printed by a function', () => {
+      print('before');
+      expectCustom(() => print('Hello, world!')).toPrint('world');
+      expectCustom(() => print('Done')).toPrint(/^Done$/);
+      expectCustom(() => print('after')).not.toPrint('before');
+    });
+
+    it('should list printed messages', () => {
+      const {message} = kolmafiaMatchers.toPrint(() => print('foo'), 'bar');
+      expect(message).toBe(
+        "Expected function to print 'bar', but it printed:\n  print: foo"
+      );
+      expect(() => kolmafiaMatchers.toPrint('foo', 'bar')).toThrowError(
+        TypeError
+      );
+    });
+  });
+
+  describe('toChangePreference()', () => {
+    it('should check preference changes made by a function', () => {
+      setProperty('foo', '1');
+      expectCustom(() => setProperty('foo', '2')).toChangePreference('foo');
+      expectCustom(() => setProperty('foo', '3')).toChangePreference(
+        'foo',
+        '3'
+      );
+      expectCustom(() => getProperty('foo')).not.toChangePreference('foo');
+    });
+
+    it('should list changes', () => {
+      const {message} = kolmafiaMatchers.toChangePreference(
+        () => setProperty('foo', 'bar'),
+        'foo',
+        'baz'
+      );
+      expect(message).toBe(
+        "Expected function to change preference foo to 'baz'. Changes:" +
+          "\n  '' -> 'bar'"
+      );
+    });
+  });
+
+  describe('toChangeInventory()', () => {
+    it('should check item changes made by a function', () => {
+      addItems({'seal tooth': 2, 'ten-leaf clover': 1});
+      expectCustom(() => use(1, Item.get('ten-leaf clover'))).toChangeInventory(
+        {
+          'ten-leaf clover': -1,
+        }
+      );
+      expectCustom(() => addItems({'seal tooth': 1})).not.toChangeInventory({
+        'seal tooth': 2,
+      });
+    });
+
+    it('should show expected and actual changes', () => {
+      const {message} = kolmafiaMatchers.toChangeInventory(
+        () => addItems({'seal tooth': 1}),
+        {'ten-leaf clover': 1}
+      );
+      expect(message).toBe(
+        'Expected function to change the inventory by the given amounts.' +
+          "\n  expected: { 'ten-leaf clover': 1 }" +
+          "\n  actual:   { 'seal tooth': 1 }"
+      );
+    });
+  });
+
+  describe('toThrowXPatherException()', () => {
+    it('should check that a function throws an XPatherException', () => {
+      const bad = () => xpath(PAGE, '//p[');
+      expectCustom(bad).toThrowXPatherException();
+      expectCustom(bad).toThrowXPatherException(/\^/);
+      expectCustom(() => xpath(PAGE, '//p')).not.toThrowXPatherException();
+      expectCustom(() => {
+        throw new Error('oops');
+      }).not.toThrowXPatherException();
+    });
+
+    it('should describe the error', () => {
+      const {message} = kolmafiaMatchers.toThrowXPatherException(() => {
+        throw new Error('oops');
+      });
+      expect(message).toBe(
+        'Expected function to throw an XPatherException, but it threw ' +
+          'Error: oops'
+      );
+    });
+  });
+
+  describe('jestMatchers', () => {
+    it('should return lazy messages for both outcomes', () => {
+      const failed = jestMatchers.toMatchXPath(PAGE, '//table');
+      expect(failed.pass).toBe(false);
+      expect(failed.message()).toMatch(/^Expected HTML to match/);
+
+      const passed = jestMatchers.toMatchXPath(PAGE, '//p');
+      expect(passed.pass).toBe(true);
+      expect(passed.message()).toMatch(/^Expected HTML not to match/);
+    });
+  });
+});
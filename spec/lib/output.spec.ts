@@ -0,0 +1,56 @@
+/**
+ * @file Tests for the output test helpers.
+ */
+
+import {abort, logprint, print, printHtml} from '../../src/kolmafia';
+import {clearOutput, getOutput, getOutputText} from '../../src/lib/output';
+import {KoLmafiaAbortError} from '../../src/runtime/output';
+import {resetDefaultRuntime} from '../../src/runtime/default-runtime';
+import {createRuntime} from '../../src/runtime/runtime';
+
+describe('output helpers', () => {
+  afterEach(() => resetDefaultRuntime());
+
+  describe('getOutput()', () => {
+    it('should list messages with the function that wrote them', () => {
+      print('Hello', 'green');
+      logprint('Logged');
+      expect(() => abort('Stop')).toThrowError(KoLmafiaAbortError);
+
+      expect(getOutput()).toEqual([
+        jasmine.objectContaining({
+          function: 'print',
+          text: 'Hello',
+          color: 'green',
+        }),
+        jasmine.objectContaining({function: 'logprint', text: 'Logged'}),
+        jasmine.objectContaining({function: 'abort', text: 'Stop'}),
+      ]);
+    });
+  });
+
+  describe('getOutputText()', () => {
+    it('should only include messages shown in the gCLI', () => {
+      print('one');
+      logprint('only in the session log');
+      printHtml('<b>two</b>');
+      expect(getOutputText()).toBe('one\ntwo');
+    });
+
+    it('should read the output of the given runtime', () => {
+      const runtime = createRuntime();
+      runtime.print('runtime');
+      print('default');
+      expect(getOutputText(runtime)).toBe('runtime');
+    });
+  });
+
+  describe('clearOutput()', () => {
+    it('should remove earlier messages only', () => {
+      print('before');
+      clearOutput();
+      print('after');
+      expect(getOutputText()).toBe('after');
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * @file Tests for the preference test helpers.
+ */
+
+import {getProperty, removeProperty, setProperty} from '../../src/kolmafia';
+import {
+  getPropertyWrites,
+  restoreProperties,
+  snapshotProperties,
+} from '../../src/lib/properties';
+import {
+  getDefaultRuntime,
+  resetDefaultRuntime,
+} from '../../src/runtime/default-runtime';
+import {createRuntime} from '../../src/runtime/runtime';
+
+describe('preference helpers', () => {
+  afterEach(() => resetDefaultRuntime());
+
+  describe('snapshotProperties()', () => {
+    it('should not change when preferences change later', () => {
+      setProperty('foo', 'before');
+      const snapshot = snapshotProperties();
+      setProperty('foo', 'after');
+
+      const runtime = createRuntime();
+      restoreProperties(snapshot, runtime);
+      expect(runtime.getProperty('foo')).toBe('before');
+    });
+  });
+
+  describe('restoreProperties()', () => {
+    it('should undo changes, additions and removals', () => {
+      const snapshot = snapshotProperties();
+      setProperty('valueOfAdventure', '9000');
+      setProperty('foo', 'bar');
+      removeProperty('lastEncounter');
+      restoreProperties(snapshot);
+
+      expect(getProperty('valueOfAdventure')).toBe('500');
+      expect(getProperty('foo')).toBe('');
+      expect(getDefaultRuntime().state.preferences.writes.length).toBe(3);
+    });
+
+    it('should restore the preferences of every character', () => {
+      const {preferences} = getDefaultRuntime().state;
+      preferences.user = 'Alice';
+      const snapshot = snapshotProperties();
+      setProperty('foo', 'alice');
+      preferences.user = 'Bob';
+      setProperty('foo', 'bob');
+      restoreProperties(snapshot);
+
+      expect(preferences.user).toBe('Alice');
+      expect(getProperty('foo')).toBe('');
+      preferences.user = 'Bob';
+      expect(getProperty('foo')).toBe('');
+    });
+  });
+
+  describe('getPropertyWrites()', () => {
+    it('should list changes and removals with their previous values', () => {
+      setProperty('valueOfAdventure', '9000');
+      removeProperty('valueOfAdventure');
+
+      expect(
+        getPropertyWrites().map(w => [w.name, w.previousValue, w.value])
+      ).toEqual([
+        ['valueOfAdventure', '500', '9000'],
+        ['valueOfAdventure', '9000', null],
+      ]);
+    });
+
+    it('should only list writes made to the given runtime', () => {
+      const runtime = createRuntime();
+      runtime.setProperty('foo', 'bar');
+
+      expect(getPropertyWrites(runtime).map(w => w.value)).toEqual(['bar']);
+      expect(getPropertyWrites()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * @file Tests for the tagged template helpers.
+ */
+
+import {
+  $class,
+  $effect,
+  $item,
+  $items,
+  $location,
+  $skills,
+  $slots,
+} from '../../src/lib/template-string';
+import {
+  Class,
+  Effect,
+  Item,
+  Location,
+  Skill,
+  Slot,
+} from '../../src/runtime/game-types';
+
+describe('tagged template helpers', () => {
+  it('should look up single values', () => {
+    expect($item`spices`).toBe(Item.get('spices'));
+    expect($item``).toBe(Item.none);
+    expect($effect`Ode to Booze`).toBe(Effect.get(71));
+    expect($class`Sauceror`).toBe(Class.get(4));
+    const name = 'Haunted Pantry';
+    expect($location`The ${name}`).toBe(Location.get(113));
+  });
+
+  it('should look up lists of values', () => {
+    expect($items`spices, seal tooth,`).toEqual([
+      Item.get('spices'),
+      Item.get('seal tooth'),
+    ]);
+    expect($skills`The Ode to Booze`).toEqual([Skill.get(6014)]);
+  });
+
+  it('should return all values for empty lists', () => {
+    expect($items``).toEqual(Item.all());
+    expect($slots` `).toEqual(Slot.all());
+  });
+
+  it('should unescape commas', () => {
+    expect(() => $items`Hey Deze\, Nuts`).toThrowError(
+      'Bad item value: Hey Deze, Nuts'
+    );
+  });
+});
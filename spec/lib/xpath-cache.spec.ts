@@ -0,0 +1,65 @@
+/**
+ * @file Tests for the caches used by `xpath()`.
+ */
+
+import {xpath} from '../../src/kolmafia/xpath';
+import {
+  clearXPathCache,
+  configureXPathCache,
+  getCompiledXPath,
+  getParsedDocument,
+} from '../../src/lib/xpath-cache';
+
+describe('xpath() caches', () => {
+  const HTML = '<table><tr><td>1</td><td>2</td></tr></table>';
+
+  afterEach(() => {
+    configureXPathCache({selectors: 256, documents: 8});
+    clearXPathCache();
+  });
+
+  it('should reuse parsed documents for the same HTML', () => {
+    expect(getParsedDocument(HTML)).toBe(getParsedDocument(HTML));
+    expect(getParsedDocument(HTML)).not.toBe(getParsedDocument(HTML + ' '));
+  });
+
+  it('should reuse compiled selectors', () => {
+    expect(getCompiledXPath('//td')).toBe(getCompiledXPath('//td'));
+  });
+
+  it('should discard cached entries when cleared', () => {
+    const root = getParsedDocument(HTML);
+    const compiled = getCompiledXPath('//td');
+    clearXPathCache();
+
+    expect(getParsedDocument(HTML)).not.toBe(root);
+    expect(getCompiledXPath('//td')).not.toBe(compiled);
+  });
+
+  it('should not cache anything when disabled', () => {
+    configureXPathCache({selectors: 0, documents: 0});
+
+    expect(getParsedDocument(HTML)).not.toBe(getParsedDocument(HTML));
+    expect(getCompiledXPath('//td')).not.toBe(getCompiledXPath('//td'));
+  });
+
+  it('should evict the least recently used document', () => {
+    configureXPathCache({documents: 2});
+    const first = getParsedDocument('<a>1</a>');
+    getParsedDocument('<a>2</a>');
+    getParsedDocument('<a>1</a>');
+    getParsedDocument('<a>3</a>');
+
+    expect(getParsedDocument('<a>1</a>')).toBe(first);
+  });
+
+  it('should not change the results of xpath()', () => {
+    const expected = ['<td>1</td>', '<td>2</td>'];
+    expect(xpath(HTML, '//td')).toEqual(expected);
+    expect(xpath(HTML, '//td')).toEqual(expected);
+    expect(xpath(HTML, '//td[2]/text()')).toEqual(['2']);
+
+    configureXPathCache({selectors: 0, documents: 0});
+    expect(xpath(HTML, '//td')).toEqual(expected);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @file Tests for the divergence checks between XPather and standard XPath.
+ */
+
+import {DOMParser} from 'xmldom';
+
+import {xpath} from '../../src/kolmafia/xpath';
+import {
+  evaluateXPath,
+  SUPPORTED_FUNCTIONS,
+  XPatherException,
+} from '../../src/lib/xpather';
+import {
+  evaluateCheckedXPath,
+  findUnsupportedConstructs,
+  XPathDivergence,
+} from '../../src/lib/xpath-divergence';
+
+describe('findUnsupportedConstructs()', () => {
+  const constructsOf = (selector: string) =>
+    findUnsupportedConstructs(selector).map(d => [d.construct, d.offset]);
+
+  it('should accept selectors that XPather understands', () => {
+    expect(constructsOf('//div[@id="a"]//a[2]/@href')).toEqual([]);
+    expect(constructsOf('count(//a[position() < last()])')).toEqual([]);
+  });
+
+  it('should find unsupported functions', () => {
+    expect(constructsOf('//a[contains(@href, "x")]')).toEqual([
+      ['unsupported-function', 4],
+    ]);
+  });
+
+  it('should find boolean operators and !=', () => {
+    expect(constructsOf('//a[@id and @href != "x"]')).toEqual([
+      ['boolean-operator', 8],
+      ['not-equals', 18],
+    ]);
+  });
+
+  it('should find parent steps and absolute paths', () => {
+    expect(constructsOf('/body//a/..')).toEqual([
+      ['absolute-path', 0],
+      ['parent-step', 9],
+    ]);
+    expect(constructsOf('//div[//span]')).toEqual([
+      ['absolute-path-in-predicate', 5],
+    ]);
+  });
+
+  it('should ignore string literals', () => {
+    expect(constructsOf('//a[@title = "foo() and bar | baz"]')).toEqual([]);
+  });
+});
+
+describe('divergence checks', () => {
+  const HTML =
+    '<div id="a"><p class="x">1</p><p>2</p></div><div><p>3</p></div>';
+
+  const check = (selector: string) => {
+    let divergences: XPathDivergence[] = [];
+    xpath(HTML, selector, {onDivergence: d => (divergences = d)});
+    return divergences;
+  };
+
+  it('should not report selectors that behave like standard XPath', () => {
+    expect(check('//div[@id]/p')).toEqual([]);
+    expect(check('//p/@class')).toEqual([]);
+    expect(check('count(//p)')).toEqual([]);
+  });
+
+  it('should report mismatched results', () => {
+    const divergences = check('/body/div');
+    const mismatch = divergences.find(d => d.kind === 'result-mismatch');
+
+    expect(mismatch).toBeDefined();
+    expect(mismatch!.xpatherResults!.length).toBe(2);
+    expect(mismatch!.standardResults).toEqual([]);
+  });
+
+  it('should report selectors that are not valid XPath 1.0', () => {
+    expect(check('//p/last()').map(d => d.kind)).toEqual(['invalid-xpath']);
+  });
+
+  it('should report unsupported constructs even if XPather fails', () => {
+    let divergences: XPathDivergence[] = [];
+    expect(() =>
+      xpath(HTML, '//p[contains(@class, "x")]', {
+        onDivergence: d => (divergences = d),
+      })
+    ).toThrowError(XPatherException);
+    expect(divergences.map(d => d.construct)).toEqual(['unsupported-function']);
+  });
+
+  it('should be available for selectors evaluated on other trees', () => {
+    const root = new DOMParser().parseFromString('<a><b/><b/></a>')
+      .documentElement;
+    const onDivergence = jasmine.createSpy('onDivergence');
+
+    expect(evaluateCheckedXPath(root, '//b', onDivergence).length).toBe(2);
+    expect(onDivergence).not.toHaveBeenCalled();
+
+    expect(evaluateCheckedXPath(root, '/b', onDivergence)).toEqual(
+      evaluateXPath(root, '/b')
+    );
+    expect(onDivergence).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept every function that XPather supports', () => {
+    for (const name of SUPPORTED_FUNCTIONS) {
+      expect(findUnsupportedConstructs(`${name}(//a)`)).toEqual([]);
+    }
+  });
+});
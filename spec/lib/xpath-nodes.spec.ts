@@ -0,0 +1,90 @@
+/**
+ * @file Tests for xpathNodes().
+ */
+
+import {readFileSync} from 'fs';
+
+import {xpath} from '../../src/kolmafia/xpath';
+import {XPathElementHandle, xpathNodes} from '../../src/lib/xpath-nodes';
+import {
+  resetDefaultRuntime,
+  setDefaultRuntime,
+} from '../../src/runtime/default-runtime';
+import {createRuntime} from '../../src/runtime/runtime';
+
+describe('xpathNodes()', () => {
+  const HTML =
+    '<table id="inv"><tr><td class="item" rel="id=1">Seal tooth</td>' +
+    '<td class="item" rel="id=2"><b>Big</b> rock</td></tr></table>';
+
+  it('should return element handles', () => {
+    const results = xpathNodes(HTML, '//td');
+
+    expect(results.length).toBe(2);
+    expect(results.every(r => r.type === 'element')).toBe(true);
+
+    const td = results[1].value as XPathElementHandle;
+    expect(td.tagName).toBe('td');
+    expect(td.attributes).toEqual({class: 'item', rel: 'id=2'});
+    expect(td.getAttribute('rel')).toBe('id=2');
+    expect(td.getAttribute('missing')).toBeNull();
+    expect(td.text).toBe('Big rock');
+  });
+
+  it('should tag strings, numbers and booleans', () => {
+    expect(xpathNodes(HTML, '//td/@rel')).toEqual([
+      {type: 'string', value: 'id=1'},
+      {type: 'string', value: 'id=2'},
+    ]);
+    expect(xpathNodes(HTML, 'count(//td)')).toEqual([
+      {type: 'number', value: 2},
+    ]);
+  });
+
+  it('should support nested queries', () => {
+    const [, td] = xpathNodes(HTML, '//td');
+    const handle = td.value as XPathElementHandle;
+
+    expect(handle.xpath('b/text()')).toEqual(['Big']);
+    expect(handle.query('b').map(r => r.type)).toEqual(['element']);
+    expect(handle.query('@class')).toEqual([{type: 'string', value: 'item'}]);
+  });
+
+  it('should serialize elements exactly like xpath()', () => {
+    const html = readFileSync('spec/kolmafia/xpath.spec.html', 'utf8');
+
+    for (const selector of ['//div[3]//a[@id]', '//div//a', '//div[2]/@*']) {
+      const strings = xpath(html, selector);
+      const nodes = xpathNodes(html, selector);
+
+      expect(nodes.map(r => String(r.value))).toEqual(strings);
+    }
+  });
+
+  it('should use the same cleaner as xpath()', () => {
+    const html = '<table><tr><td>a<td>b</table>';
+    const options = {cleaner: 'htmlcleaner' as const};
+
+    expect(
+      xpathNodes(html, '//tbody/tr/td[2]', options).map(r => String(r.value))
+    ).toEqual(xpath(html, '//tbody/tr/td[2]', options));
+  });
+
+  it("should use the runtime's default xpath() options", () => {
+    // HtmlCleaner drops unknown tags, and cheerio keeps them
+    const html = '<foo><b>x</b></foo>';
+    const runtime = createRuntime({xpath: {cleaner: 'htmlcleaner'}});
+    const selector = '/body/b';
+
+    const nodes = xpathNodes(html, selector, {}, runtime);
+    expect(nodes.map(r => String(r.value))).toEqual(
+      runtime.xpath(html, selector)
+    );
+    expect(nodes.length).toBe(1);
+
+    setDefaultRuntime(runtime);
+    expect(xpathNodes(html, selector).length).toBe(1);
+    expect(xpathNodes(html, selector, {cleaner: 'cheerio'})).toEqual([]);
+    resetDefaultRuntime();
+  });
+});
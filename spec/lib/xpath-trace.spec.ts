@@ -0,0 +1,106 @@
+/**
+ * @file Tests for the XPath evaluation trace.
+ */
+
+import {explainXPath, XPathTraceStep} from '../../src/lib/xpath-trace';
+import {createRuntime} from '../../src/runtime/runtime';
+
+describe('explainXPath()', () => {
+  const HTML = '<div><p>a</p><p>b</p></div><div><span>c</span></div>';
+
+  /** Returns all steps in the trace in depth-first order */
+  const flatten = (steps: XPathTraceStep[]): XPathTraceStep[] =>
+    steps.reduce<XPathTraceStep[]>(
+      (all, step) => [...all, step, ...flatten(step.children)],
+      []
+    );
+
+  it('should return the same results as xpath()', () => {
+    const trace = explainXPath(HTML, '//div/p');
+
+    expect(trace.expression).toBe('//div/p');
+    expect(trace.results.length).toBe(2);
+    expect(trace.error).toBeNull();
+    expect(trace.truncated).toBe(false);
+  });
+
+  it('should record the token range and node counts of each step', () => {
+    const trace = explainXPath(HTML, '//div[2]/p');
+
+    expect(trace.steps.length).toBe(1);
+    expect(trace.steps[0]).toEqual(
+      jasmine.objectContaining({
+        operation: 'evaluateAgainst',
+        from: 0,
+        to: 7,
+        tokens: '//div[2]/p',
+        inputCount: 1,
+        outputCount: 0,
+      })
+    );
+
+    // The step that lost the nodes
+    const lastStep = trace.steps[0].children[1];
+    expect(lastStep.tokens).toBe('/p');
+    expect(lastStep.inputCount).toBe(1);
+    expect(lastStep.outputCount).toBe(0);
+
+    const operations = new Set(flatten(trace.steps).map(s => s.operation));
+    expect(operations).toEqual(
+      new Set(['evaluateAgainst', 'getElementsByName', 'filterByCondition'])
+    );
+  });
+
+  it('should record function calls', () => {
+    const steps = flatten(explainXPath(HTML, 'count(//p)').steps);
+    const call = steps.find(s => s.operation === 'evaluateFunction');
+
+    expect(call).toEqual(
+      jasmine.objectContaining({tokens: 'count(//p)', outputCount: 1})
+    );
+  });
+
+  it('should capture errors instead of throwing', () => {
+    const trace = explainXPath(HTML, '//p/foo()');
+
+    expect(trace.error).not.toBeNull();
+    expect(trace.error!.reason).toBe("unknown function 'foo'");
+    expect(trace.steps[0].outputCount).toBeNull();
+    expect(trace.toString()).toContain(
+      'evaluateFunction [4..6] "foo()" 2 -> threw'
+    );
+  });
+
+  it('should pretty-print as an indented tree', () => {
+    const lines = explainXPath('<p>x</p>', '/body/p').toString().split('\n');
+
+    expect(lines).toEqual([
+      '/body/p',
+      'evaluateAgainst [0..3] "/body/p" 1 -> 1',
+      '  evaluateAgainst [1..1] "body" 1 -> 1',
+      '    getElementsByName [1..1] "body" 1 -> 1',
+      '  evaluateAgainst [2..3] "/p" 1 -> 1',
+      '    evaluateAgainst [3..3] "p" 1 -> 1',
+      '      getElementsByName [3..3] "p" 1 -> 1',
+    ]);
+  });
+
+  it('should stop recording after the maximum number of steps', () => {
+    const trace = explainXPath(HTML, '//p', {maxSteps: 2});
+
+    expect(flatten(trace.steps).length).toBe(2);
+    expect(trace.truncated).toBe(true);
+    expect(trace.results.length).toBe(2);
+  });
+
+  it("should clean pages with the runtime's default cleaner", () => {
+    // HtmlCleaner drops unknown tags, and cheerio keeps them
+    const html = '<foo><b>x</b></foo>';
+    const runtime = createRuntime({xpath: {cleaner: 'htmlcleaner'}});
+
+    expect(explainXPath(html, '/body/b', {}, runtime).results.length).toBe(1);
+    expect(
+      explainXPath(html, '/body/b', {cleaner: 'cheerio'}, runtime).results
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * @file Tests for the XPather extensions that are not part of HtmlCleaner.
+ */
+
+import {DOMParser} from 'xmldom';
+
+import {xpath} from '../../src/kolmafia';
+import {
+  compileXPath,
+  evaluateXPath,
+  XPatherException,
+} from '../../src/lib/xpather';
+
+describe('compileXPath()', () => {
+  const parse = (xml: string) =>
+    new DOMParser().parseFromString(xml).documentElement;
+
+  it('should produce the same results as evaluateXPath()', () => {
+    const root = parse(
+      '<html><body><div id="a"><p>1</p></div><div><p>2</p><p>3</p></div></body></html>'
+    );
+    const selectors = [
+      '//div//p',
+      '//div[2]/p[last()]',
+      '//div/@id',
+      'count(//p)',
+      '(//p)[position() > 1]/text()',
+    ];
+
+    for (const selector of selectors) {
+      expect(compileXPath(selector).evaluate(root)).toEqual(
+        evaluateXPath(root, selector)
+      );
+    }
+  });
+
+  it('should be reusable across documents', () => {
+    const compiled = compileXPath('//span/text()');
+
+    expect(compiled.expression).toBe('//span/text()');
+    expect(compiled.evaluate(parse('<a><span>x</span></a>'))).toEqual(['x']);
+    expect(
+      compiled.evaluate(parse('<b><span>y</span><span>z</span></b>'))
+    ).toEqual(['y', 'z']);
+  });
+
+  it('should reject malformed selectors up front', () => {
+    expect(() => compileXPath('//div[@id')).toThrowError(XPatherException);
+    expect(() => compileXPath('//div[@id)]')).toThrowError(XPatherException);
+    expect(() => compileXPath("//a[@href='x]")).toThrowError(XPatherException);
+    expect(() => compileXPath('//div[contains(@id, "x")]')).toThrowError(
+      XPatherException
+    );
+  });
+
+  it('should accept quoted brackets and function names', () => {
+    expect(() => compileXPath('//a[@title="count(]"]')).not.toThrow();
+  });
+
+  it('should only throw while evaluating if not strict', () => {
+    const selector = '//table[contains(@id, "x")]';
+    const compiled = compileXPath(selector, {strict: false});
+    expect(compiled.evaluate(parse('<a><b/></a>'))).toEqual([]);
+    expect(() => compiled.evaluate(parse('<a><table/></a>'))).toThrowError(
+      XPatherException
+    );
+    expect(xpath('<p>x</p>', selector)).toEqual([]);
+  });
+});
+
+describe('XPatherException', () => {
+  const parse = (xml: string) =>
+    new DOMParser().parseFromString(xml).documentElement;
+
+  const catchError = (fn: () => unknown): XPatherException => {
+    try {
+      fn();
+    } catch (e) {
+      if (e instanceof XPatherException) return e;
+      throw e;
+    }
+    throw new Error('Expected an XPatherException to be thrown');
+  };
+
+  it('should point to an unknown function', () => {
+    const e = catchError(() => compileXPath('//div[contains(@id, "x")]'));
+
+    expect(e.expression).toBe('//div[contains(@id, "x")]');
+    expect(e.tokenIndex).toBe(4);
+    expect(e.offset).toBe(6);
+    expect(e.reason).toBe("unknown function 'contains'");
+    expect(e.message).toBe(
+      [
+        "unknown function 'contains' (at offset 6)",
+        '  //div[contains(@id, "x")]',
+        '        ^',
+      ].join('\n')
+    );
+  });
+
+  it('should point to unbalanced brackets and quotes', () => {
+    expect(catchError(() => compileXPath('//div[@id')).offset).toBe(5);
+    expect(catchError(() => compileXPath('//div[@id)]')).offset).toBe(9);
+    expect(catchError(() => compileXPath("//a[@href='x]")).offset).toBe(10);
+    expect(catchError(() => compileXPath('//a[@id')).reason).toBe(
+      "unbalanced bracket '['"
+    );
+  });
+
+  it('should point to misplaced operators', () => {
+    const e = catchError(() => compileXPath('//a[@id = ]'));
+    expect(e.reason).toBe("misplaced operator '='");
+    expect(e.offset).toBe(8);
+
+    expect(catchError(() => compileXPath('count(//a) > 1')).offset).toBe(11);
+  });
+
+  it('should report misplaced operators without throwing if not strict', () => {
+    const {diagnostic} = compileXPath('//p = 1', {strict: false});
+    expect(diagnostic!.reason).toBe("misplaced operator '='");
+    expect(diagnostic!.offset).toBe(4);
+    expect(compileXPath('//p[1]', {strict: false}).diagnostic).toBeNull();
+
+    expect(xpath('<p>1</p>', '//p = 1')).toEqual([]);
+    expect(xpath('<div id="x"></div>', '//div[@id=]')).toEqual([]);
+  });
+
+  it('should be thrown with a location while evaluating', () => {
+    const root = parse('<a><b href="x">1</b></a>');
+
+    const e1 = catchError(() => evaluateXPath(root, '//b/'));
+    expect(e1.reason).toBe("expected a step after '/'");
+    expect(e1.offset).toBe(3);
+
+    const e2 = catchError(() => evaluateXPath(root, '//b/@href/@id'));
+    expect(e2.reason).toBe('cannot select attributes of a non-element value');
+    expect(e2.offset).toBe(10);
+
+    const e3 = catchError(() => evaluateXPath(root, '//b/foo()'));
+    expect(e3.reason).toBe("unknown function 'foo'");
+    expect(e3.tokenIndex).toBe(4);
+  });
+
+  it('should keep plain messages when no location is given', () => {
+    const e = new XPatherException('Something went wrong');
+    expect(e.message).toBe('Something went wrong');
+    expect(e.expression).toBeUndefined();
+  });
+});
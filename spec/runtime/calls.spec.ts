@@ -0,0 +1,132 @@
+/**
+ * @file Tests for the call recorder.
+ */
+
+import {getProperty, Location, print} from '../../src/kolmafia';
+import {
+  getDefaultRuntime,
+  resetDefaultRuntime,
+} from '../../src/runtime/default-runtime';
+import {createRuntime} from '../../src/runtime/runtime';
+
+describe('CallRecorder', () => {
+  beforeEach(() => resetDefaultRuntime());
+  afterEach(() => resetDefaultRuntime());
+
+  it('should record calls made through the runtime', () => {
+    const runtime = createRuntime();
+    runtime.print('foo', 'red');
+    runtime.setProperty('bar', '1');
+
+    const [first, second] = runtime.state.calls.calls;
+    expect(first).toEqual(
+      jasmine.objectContaining({
+        name: 'print',
+        args: ['foo', 'red'],
+        index: 0,
+        result: undefined,
+      })
+    );
+    expect(first.callSite).toMatch(/calls\.spec\.[jt]s:\d+:\d+$/);
+    expect(second.name).toBe('setProperty');
+    expect(second.index).toBe(1);
+  });
+
+  it('should record calls made through the kolmafia module', () => {
+    print('foo');
+
+    const [call] = getDefaultRuntime().state.calls.getCalls({name: 'print'});
+    expect(call.args).toEqual(['foo']);
+    expect(call.callSite).toMatch(/calls\.spec\.[jt]s:\d+:\d+$/);
+  });
+
+  it('should not record calls made internally', () => {
+    const runtime = createRuntime({
+      character: {adventures: 1},
+      encounters: {'Noob Cave': [{choice: {id: 1, options: {1: {}}}}]},
+    });
+    // Choices are parsed with xpath()
+    runtime.adv1(Location.get('Noob Cave'), -1, '');
+    expect(runtime.state.calls.calls.map(call => call.name)).toEqual(['adv1']);
+  });
+
+  it('should record results and errors', () => {
+    const runtime = createRuntime();
+    runtime.getProperty('baz');
+    expect(() => runtime.abort('Oops')).toThrow();
+
+    const [getCall, abortCall] = runtime.state.calls.calls;
+    expect(getCall.result).toBe('');
+    expect(abortCall.error).toEqual(jasmine.any(Error));
+  });
+
+  it('should filter calls', () => {
+    const runtime = createRuntime();
+    const {calls} = runtime.state;
+    spyOn(Date, 'now').and.returnValues(1000, 2000, 3000);
+    runtime.print('a');
+    runtime.logprint('b');
+    runtime.print('c');
+
+    const texts = (filter: object) =>
+      calls.getCalls(filter).map(call => call.args[0]);
+    expect(texts({name: 'print'})).toEqual(['a', 'c']);
+    expect(texts({name: ['print', 'logprint']})).toEqual(['a', 'b', 'c']);
+    expect(texts({since: 2000})).toEqual(['b', 'c']);
+    expect(texts({until: new Date(2000)})).toEqual(['a', 'b']);
+    expect(texts({callSite: 'calls.spec'})).toEqual(['a', 'b', 'c']);
+    expect(texts({callSite: /other-file/})).toEqual([]);
+
+    calls.clear();
+    expect(calls.getCalls()).toEqual([]);
+  });
+
+  it('should forget the oldest calls beyond the limit', () => {
+    const runtime = createRuntime({calls: {limit: 2}});
+    runtime.print('a');
+    runtime.print('b');
+    runtime.print('c');
+
+    const {calls} = runtime.state;
+    expect(calls.calls.map(call => [call.args[0], call.index])).toEqual([
+      ['b', 1],
+      ['c', 2],
+    ]);
+    calls.clear();
+    runtime.print('d');
+    expect(calls.calls[0].index).toBe(0);
+  });
+
+  it('should clear calls when the default runtime is reset', () => {
+    const runtime = getDefaultRuntime();
+    print('foo');
+    resetDefaultRuntime();
+    expect(runtime.state.calls.calls).toEqual([]);
+    expect(getDefaultRuntime()).not.toBe(runtime);
+  });
+
+  it('should replace and wrap implementations', () => {
+    const runtime = createRuntime();
+    const {calls} = runtime.state;
+
+    calls.replace('myMeat', () => 500);
+    expect(runtime.myMeat()).toBe(500);
+    calls.wrap('myMeat', original => () => original() * 2);
+    expect(runtime.myMeat()).toBe(1000);
+    expect(calls.getCalls({name: 'myMeat'}).length).toBe(2);
+
+    calls.restore('myMeat');
+    expect(runtime.myMeat()).toBe(0);
+  });
+
+  it('should apply overrides to the kolmafia module', () => {
+    getDefaultRuntime().state.calls.wrap('getProperty', original => name =>
+      name === 'foo' ? 'bar' : original(name)
+    );
+    expect(getProperty('foo')).toBe('bar');
+    expect(getProperty('lastAdventure')).toBe('');
+
+    getDefaultRuntime().state.calls.restore();
+    expect(getProperty('foo')).toBe('');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * @file Tests for cassette playback and `visitUrl()`.
+ */
+
+import {
+  Cassette,
+  CassetteMismatchError,
+  CassettePlayer,
+  UnusedCassetteEntriesError,
+} from '../../src/runtime/cassettes';
+import {createRuntime} from '../../src/runtime/runtime';
+
+const CASSETTE: Cassette = {
+  name: 'test',
+  entries: [
+    {url: 'main.php', response: 'main'},
+    {url: 'inventory.php?which=1', method: 'GET', response: 'consumables'},
+    {url: 'inventory.php?which=2', method: 'GET', response: 'equipment'},
+    {
+      glob: 'choice.php*',
+      method: 'POST',
+      fields: {whichchoice: '1', option: '2'},
+      response: 'choice 1, option 2',
+    },
+    {regex: '^fight\\.php', response: 'round 1'},
+    {regex: /^fight\.php/, response: 'round 2'},
+  ],
+};
+
+describe('visitUrl()', () => {
+  it('should match exact URLs', () => {
+    const {visitUrl} = createRuntime({cassettes: [CASSETTE]});
+    expect(visitUrl('main.php')).toBe('main');
+    expect(visitUrl('inventory.php?which=2', false)).toBe('equipment');
+  });
+
+  it('should ignore the scheme and host', () => {
+    const {visitUrl} = createRuntime({cassettes: [CASSETTE]});
+    expect(visitUrl('https://www.kingdomofloathing.com/main.php')).toBe('main');
+    expect(visitUrl('/main.php')).toBe('main');
+  });
+
+  it('should match globs and form fields', () => {
+    const {visitUrl} = createRuntime({cassettes: [CASSETTE]});
+    expect(visitUrl('choice.php?pwd&whichchoice=1&option=2')).toBe(
+      'choice 1, option 2'
+    );
+    expect(() => visitUrl('choice.php?whichchoice=1&option=3')).toThrowError(
+      CassetteMismatchError
+    );
+  });
+
+  it('should decode encoded form fields', () => {
+    const {visitUrl} = createRuntime({
+      cassettes: [
+        {
+          entries: [
+            {glob: 'inv_use.php*', fields: {note: 'a b&c'}, response: 'ok'},
+          ],
+        },
+      ],
+    });
+    expect(visitUrl('inv_use.php?note=a%20b%26c', true, true)).toBe('ok');
+    expect(() => visitUrl('inv_use.php?note=a%20b%26c')).toThrowError(
+      CassetteMismatchError
+    );
+  });
+
+  it('should match methods', () => {
+    const {visitUrl} = createRuntime({cassettes: [CASSETTE]});
+    expect(() => visitUrl('inventory.php?which=1')).toThrowError(
+      CassetteMismatchError
+    );
+    expect(visitUrl('inventory.php?which=1', false)).toBe('consumables');
+  });
+
+  it('should play matching entries in order and then repeat the last one', () => {
+    const {visitUrl} = createRuntime({cassettes: [CASSETTE]});
+    expect(visitUrl('fight.php?action=attack')).toBe('round 1');
+    expect(visitUrl('fight.php?action=attack')).toBe('round 2');
+    expect(visitUrl('fight.php?action=attack')).toBe('round 2');
+  });
+
+  it('should list the closest entries when nothing matches', () => {
+    const {visitUrl} = createRuntime({cassettes: [CASSETTE]});
+    expect(() => visitUrl('inventory.php?which=3', false)).toThrowError(
+      CassetteMismatchError,
+      'No cassette entry matches GET inventory.php?which=3\n' +
+        'Closest entries:\n' +
+        '  GET inventory.php?which=1 (test #1)\n' +
+        '  GET inventory.php?which=2 (test #2)\n' +
+        '  * main.php (test #0)'
+    );
+  });
+
+  it('should require a URL', () => {
+    const {visitUrl} = createRuntime({cassettes: [CASSETTE]});
+    expect(() => visitUrl()).toThrowError(/requires a URL/);
+  });
+});
+
+describe('CassettePlayer', () => {
+  it('should reject invalid entries', () => {
+    const player = new CassettePlayer();
+    expect(() =>
+      player.insert({
+        name: 'bad',
+        entries: [{url: 'a.php', glob: 'a*', response: ''}],
+      })
+    ).toThrowError(
+      "Cassette entry #0 in bad must have exactly one of 'url', 'glob' and 'regex'"
+    );
+    expect(() =>
+      player.insert({entries: [{url: 'a.php'} as never]})
+    ).toThrowError("Cassette entry #0 must have a 'response'");
+  });
+
+  it('should only fail on unused entries of strict cassettes', () => {
+    const player = new CassettePlayer();
+    player.insert(CASSETTE);
+    expect(() => player.eject()).not.toThrow();
+
+    player.insert(CASSETTE, {strict: true});
+    player.play({url: 'main.php', method: 'GET', fields: {}});
+    expect(player.getUnusedEntries().length).toBe(5);
+    expect(() => player.eject()).toThrowError(
+      UnusedCassetteEntriesError,
+      /^5 cassette entries were never played:\n {2}GET inventory\.php\?which=1 \(test #1\)/
+    );
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * @file Tests for the character state and the my* functions.
+ */
+
+import {getBundledGameData} from '../../src/runtime/game-data';
+import {Class, Familiar, Stat} from '../../src/runtime/game-types';
+import {CharacterState} from '../../src/runtime/character';
+import {createRuntime} from '../../src/runtime/runtime';
+
+describe('CharacterState', () => {
+  const data = getBundledGameData();
+
+  it('should have sensible defaults', () => {
+    const character = new CharacterState(data);
+    expect(character.class).toBe('Seal Clubber');
+    expect(character.level).toBe(1);
+    expect(character.getBaseStat('Moxie')).toBe(4);
+    expect(character.getSubstats('Moxie')).toBe(16);
+    expect(character.hp).toBe(character.maxhp);
+    expect(character.path).toBe('None');
+    expect(character.familiar).toBe('none');
+  });
+
+  it('should derive the level from the primestat', () => {
+    const character = new CharacterState(data, {class: 'sauceror'});
+    expect(character.class).toBe('Sauceror');
+    character.update({baseStats: {Muscle: 200}});
+    expect(character.level).toBe(1);
+    character.update({baseStats: {Mysticality: 148}});
+    expect(character.level).toBe(13);
+    character.update({substats: {Mysticality: 147 ** 2 + 100}});
+    expect(character.getBaseStat('Mysticality')).toBe(147);
+    expect(character.level).toBe(12);
+  });
+
+  it('should set the primestat to the minimum for a level', () => {
+    const character = new CharacterState(data, {class: 'Disco Bandit'});
+    character.update({level: 13});
+    expect(character.getBaseStat('Moxie')).toBe(148);
+    expect(character.getBaseStat('Muscle')).toBe(4);
+
+    // Stats already in range for the level are kept
+    character.update({baseStats: {Moxie: 160}, level: 13});
+    expect(character.getBaseStat('Moxie')).toBe(160);
+  });
+
+  it('should derive buffed stats and maximum HP and MP', () => {
+    const character = new CharacterState(data, {
+      baseStats: {Muscle: 20, Mysticality: 10},
+      statBonuses: {Muscle: 10, Moxie: -100},
+    });
+    expect(character.getBuffedStat('Muscle')).toBe(30);
+    expect(character.getBuffedStat('Moxie')).toBe(1);
+    // Seal Clubbers get 50% more HP from Muscle
+    expect(character.maxhp).toBe(48);
+    expect(character.maxmp).toBe(10);
+
+    character.update({maxhp: 100});
+    expect(character.maxhp).toBe(100);
+    character.update({maxhp: null});
+    expect(character.maxhp).toBe(48);
+  });
+
+  it('should keep HP and MP within their maximums', () => {
+    const character = new CharacterState(data, {maxhp: 50, hp: 80, mp: -5});
+    expect(character.hp).toBe(50);
+    expect(character.mp).toBe(0);
+    character.update({maxhp: 100});
+    expect(character.hp).toBe(80);
+  });
+
+  it('should tick down effects when spending a turn', () => {
+    const character = new CharacterState(data, {
+      adventures: 5,
+      effects: {'ode to booze': 2, 'Beaten Up': 1},
+    });
+    expect(character.getEffectTurns('Ode to Booze')).toBe(2);
+    character.spendTurn();
+    expect(character.getEffects()).toEqual({'Ode to Booze': 1});
+    expect(character.adventures).toBe(4);
+    expect(character.turncount).toBe(1);
+  });
+
+  it('should reject unknown classes and familiars', () => {
+    expect(() => new CharacterState(data, {class: 'Plumber'})).toThrowError(
+      /Bad class value/
+    );
+    expect(() => new CharacterState(data, {familiar: 'dragon'})).toThrowError(
+      /Bad familiar value/
+    );
+  });
+});
+
+describe('my* functions', () => {
+  it('should read the character of the runtime', () => {
+    const runtime = createRuntime({
+      character: {
+        class: 'Pastamancer',
+        level: 5,
+        meat: 1000,
+        adventures: 40,
+        fullness: 3,
+        hardcore: true,
+        familiar: 'mosquito',
+      },
+      preferences: {user: 'Tester'},
+    });
+    expect(runtime.myName()).toBe('Tester');
+    expect(runtime.myId()).toBe('1');
+    expect(runtime.myClass()).toBe(Class.get('Pastamancer'));
+    expect(runtime.myPrimestat()).toBe(Stat.get('Mysticality'));
+    expect(runtime.myLevel()).toBe(5);
+    expect(runtime.myBasestat(Stat.get('Mysticality'))).toBe(20);
+    expect(runtime.myBasestat(Stat.get('SubMysticality'))).toBe(400);
+    expect(runtime.myBuffedstat(Stat.none)).toBe(0);
+    expect(runtime.myMeat()).toBe(1000);
+    expect(runtime.myAdventures()).toBe(40);
+    expect(runtime.myFullness()).toBe(3);
+    expect(runtime.fullnessLimit()).toBe(15);
+    expect(runtime.inHardcore()).toBe(true);
+    expect(runtime.myFamiliar()).toBe(Familiar.get('Mosquito'));
+  });
+
+  it('should reflect changes made during a test', () => {
+    const runtime = createRuntime();
+    expect(runtime.myMeat()).toBe(0);
+    runtime.state.character.meat = 500;
+    runtime.state.character.update({statBonuses: {Moxie: 5}});
+    expect(runtime.myMeat()).toBe(500);
+    expect(runtime.myBuffedstat(Stat.get('Moxie'))).toBe(9);
+  });
+});
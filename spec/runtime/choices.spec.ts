@@ -0,0 +1,221 @@
+/**
+ * @file Tests for choice adventures and the choice functions.
+ */
+
+import type {Choice} from '../../src/runtime/choices';
+import {Item, Location} from '../../src/runtime/game-types';
+import {createRuntime} from '../../src/runtime/runtime';
+
+const forest = Location.get('The Spooky Forest');
+
+const RECORDED_PAGE =
+  '<html><body><b>Arboreal Respite</b>' +
+  '<form method="post" action="choice.php">' +
+  '<input type="hidden" name="pwd" value="abc123">' +
+  '<input type="hidden" name="whichchoice" value="502">' +
+  '<input type="hidden" name="option" value="1">' +
+  '<input class="button" type="submit" value="Follow the old road">' +
+  '</form>' +
+  '<form method="post" action="choice.php">' +
+  '<input type="hidden" name="pwd" value="abc123">' +
+  '<input type="hidden" name="whichchoice" value="502">' +
+  '<input type="hidden" name="option" value="2">' +
+  '<input class="button" type="submit" value="Explore the stream">' +
+  '</form>' +
+  '<a href="main.php">Back to the Main Map</a>' +
+  '</body></html>';
+
+const tooth: Choice = {
+  id: 503,
+  name: 'The Road Less Traveled',
+  options: {
+    1: {text: 'Dig for a tooth', drops: {'seal tooth': 1}},
+    2: {text: 'Look for meat', meat: 30},
+  },
+};
+
+const respite: Choice = {
+  id: 502,
+  name: 'Arboreal Respite',
+  html: RECORDED_PAGE,
+  options: {
+    1: {choice: tooth},
+    2: {fight: {monster: 'spooky vampire', drops: {'seal tooth': 1}}},
+    // Not on the recorded page, so not available
+    3: {meat: 1000},
+  },
+};
+
+function createAdventurer() {
+  return createRuntime({character: {adventures: 10, maxhp: 50}});
+}
+
+describe('CombatState', () => {
+  it('should reject unknown monsters and items in choices', () => {
+    const {combat} = createRuntime().state;
+    expect(() =>
+      combat.queue(forest, {
+        choice: {id: 1, options: {1: {fight: {monster: 'dragon'}}}},
+      })
+    ).toThrowError(/Bad monster value/);
+    expect(() =>
+      combat.queue(forest, {
+        choice: {
+          id: 1,
+          options: {1: {choice: {id: 2, options: {1: {drops: {foo: 1}}}}}},
+        },
+      })
+    ).toThrowError(/Bad item value/);
+  });
+});
+
+describe('Choice functions', () => {
+  it('should extract options from a recorded page', () => {
+    const runtime = createAdventurer();
+    runtime.state.combat.queue(forest, {choice: respite});
+
+    expect(runtime.handlingChoice()).toBe(false);
+    expect(runtime.availableChoiceOptions()).toEqual({});
+    expect(runtime.adv1(forest, -1, '')).toBe(false);
+    expect(runtime.handlingChoice()).toBe(true);
+    expect(runtime.lastChoice()).toBe(502);
+    expect(runtime.availableChoiceOptions()).toEqual({
+      1: 'Follow the old road',
+      2: 'Explore the stream',
+    });
+    expect(runtime.visitUrl('choice.php')).toBe(RECORDED_PAGE);
+  });
+
+  it('should render options of structured choices', () => {
+    const runtime = createAdventurer();
+    runtime.state.combat.queue(forest, {choice: tooth});
+    runtime.adv1(forest, -1, '');
+
+    expect(runtime.availableChoiceOptions(true)).toEqual({
+      1: 'Dig for a tooth',
+      2: 'Look for meat',
+    });
+    expect(
+      runtime.xpath(runtime.visitUrl('choice.php'), '//b/text()')
+    ).toEqual(['The Road Less Traveled']);
+  });
+
+  it('should route options to follow-up choices and rewards', () => {
+    const runtime = createAdventurer();
+    runtime.state.combat.queue(forest, {choice: respite});
+    runtime.adv1(forest, -1, '');
+
+    runtime.runChoice(1);
+    expect(runtime.lastChoice()).toBe(503);
+    expect(runtime.lastDecision()).toBe(1);
+    expect(runtime.handlingChoice()).toBe(true);
+    expect(runtime.myTurncount()).toBe(0);
+
+    const page = runtime.visitUrl('choice.php?whichchoice=503&option=2');
+    expect(page).toContain('You gain 30 Meat.');
+    expect(runtime.lastDecision()).toBe(2);
+    expect(runtime.handlingChoice()).toBe(false);
+    expect(runtime.myMeat()).toBe(30);
+    expect(runtime.myTurncount()).toBe(1);
+    expect(runtime.getProperty('lastEncounter')).toBe('The Road Less Traveled');
+    expect(runtime.state.choices.decisions).toEqual([
+      {choice: 502, option: 1},
+      {choice: 503, option: 2},
+    ]);
+  });
+
+  it('should route options to fights', () => {
+    const runtime = createAdventurer();
+    runtime.state.combat.queue(forest, {choice: respite});
+    runtime.adv1(forest, -1, '');
+
+    runtime.runChoice(2);
+    expect(runtime.handlingChoice()).toBe(false);
+    expect(runtime.state.combat.fight).not.toBeNull();
+    expect(runtime.runCombat()).toContain('<!--WINWINWIN-->');
+    expect(runtime.itemAmount(Item.get('seal tooth'))).toBe(1);
+    expect(runtime.myTurncount()).toBe(1);
+  });
+
+  it('should abort on unavailable options', () => {
+    const runtime = createAdventurer();
+    expect(() => runtime.runChoice(1)).toThrowError(
+      "You're not in a choice adventure."
+    );
+
+    runtime.state.combat.queue(forest, {choice: respite});
+    runtime.adv1(forest, -1, '');
+    expect(() => runtime.runChoice(3)).toThrowError(
+      'Choice 502 has no option 3.'
+    );
+    expect(() => runtime.runChoice(-1)).toThrowError(
+      'No setting for choice adventure 502.'
+    );
+    expect(runtime.handlingChoice()).toBe(true);
+  });
+
+  it('should honor choiceAdventure preferences', () => {
+    const runtime = createAdventurer();
+    runtime.setProperty('choiceAdventure502', '1');
+    runtime.setProperty('choiceAdventure503', '1');
+    runtime.state.combat.queue(forest, {choice: respite});
+
+    expect(runtime.adv1(forest, -1, '')).toBe(true);
+    expect(runtime.handlingChoice()).toBe(false);
+    expect(runtime.itemAmount(Item.get('seal tooth'))).toBe(1);
+    expect(runtime.lastChoice()).toBe(503);
+    expect(runtime.lastDecision()).toBe(1);
+    expect(runtime.myAdventures()).toBe(9);
+  });
+
+  it('should use choiceAdventure preferences in runChoice(-1)', () => {
+    const runtime = createAdventurer();
+    runtime.state.combat.queue(forest, {choice: tooth});
+    runtime.adv1(forest, -1, '');
+
+    runtime.setProperty('choiceAdventure503', '2');
+    runtime.runChoice(-1);
+    expect(runtime.myMeat()).toBe(30);
+  });
+
+  it('should show choices that follow fights', () => {
+    const runtime = createAdventurer();
+    runtime.state.combat.queue(forest, {
+      monster: 'spooky vampire',
+      choice: tooth,
+    });
+
+    runtime.visitUrl(`adventure.php?snarfblat=${forest.id}`);
+    runtime.visitUrl('fight.php?action=attack');
+    expect(runtime.choiceFollowsFight()).toBe(true);
+    expect(runtime.handlingChoice()).toBe(false);
+    expect(runtime.lastChoice()).toBe(0);
+
+    runtime.visitUrl('choice.php');
+    expect(runtime.choiceFollowsFight()).toBe(false);
+    expect(runtime.handlingChoice()).toBe(true);
+    expect(runtime.lastChoice()).toBe(503);
+
+    // The fight took the turn, so the choice is free
+    runtime.runChoice(2);
+    expect(runtime.myTurncount()).toBe(1);
+    expect(runtime.myMeat()).toBe(30);
+  });
+
+  it('should leave choices without preferences pending', () => {
+    const runtime = createAdventurer();
+    runtime.state.combat.queue(
+      forest,
+      {monster: 'spooky vampire', choice: tooth},
+      {monster: 'spooky vampire'}
+    );
+
+    expect(runtime.adv1(forest, -1, '')).toBe(false);
+    expect(runtime.handlingChoice()).toBe(true);
+    expect(runtime.adv1(forest, -1, '')).toBe(false);
+
+    runtime.runChoice(1);
+    expect(runtime.adv1(forest, -1, '')).toBe(true);
+    expect(runtime.myTurncount()).toBe(2);
+  });
+});
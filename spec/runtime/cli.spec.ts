@@ -0,0 +1,179 @@
+/**
+ * @file Tests for the gCLI command registry and `cliExecute()`.
+ */
+
+import {
+  CliInvocation,
+  splitCommandLine,
+  UnknownCliCommandError,
+} from '../../src/runtime/cli';
+import {Effect} from '../../src/runtime/game-types';
+import {KoLmafiaAbortError} from '../../src/runtime/output';
+import {createRuntime} from '../../src/runtime/runtime';
+
+describe('splitCommandLine()', () => {
+  it('should split commands at semicolons', () => {
+    expect(
+      splitCommandLine(' familiar  Mosquito; ; outfit birthday suit;')
+    ).toEqual(['familiar  Mosquito', 'outfit birthday suit']);
+  });
+});
+
+describe('cliExecute()', () => {
+  it('should send commands to handlers', () => {
+    const calls: CliInvocation[] = [];
+    const runtime = createRuntime({
+      cli: {handlers: {familiar: invocation => void calls.push(invocation)}},
+    });
+
+    expect(runtime.cliExecute('FAMILIAR  Leprechaun ; Familiarq none')).toBe(
+      true
+    );
+    expect(calls).toEqual([
+      {command: 'familiar', parameters: 'Leprechaun', quiet: false},
+      {command: 'familiar', parameters: 'none', quiet: true},
+    ]);
+  });
+
+  it('should prefer handlers whose names end with q', () => {
+    const runtime = createRuntime({
+      cli: {handlers: {acq: () => true, ac: () => false}},
+    });
+    expect(runtime.cliExecute('acq 1 spices')).toBe(true);
+  });
+
+  it('should stop at the first failing command', () => {
+    const runtime = createRuntime({cli: {handlers: {fail: () => false}}});
+    expect(runtime.cliExecute('fail; set foo=bar')).toBe(false);
+    expect(runtime.getProperty('foo')).toBe('');
+    expect(runtime.state.cli.history.map(e => e.success)).toEqual([false]);
+  });
+
+  it('should record unknown commands and return false', () => {
+    const runtime = createRuntime();
+    expect(runtime.cliExecute('summon 2')).toBe(false);
+    expect(runtime.state.cli.history).toEqual([
+      {
+        command: 'summon',
+        parameters: '2',
+        quiet: false,
+        handled: false,
+        success: false,
+      },
+    ]);
+  });
+
+  it('should throw for unknown commands in strict mode', () => {
+    const runtime = createRuntime({cli: {strict: true}});
+    expect(() => runtime.cliExecute('echo hi; summon 2')).toThrowError(
+      UnknownCliCommandError,
+      "Unknown gCLI command 'summon' in: summon 2"
+    );
+    expect(runtime.state.output.getCliText()).toBe('hi');
+  });
+
+  it('should allow handlers to be replaced and removed', () => {
+    const runtime = createRuntime();
+    runtime.state.cli.register(['echo', 'print'], () => false);
+    expect(runtime.cliExecute('echo hi')).toBe(false);
+    runtime.state.cli.unregister('ECHO');
+    expect(runtime.state.cli.has('echo')).toBe(false);
+    expect(runtime.cliExecute('echo hi')).toBe(false);
+  });
+});
+
+describe('default gCLI commands', () => {
+  it('should set and get preferences', () => {
+    const runtime = createRuntime();
+    expect(runtime.cliExecute('set valueOfAdventure = 6000')).toBe(true);
+    expect(
+      runtime.cliExecute('setq choiceAdventure1=2; get choiceAdventure1')
+    ).toBe(true);
+    expect(runtime.getProperty('valueOfAdventure')).toBe('6000');
+    expect(runtime.state.output.getCliText()).toBe(
+      'valueOfAdventure => 6000\n2'
+    );
+    expect(runtime.cliExecute('set valueOfAdventure')).toBe(false);
+  });
+
+  it('should echo and abort', () => {
+    const runtime = createRuntime();
+    expect(runtime.cliExecute('echo <b>hi</b>')).toBe(true);
+    expect(() => runtime.cliExecute('abort Stopped')).toThrowError(
+      KoLmafiaAbortError,
+      'Stopped'
+    );
+    expect(runtime.state.output.getCliText()).toBe('<b>hi</b>\nStopped');
+  });
+
+  it('should acquire items and cast skills', () => {
+    const runtime = createRuntime({
+      character: {meat: 100, maxmp: 50, mp: 30},
+      inventory: {npcPrices: {spices: 30}},
+    });
+    expect(runtime.cliExecute('acquire 2 spices')).toBe(true);
+    expect(runtime.state.inventory.getAmount('inventory', 'spices')).toBe(2);
+    expect(runtime.myMeat()).toBe(40);
+    expect(runtime.cliExecute('acquire spices; acquire 4 spices')).toBe(false);
+
+    expect(runtime.cliExecute('cast 2 Leash of Linguini')).toBe(true);
+    expect(runtime.myMp()).toBe(6);
+    expect(runtime.cliExecute('cast Leash of Linguini')).toBe(false);
+    expect(runtime.cliExecute('cast Unknown Skill')).toBe(false);
+    expect(runtime.state.output.getCliText()).toBe(
+      '[Unknown Skill] has no matches.'
+    );
+  });
+
+  it('should wear outfits and change familiars', () => {
+    const runtime = createRuntime({
+      inventory: {
+        items: {'helmet turtle': 1, 'seal-clubbing club': 1},
+        equipment: {hat: 'ravioli hat'},
+        outfits: {
+          Clubbing: {hat: 'helmet turtle', weapon: 'seal-clubbing club'},
+          Missing: {hat: 'ravioli hat', weapon: 'spices'},
+        },
+      },
+    });
+    const {inventory} = runtime.state;
+    expect(runtime.cliExecute('outfit clubbing')).toBe(true);
+    expect(inventory.getEquipped('hat').name).toBe('helmet turtle');
+    expect(inventory.getEquipped('weapon').name).toBe('seal-clubbing club');
+    expect(inventory.getItems('inventory')).toEqual({'ravioli hat': 1});
+    expect(runtime.cliExecute('outfit missing')).toBe(false);
+    expect(inventory.getEquipped('hat').name).toBe('helmet turtle');
+    expect(runtime.cliExecute('outfit unknown')).toBe(false);
+
+    expect(runtime.cliExecute('familiar Leprechaun')).toBe(true);
+    expect(runtime.myFamiliar().name).toBe('Leprechaun');
+    expect(runtime.cliExecute('familiar none')).toBe(true);
+    expect(runtime.myFamiliar().name).toBe('none');
+  });
+
+  it('should execute the current mood', () => {
+    const runtime = createRuntime({
+      character: {maxmp: 50, mp: 30, effects: {'Ode to Booze': 5}},
+      cli: {
+        moods: {
+          default: {
+            'Leash of Linguini': 'cast 1 Leash of Linguini',
+            'Ode to Booze': 'cast 1 The Ode to Booze',
+          },
+          empty: {},
+        },
+      },
+    });
+    expect(runtime.cliExecute('mood execute')).toBe(true);
+    expect(runtime.myMp()).toBe(18);
+    expect(runtime.haveEffect(Effect.get('Leash of Linguini'))).toBe(10);
+
+    // The effects are active now, so nothing is cast again
+    expect(runtime.cliExecute('mood execute')).toBe(true);
+    expect(runtime.myMp()).toBe(18);
+
+    expect(runtime.cliExecute('mood Empty; mood execute')).toBe(true);
+    expect(runtime.getProperty('currentMood')).toBe('Empty');
+    expect(runtime.cliExecute('mood unknown; mood execute')).toBe(false);
+  });
+});
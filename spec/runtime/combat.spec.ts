@@ -0,0 +1,243 @@
+/**
+ * @file Tests for scripted encounters and the adventuring functions.
+ */
+
+import {CassetteMismatchError} from '../../src/runtime/cassettes';
+import {UnscriptedEncounterError} from '../../src/runtime/combat';
+import {
+  Effect,
+  Item,
+  Location,
+  Monster,
+  Skill,
+} from '../../src/runtime/game-types';
+import {createRuntime} from '../../src/runtime/runtime';
+
+const forest = Location.get('The Spooky Forest');
+const alley = Location.get('The Sleazy Back Alley');
+const vampire = {
+  monster: 'spooky vampire',
+  hits: 2,
+  damage: 5,
+  drops: {'seal tooth': 1},
+  meat: 15,
+};
+
+function createAdventurer() {
+  return createRuntime({
+    character: {
+      adventures: 10,
+      maxhp: 50,
+      maxmp: 30,
+      mp: 20,
+      effects: {'Ghostly Shell': 2},
+    },
+  });
+}
+
+describe('CombatState', () => {
+  it('should queue encounters by location', () => {
+    const runtime = createRuntime({encounters: {'spooky forest': [vampire]}});
+    const {combat} = runtime.state;
+    expect(combat.getQueued(forest)).toEqual([vampire]);
+    expect(combat.take('The Spooky Forest')).toBe(vampire);
+    expect(() => combat.take(forest)).toThrowError(
+      UnscriptedEncounterError,
+      'No encounter is queued for The Spooky Forest'
+    );
+  });
+
+  it('should reject unknown monsters and items', () => {
+    const {combat} = createRuntime().state;
+    expect(() => combat.queue(forest, {monster: 'dragon'})).toThrowError(
+      /Bad monster value/
+    );
+    expect(() => combat.queue(forest, {drops: {foo: 1}})).toThrowError(
+      /Bad item value/
+    );
+  });
+});
+
+describe('adv1()', () => {
+  it('should fight the next monster and apply its drops and meat', () => {
+    const runtime = createAdventurer();
+    runtime.state.combat.queue(forest, vampire);
+
+    expect(runtime.adv1(forest, -1, '')).toBe(true);
+    expect(runtime.lastMonster()).toBe(Monster.get('spooky vampire'));
+    expect(runtime.myLocation()).toBe(forest);
+    expect(runtime.itemAmount(Item.get('seal tooth'))).toBe(1);
+    expect(runtime.myMeat()).toBe(15);
+    expect(runtime.myHp()).toBe(45);
+    expect(runtime.myAdventures()).toBe(9);
+    expect(runtime.myTurncount()).toBe(1);
+    expect(runtime.getProperty('lastEncounter')).toBe('spooky vampire');
+    expect(runtime.state.combat.history).toEqual([
+      {
+        location: 'The Spooky Forest',
+        encounter: 'spooky vampire',
+        monster: 'spooky vampire',
+        result: 'win',
+        rounds: 2,
+      },
+    ]);
+  });
+
+  it('should tick effects, except in free encounters', () => {
+    const runtime = createAdventurer();
+    runtime.state.combat.queue(
+      forest,
+      {monster: 'fluffy bunny', free: true},
+      {name: 'Arboreal Respite'},
+      {name: 'Arboreal Respite', drops: {spices: 2}}
+    );
+    const shell = runtime.state.character;
+
+    expect(runtime.adv1(forest)).toBe(true);
+    expect(shell.getEffectTurns('Ghostly Shell')).toBe(2);
+    expect(runtime.myAdventures()).toBe(10);
+
+    expect(runtime.adv1(forest)).toBe(true);
+    expect(runtime.adv1(forest)).toBe(true);
+    expect(shell.getEffects()).toEqual({});
+    expect(runtime.itemAmount(Item.get('spices'))).toBe(2);
+    expect(runtime.myAdventures()).toBe(8);
+  });
+
+  it('should lose when HP runs out', () => {
+    const runtime = createAdventurer();
+    runtime.state.character.update({hp: 8});
+    runtime.state.combat.queue(forest, {...vampire, hits: 3}, vampire);
+
+    expect(runtime.adv1(forest)).toBe(false);
+    expect(runtime.myHp()).toBe(0);
+    expect(runtime.haveEffect(Effect.get('Beaten Up'))).toBe(3);
+    expect(runtime.itemAmount(Item.get('seal tooth'))).toBe(0);
+    expect(runtime.state.combat.history[0].result).toBe('lose');
+
+    // Without HP, the character cannot adventure
+    expect(runtime.adv1(forest)).toBe(false);
+    expect(runtime.state.combat.getQueued(forest).length).toBe(1);
+  });
+
+  it('should not adventure without adventures or when overdrunk', () => {
+    const runtime = createRuntime({
+      character: {adventures: 0},
+      encounters: {'The Spooky Forest': [vampire]},
+    });
+    expect(runtime.adv1(forest)).toBe(false);
+    runtime.state.character.update({adventures: 1, inebriety: 15});
+    expect(runtime.adv1(forest)).toBe(false);
+  });
+
+  it('should throw without a queued encounter', () => {
+    expect(() => createAdventurer().adv1(alley)).toThrowError(
+      UnscriptedEncounterError
+    );
+  });
+});
+
+describe('adventure()', () => {
+  it('should spend the given number of turns', () => {
+    const runtime = createAdventurer();
+    runtime.state.combat.queue(
+      alley,
+      {monster: 'drunken half-orc hobo'},
+      {monster: 'fluffy bunny', free: true},
+      {name: 'Please, Hammer'}
+    );
+    expect(runtime.adventure(2, alley)).toBe(true);
+    expect(runtime.myTurncount()).toBe(2);
+    expect(runtime.state.combat.history.length).toBe(3);
+  });
+
+  it('should stop after a lost fight', () => {
+    const runtime = createAdventurer();
+    runtime.state.character.update({hp: 1});
+    runtime.state.combat.queue(alley, vampire, vampire);
+    expect(runtime.adventure(alley, 2)).toBe(false);
+    expect(runtime.myTurncount()).toBe(1);
+  });
+
+  it('should stop when no encounter is left', () => {
+    const runtime = createAdventurer();
+    runtime.state.combat.queue(
+      alley,
+      {monster: 'fluffy bunny', free: true},
+      {monster: 'fluffy bunny', free: true}
+    );
+    expect(runtime.adventure(alley, 3)).toBe(true);
+    expect(runtime.myTurncount()).toBe(0);
+    expect(runtime.state.combat.history.length).toBe(2);
+    expect(() => runtime.adventure(alley, 1)).toThrowError(
+      UnscriptedEncounterError
+    );
+  });
+});
+
+describe('manual combat', () => {
+  it('should fight with visitUrl(), useSkill() and runCombat()', () => {
+    const runtime = createAdventurer();
+    runtime.state.combat.queue(forest, {...vampire, hits: 3});
+
+    const page = runtime.visitUrl('adventure.php?snarfblat=15');
+    expect(page).toContain("You're fighting spooky vampire.");
+    expect(runtime.state.combat.fight).not.toBeNull();
+
+    expect(runtime.useSkill(Skill.get('Thrust-Smack'))).toContain(
+      'You use Thrust-Smack.'
+    );
+    expect(runtime.myMp()).toBe(17);
+    expect(runtime.visitUrl('fight.php?action=attack')).toContain(
+      'You attack.'
+    );
+    expect(runtime.state.combat.fight!.round).toBe(2);
+
+    const result = runtime.runCombat();
+    expect(result).toContain('<!--WINWINWIN-->');
+    expect(result).toContain('You acquire an item: seal tooth (1)');
+    expect(runtime.state.combat.history[0].rounds).toBe(3);
+  });
+
+  it('should not show the last fight once it is over', () => {
+    const runtime = createAdventurer();
+    runtime.state.combat.queue(forest, vampire);
+    runtime.adv1(forest, -1, '');
+    runtime.state.cassettes.insert({
+      entries: [{url: 'fight.php', response: 'recorded'}],
+    });
+    expect(runtime.visitUrl('fight.php')).toBe('recorded');
+    runtime.state.cassettes.eject();
+    expect(() => runtime.visitUrl('fight.php')).toThrowError(
+      CassetteMismatchError
+    );
+  });
+
+  it('should use skills by id with visitUrl()', () => {
+    const runtime = createAdventurer();
+    runtime.state.combat.queue(forest, vampire);
+    runtime.visitUrl('adventure.php?snarfblat=15');
+    runtime.visitUrl('fight.php?action=skill&whichskill=1003');
+    expect(runtime.myMp()).toBe(17);
+    expect(runtime.state.combat.fight!.hitsLeft).toBe(1);
+  });
+
+  it('should leave other URLs to cassettes', () => {
+    const runtime = createAdventurer();
+    runtime.state.cassettes.insert({
+      entries: [{url: 'adventure.php?snarfblat=15', response: 'recorded'}],
+    });
+    expect(runtime.visitUrl('adventure.php?snarfblat=15')).toBe('recorded');
+  });
+});
+
+describe('useSkill()', () => {
+  it('should cast skills outside of combat', () => {
+    const runtime = createAdventurer();
+    expect(runtime.useSkill(2, Skill.get('Ghostly Shell'))).toBe(true);
+    expect(runtime.myMp()).toBe(8);
+    expect(runtime.haveEffect(Effect.get('Ghostly Shell'))).toBe(22);
+    expect(runtime.useSkill(Skill.get('Ghostly Shell'), 2)).toBe(false);
+    expect(runtime.useSkill(Skill.get('Thrust-Smack'), 1)).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * @file Tests for the virtual file system and the file functions.
+ */
+
+import {
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmdirSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+
+import type {MapFileObject} from '../../src/lib/map-file';
+import {VirtualFileSystem} from '../../src/runtime/files';
+import {createRuntime} from '../../src/runtime/runtime';
+
+/** Removes a directory and its contents. */
+function removeDirectory(directory: string): void {
+  for (const name of readdirSync(directory)) {
+    const path = join(directory, name);
+    if (statSync(path).isDirectory()) removeDirectory(path);
+    else unlinkSync(path);
+  }
+  rmdirSync(directory);
+}
+
+describe('VirtualFileSystem', () => {
+  it('should search scripts/, relay/ and data/ in order', () => {
+    const files = new VirtualFileSystem({
+      files: {
+        'data/both.txt': 'data',
+        'scripts/both.txt': 'scripts',
+        'relay/relay.txt': 'relay',
+      },
+    });
+    expect(files.resolve('both.txt')).toBe('scripts/both.txt');
+    expect(files.resolve('relay.txt')).toBe('relay/relay.txt');
+    expect(files.resolve('new.txt')).toBe('data/new.txt');
+  });
+
+  it('should normalize file names', () => {
+    const files = new VirtualFileSystem();
+    expect(files.resolve('sub\\dir/./x.txt')).toBe('data/sub/dir/x.txt');
+    expect(files.resolve('sub/../x.txt')).toBe('data/x.txt');
+  });
+
+  it('should reject file names outside the KoLmafia directories', () => {
+    const files = new VirtualFileSystem();
+    expect(files.resolve('../x.txt')).toBeNull();
+    expect(files.resolve('/etc/passwd')).toBeNull();
+    expect(files.resolve('C:\\x.txt')).toBeNull();
+    expect(() => files.seed('../x.txt', '')).toThrowError(/Invalid file path/);
+  });
+
+  describe('in passthrough mode', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'kolmafia-stubs-'));
+    });
+    afterEach(() => removeDirectory(directory));
+
+    it('should read and write files on disk', () => {
+      writeFileSync(join(directory, 'x.txt'), 'unused');
+      const runtime = createRuntime({files: {passthrough: directory}});
+      runtime.state.files.seed('scripts/disk.txt', 'memory');
+      expect(runtime.fileToBuffer('disk.txt')).toBe('memory');
+
+      expect(runtime.bufferToFile('saved', 'sub/out.txt')).toBeTrue();
+      expect(readFileSync(join(directory, 'data/sub/out.txt'), 'utf8')).toBe(
+        'saved'
+      );
+
+      const other = createRuntime({files: {passthrough: directory}});
+      expect(other.fileToBuffer('sub/out.txt')).toBe('saved');
+    });
+  });
+});
+
+describe('fileToBuffer() and bufferToFile()', () => {
+  it('should write to data/ and read the file back', () => {
+    const runtime = createRuntime();
+    expect(runtime.fileToBuffer('state.txt')).toBe('');
+    expect(runtime.bufferToFile('hello', 'state.txt')).toBeTrue();
+    expect(runtime.fileToBuffer('state.txt')).toBe('hello');
+    expect(runtime.state.files.writes).toEqual([
+      {path: 'data/state.txt', contents: 'hello'},
+    ]);
+  });
+
+  it('should fail for file names outside the KoLmafia directories', () => {
+    const runtime = createRuntime();
+    expect(runtime.bufferToFile('x', '../x.txt')).toBeFalse();
+    expect(runtime.fileToBuffer('../x.txt')).toBe('');
+    expect(runtime.state.files.writes).toEqual([]);
+  });
+
+  it('should not share files between runtimes', () => {
+    const runtime = createRuntime();
+    runtime.bufferToFile('hello', 'state.txt');
+    expect(createRuntime().fileToBuffer('state.txt')).toBe('');
+  });
+});
+
+describe('fileToArray()', () => {
+  it('should number lines starting from 1', () => {
+    const runtime = createRuntime({
+      files: {files: {'data/lines.txt': 'one\r\ntwo\n\nfour\n'}},
+    });
+    expect(runtime.fileToArray('lines.txt')).toEqual({
+      1: 'one',
+      2: 'two',
+      3: '',
+      4: 'four',
+    });
+    expect(runtime.fileToArray('missing.txt')).toEqual({});
+  });
+});
+
+describe('fileToMap() and mapToFile()', () => {
+  it('should round-trip a map', () => {
+    const runtime = createRuntime();
+    expect(
+      runtime.mapToFile({kills: {'Knob Goblin': '3', skeleton: '1'}}, 'k.txt')
+    ).toBeTrue();
+    expect(runtime.fileToBuffer('k.txt')).toBe(
+      'kills\tKnob Goblin\t3\nkills\tskeleton\t1\n'
+    );
+
+    const map = {};
+    expect(runtime.fileToMap('k.txt', map)).toBeTrue();
+    expect(map).toEqual({kills: {'Knob Goblin': '3', skeleton: '1'}});
+  });
+
+  it('should round-trip compact records into a map of records', () => {
+    const runtime = createRuntime();
+    runtime.mapToFile({a: [1, 2], b: [3, 4]}, 'records.txt');
+    expect(runtime.fileToBuffer('records.txt')).toBe('a\t1\t2\nb\t3\t4\n');
+
+    const map: MapFileObject = {a: []};
+    expect(runtime.fileToMap('records.txt', map)).toBeTrue();
+    expect(map).toEqual({a: ['1', '2'], b: ['3', '4']});
+  });
+
+  it('should return false for missing files', () => {
+    const map = {};
+    expect(createRuntime().fileToMap('missing.txt', map)).toBeFalse();
+    expect(map).toEqual({});
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * @file Tests for loading game data.
+ */
+
+import {getBundledGameData, loadGameData} from '../../src/runtime/game-data';
+
+describe('getBundledGameData()', () => {
+  it('should parse the bundled data files', () => {
+    const data = getBundledGameData();
+    expect(data.items.byName.get('spices')).toEqual(
+      jasmine.objectContaining({
+        id: 8,
+        uses: ['none', 'paste'],
+        access: ['t', 'd'],
+        autosell: 10,
+        plural: 'spices',
+      })
+    );
+    expect(
+      data.items.byName.get('distilled fortified wine')!.inebriety
+    ).toEqual(
+      jasmine.objectContaining({size: 1, adventures: '2-3', quality: 'crappy'})
+    );
+    expect(data.locations.byId.get(113)).toEqual(
+      jasmine.objectContaining({
+        name: 'The Haunted Pantry',
+        zone: 'Manor0',
+        difficultyLevel: 'low',
+        environment: 'indoor',
+      })
+    );
+    expect(data.monsters.byName.get('drunken half-orc hobo')!.drops).toEqual([
+      {item: 'distilled fortified wine', rate: 20, type: ''},
+      {item: 'spices', rate: 10, type: 'n'},
+    ]);
+  });
+});
+
+describe('loadGameData()', () => {
+  it('should load individual files and fall back to bundled data', () => {
+    const data = loadGameData({
+      files: {'items.txt': 'spec/runtime/fixtures/items.txt'},
+    });
+    expect(data.items.records.map(record => record.name)).toEqual([
+      'spices',
+      'test widget',
+    ]);
+    expect(data.effects.byName.has('beaten up')).toBe(true);
+  });
+
+  it('should load files from a directory', () => {
+    const data = loadGameData({directory: 'spec/runtime/fixtures'});
+    expect(data.items.byId.has(9001)).toBe(true);
+    expect(data.skills.byId.has(6014)).toBe(true);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * @file Tests for the enumerated types.
+ */
+
+import {
+  resetDefaultRuntime,
+  setDefaultRuntime,
+} from '../../src/runtime/default-runtime';
+import {loadGameData} from '../../src/runtime/game-data';
+import {
+  Class,
+  Effect,
+  Familiar,
+  getEntity,
+  Item,
+  Location,
+  Monster,
+  Skill,
+  Slot,
+  Stat,
+} from '../../src/runtime/game-types';
+import {createRuntime} from '../../src/runtime/runtime';
+
+describe('Item', () => {
+  afterEach(() => resetDefaultRuntime());
+
+  it('should return canonical instances', () => {
+    expect(Item.get('spices')).toBe(Item.get(8));
+    expect(Item.get('SPICES')).toBe(Item.get('8'));
+    expect(Item.get('[8]spices')).toBe(Item.get('spices'));
+    expect(Item.get(['spices', 1])).toEqual([
+      Item.get('spices'),
+      Item.get('seal-clubbing club'),
+    ]);
+  });
+
+  it('should share instances between runtimes with the same data', () => {
+    const spices = Item.get('spices');
+    setDefaultRuntime(createRuntime());
+    expect(Item.get('spices')).toBe(spices);
+  });
+
+  it('should match unique parts of names', () => {
+    expect(Item.get('fortified')).toBe(Item.get('distilled fortified wine'));
+    expect(() => Item.get('clover')).toThrowError(
+      "Multiple item values match 'clover': ten-leaf clover, disassembled clover"
+    );
+    expect(() => Item.get('no such item')).toThrowError(
+      'Bad item value: no such item'
+    );
+    expect(() => Item.get(12345)).toThrowError('Bad item value: 12345');
+  });
+
+  it('should have none values', () => {
+    expect(Item.none).toBe(Item.get('none'));
+    expect(Item.none.id).toBe(-1);
+    expect(`${Item.none}`).toBe('none');
+  });
+
+  it('should convert to names', () => {
+    expect(String(Item.get(1))).toBe('seal-clubbing club');
+    expect(`${Item.get('spices')}`).toBe('spices');
+  });
+
+  it('should have properties from the data files', () => {
+    const wine = Item.get('distilled fortified wine');
+    expect(wine.inebriety).toBe(1);
+    expect(wine.fullness).toBe(0);
+    expect(wine.adventures).toBe('2-3');
+    expect(wine.tradeable).toBe(true);
+    expect(wine.plural).toBe('bottles of distilled fortified wine');
+
+    const talisman = Item.get("Talisman o' Namsilat");
+    expect(talisman.quest).toBe(true);
+    expect(talisman.tradeable).toBe(false);
+    expect(Item.get('seal tooth').combatReusable).toBe(true);
+    expect(Item.get('meat paste').plural).toBe('meat pastes');
+  });
+
+  it('should list all items in order of id', () => {
+    const ids = Item.all().map(item => item.id);
+    expect(ids).toEqual([...ids].sort((a, b) => a - b));
+    expect(ids).not.toContain(-1);
+  });
+
+  it('should use the game data of the default runtime', () => {
+    setDefaultRuntime(
+      createRuntime({
+        gameData: loadGameData({
+          files: {'items.txt': 'spec/runtime/fixtures/items.txt'},
+        }),
+      })
+    );
+    expect(Item.get('test widget').gift).toBe(true);
+    expect(() => Item.get('seal tooth')).toThrowError(/Bad item value/);
+  });
+});
+
+describe('other enumerated types', () => {
+  it('should have properties from the data files', () => {
+    const ode = Effect.get('Ode to Booze');
+    expect(ode.song).toBe(true);
+    expect(ode.default).toBe('cast 1 The Ode to Booze');
+
+    const skill = Skill.get('The Ode to Booze');
+    expect(skill.id).toBe(6014);
+    expect(skill.song).toBe(true);
+    expect(skill.class).toBe(Class.get('Accordion Thief'));
+    expect(Skill.get('Powers of Observatiogn').passive).toBe(true);
+
+    const mosquito = Familiar.get('Mosquito');
+    expect(mosquito.hatchling).toBe(Item.get('mosquito larva'));
+    expect(mosquito.combat).toBe(true);
+
+    const pantry = Location.get(113);
+    expect(pantry.name).toBe('The Haunted Pantry');
+    expect(pantry.environment).toBe('indoor');
+
+    const bunny = Monster.get('fluffy bunny');
+    expect(bunny.baseHp).toBe(3);
+    expect(bunny.phylum).toBe('beast');
+
+    expect(Class.get(3).primestat).toBe('Mysticality');
+    expect(Slot.get('acc1').toString()).toBe('acc1');
+    expect(Slot.all().length).toBe(25);
+    expect(Stat.get('SubMoxie').id).toBe(5);
+    expect(Stat.all().length).toBe(6);
+  });
+
+  it('should have none values', () => {
+    expect(`${Effect.none}`).toBe('none');
+    expect(Skill.none).toBe(Skill.get('none'));
+    expect(Familiar.get('none')).toBe(Familiar.none);
+    expect(Location.none.id).toBe(-1);
+    expect(Monster.none.id).toBe(0);
+    expect(Class.none.primestat).toBe('none');
+    expect(Slot.none).toBe(Slot.get('none'));
+    expect(Stat.none).toBe(Stat.get(''));
+  });
+});
+
+describe('getEntity()', () => {
+  afterEach(() => resetDefaultRuntime());
+
+  it('should look up entities in the given game data', () => {
+    const data = loadGameData({
+      files: {'items.txt': 'spec/runtime/fixtures/items.txt'},
+    });
+    expect(() => Item.get('test widget')).toThrowError(/Bad item value/);
+    const widget = getEntity(Item, data, 'test widget');
+    expect(widget.id).toBe(9001);
+    expect(getEntity(Item, data, 9001)).toBe(widget);
+
+    setDefaultRuntime(createRuntime({gameData: data}));
+    expect(Item.get('test widget')).toBe(widget);
+  });
+
+  it('should be used instead of get() with runtimes other than the default', () => {
+    const runtime = createRuntime({
+      gameData: loadGameData({
+        files: {'items.txt': 'spec/runtime/fixtures/items.txt'},
+      }),
+      inventory: {items: {'test widget': 2}},
+    });
+    // Static lookups cannot know which runtime calls them
+    expect(() => Item.get('test widget')).toThrowError(/Bad item value/);
+    const widget = getEntity(Item, runtime.state.gameData, 'test widget');
+    expect(runtime.itemAmount(widget)).toBe(2);
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * @file Tests for the inventory model and the item functions.
+ */
+
+import {getBundledGameData} from '../../src/runtime/game-data';
+import {Item, Slot} from '../../src/runtime/game-types';
+import {InventoryState} from '../../src/runtime/inventory';
+import {createRuntime} from '../../src/runtime/runtime';
+
+const clover = Item.get('ten-leaf clover');
+const cookie = Item.get('fortune cookie');
+const wine = Item.get('distilled fortified wine');
+const stick = Item.get('coffee pixie stick');
+const helmet = Item.get('helmet turtle');
+const spices = Item.get('spices');
+
+describe('InventoryState', () => {
+  const data = getBundledGameData();
+
+  it('should count items by location', () => {
+    const inventory = new InventoryState(data, {
+      items: {spices: 2, 24: 1},
+      closet: {spices: 3},
+      equipment: {hat: 'helmet turtle'},
+    });
+    expect(inventory.getAmount('inventory', spices)).toBe(2);
+    expect(inventory.getAmount('closet', 'spices')).toBe(3);
+    expect(inventory.getItems('inventory')).toEqual({
+      spices: 2,
+      'ten-leaf clover': 1,
+    });
+    expect(inventory.getEquipped('hat')).toBe(helmet);
+    expect(inventory.getEquippedAmount(helmet)).toBe(1);
+  });
+
+  it('should not remove more items than there are', () => {
+    const inventory = new InventoryState(data, {items: {spices: 1}});
+    expect(() => inventory.add('inventory', 'spices', -2)).toThrowError(
+      /Not enough spices/
+    );
+    inventory.add('inventory', 'spices', -1);
+    expect(inventory.getItems('inventory')).toEqual({});
+  });
+
+  it('should reject unknown items', () => {
+    expect(() => new InventoryState(data, {items: {foo: 1}})).toThrowError(
+      /Bad item value/
+    );
+  });
+});
+
+describe('item amount functions', () => {
+  it('should count items in each location', () => {
+    const runtime = createRuntime({
+      inventory: {
+        items: {spices: 1},
+        closet: {spices: 2},
+        storage: {spices: 4},
+        display: {spices: 8},
+        equipment: {hat: 'helmet turtle'},
+      },
+    });
+    expect(runtime.itemAmount(spices)).toBe(1);
+    expect(runtime.closetAmount(spices)).toBe(2);
+    expect(runtime.storageAmount(spices)).toBe(4);
+    expect(runtime.displayAmount(spices)).toBe(8);
+    expect(runtime.availableAmount(spices)).toBe(7);
+    expect(runtime.availableAmount(helmet)).toBe(1);
+    expect(runtime.equippedAmount(helmet)).toBe(1);
+    expect(runtime.equippedItem(Slot.get('hat'))).toBe(helmet);
+    expect(runtime.equippedItem(Slot.get('pants'))).toBe(Item.none);
+  });
+
+  it('should exclude storage in ronin and the closet if disabled', () => {
+    const runtime = createRuntime({
+      inventory: {items: {spices: 1}, closet: {spices: 2}, storage: {8: 4}},
+      preferences: {properties: {autoSatisfyWithCloset: 'false'}},
+      character: {hardcore: true},
+    });
+    expect(runtime.canInteract()).toBe(false);
+    expect(runtime.availableAmount(spices)).toBe(1);
+  });
+});
+
+describe('putCloset() and takeCloset()', () => {
+  it('should move items in either argument order', () => {
+    const runtime = createRuntime({inventory: {items: {spices: 3}}});
+    expect(runtime.putCloset(2, spices)).toBe(true);
+    expect(runtime.putCloset(spices)).toBe(true);
+    expect(runtime.putCloset(spices, 1)).toBe(false);
+    expect(runtime.closetAmount(spices)).toBe(3);
+    expect(runtime.takeCloset(spices, 3)).toBe(true);
+    expect(runtime.itemAmount(spices)).toBe(3);
+  });
+
+  it('should move meat', () => {
+    const runtime = createRuntime({character: {meat: 100}});
+    expect(runtime.putCloset(60)).toBe(true);
+    expect(runtime.putCloset(60)).toBe(false);
+    expect(runtime.myMeat()).toBe(40);
+    expect(runtime.myClosetMeat()).toBe(60);
+    expect(runtime.takeCloset(10)).toBe(true);
+    expect(runtime.myMeat()).toBe(50);
+  });
+});
+
+describe('takeStorage()', () => {
+  it('should pull freely out of ronin', () => {
+    const runtime = createRuntime({inventory: {storage: {spices: 5}}});
+    expect(runtime.takeStorage(5, spices)).toBe(true);
+    expect(runtime.takeStorage(1, spices)).toBe(false);
+    expect(runtime.itemAmount(spices)).toBe(5);
+  });
+
+  it('should use up pulls in ronin', () => {
+    const runtime = createRuntime({
+      inventory: {storage: {spices: 5}, pullsRemaining: 3},
+    });
+    expect(runtime.takeStorage(4, spices)).toBe(false);
+    expect(runtime.takeStorage(2, spices)).toBe(true);
+    expect(runtime.pullsRemaining()).toBe(1);
+    expect(runtime.storageAmount(spices)).toBe(3);
+  });
+
+  it('should not pull in hardcore', () => {
+    const runtime = createRuntime({
+      inventory: {storage: {spices: 5}},
+      character: {hardcore: true},
+    });
+    expect(runtime.takeStorage(1, spices)).toBe(false);
+  });
+});
+
+describe('buy()', () => {
+  it('should buy from NPC stores and deduct meat', () => {
+    const runtime = createRuntime({
+      character: {meat: 100},
+      inventory: {npcPrices: {spices: 30}},
+    });
+    expect(runtime.npcPrice(spices)).toBe(30);
+    expect(runtime.buy(4, spices)).toBe(false);
+    expect(runtime.buy(spices, 3)).toBe(true);
+    expect(runtime.myMeat()).toBe(10);
+    expect(runtime.itemAmount(spices)).toBe(3);
+    expect(runtime.state.inventory.actions).toEqual([
+      {function: 'buy', item: 'spices', quantity: 3, meat: 90},
+    ]);
+  });
+
+  it('should only use the mall if the character can interact', () => {
+    const runtime = createRuntime({
+      character: {meat: 1000},
+      inventory: {mallPrices: {spices: 50}, pullsRemaining: 20},
+    });
+    expect(runtime.buy(spices)).toBe(false);
+    runtime.state.inventory.pullsRemaining = -1;
+    expect(runtime.buy(spices)).toBe(true);
+  });
+
+  it('should return the number bought when given a maximum price', () => {
+    const runtime = createRuntime({
+      character: {meat: 100},
+      inventory: {mallPrices: {spices: 40}},
+    });
+    expect(runtime.buy(spices, 5, 30)).toBe(0);
+    expect(runtime.buy(5, spices, 40)).toBe(2);
+    expect(runtime.myMeat()).toBe(20);
+  });
+});
+
+describe('retrieveItem()', () => {
+  it('should take items from equipment, closet, storage and stores', () => {
+    const runtime = createRuntime({
+      character: {meat: 100},
+      inventory: {
+        items: {spices: 1},
+        closet: {spices: 1},
+        storage: {spices: 1},
+        npcPrices: {spices: 10},
+      },
+    });
+    expect(runtime.retrieveItem(5, spices)).toBe(true);
+    expect(runtime.itemAmount(spices)).toBe(5);
+    expect(runtime.myMeat()).toBe(80);
+    expect(runtime.state.inventory.actions.map(a => a.function)).toEqual([
+      'takeCloset',
+      'takeStorage',
+      'buy',
+    ]);
+
+    runtime.state.inventory.equip('hat', helmet);
+    expect(runtime.retrieveItem(helmet)).toBe(true);
+    expect(runtime.equippedAmount(helmet)).toBe(0);
+  });
+
+  it('should respect the autoSatisfyWith preferences', () => {
+    const runtime = createRuntime({
+      character: {meat: 100},
+      inventory: {closet: {spices: 1}, npcPrices: {spices: 10}},
+      preferences: {
+        properties: {autoSatisfyWithCloset: 'false', autoSatisfyWithNPCs: ''},
+      },
+    });
+    expect(runtime.retrieveItem(spices)).toBe(false);
+    expect(runtime.closetAmount(spices)).toBe(1);
+  });
+});
+
+describe('eat(), drink() and chew()', () => {
+  it('should consume items and add fullness and adventures', () => {
+    const runtime = createRuntime({
+      character: {fullnessLimit: 2},
+      inventory: {items: {'fortune cookie': 3}},
+    });
+    expect(runtime.eat(2, cookie)).toBe(true);
+    expect(runtime.myFullness()).toBe(2);
+    expect(runtime.myAdventures()).toBe(2);
+    expect(runtime.eat(cookie)).toBe(false);
+    expect(runtime.itemAmount(cookie)).toBe(1);
+  });
+
+  it('should check inebriety and spleen limits and levels', () => {
+    const runtime = createRuntime({
+      character: {inebriety: 13, level: 3},
+      inventory: {
+        items: {'distilled fortified wine': 2, 'coffee pixie stick': 1},
+      },
+    });
+    expect(runtime.drink(wine, 2)).toBe(false);
+    expect(runtime.drink(wine)).toBe(true);
+    expect(runtime.myAdventures()).toBe(2);
+    expect(runtime.chew(stick)).toBe(false);
+    runtime.state.character.update({level: 4});
+    expect(runtime.chew(stick)).toBe(true);
+    expect(runtime.mySpleenUse()).toBe(1);
+  });
+
+  it('should reject items of the wrong kind', () => {
+    const runtime = createRuntime({inventory: {items: {spices: 1}}});
+    expect(runtime.eat(spices)).toBe(false);
+    expect(runtime.drink(cookie)).toBe(false);
+  });
+});
+
+describe('use()', () => {
+  it('should use up usable items', () => {
+    const runtime = createRuntime({inventory: {items: {'ten-leaf clover': 2}}});
+    expect(runtime.use(2, clover)).toBe(true);
+    expect(runtime.use(clover)).toBe(false);
+    expect(runtime.use(0, clover)).toBe(true);
+    expect(runtime.itemAmount(clover)).toBe(0);
+  });
+
+  it('should consume food, booze and spleen items', () => {
+    const runtime = createRuntime({inventory: {items: {'fortune cookie': 1}}});
+    expect(runtime.use(cookie)).toBe(true);
+    expect(runtime.myFullness()).toBe(1);
+  });
+
+  it('should not use items that are not usable', () => {
+    const runtime = createRuntime({inventory: {items: {spices: 1}}});
+    expect(runtime.use(spices)).toBe(false);
+    expect(runtime.itemAmount(spices)).toBe(1);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * @file Tests for the output log and the functions that write to it.
+ */
+
+import {KoLmafiaAbortError} from '../../src/runtime/output';
+import {createRuntime} from '../../src/runtime/runtime';
+
+describe('print()', () => {
+  it('should record messages and colors', () => {
+    const runtime = createRuntime();
+    runtime.print('Hello, <world>!');
+    runtime.print('Uh oh', 'red');
+    expect(runtime.state.output.entries).toEqual([
+      {
+        function: 'print',
+        html: 'Hello, &lt;world&gt;!',
+        text: 'Hello, <world>!',
+      },
+      {
+        function: 'print',
+        html: '<font color="red">Uh oh</font>',
+        text: 'Uh oh',
+        color: 'red',
+      },
+    ]);
+  });
+});
+
+describe('printHtml()', () => {
+  it('should strip markup from the plain-text version', () => {
+    const runtime = createRuntime();
+    runtime.printHtml(
+      '<b>Bold</b> &amp; <font color="blue">blue</font><br>next line' +
+        '<script>if (a < b) alert(1);</script>'
+    );
+    const [entry] = runtime.state.output.entries;
+    expect(entry.function).toBe('printHtml');
+    expect(entry.html).toContain('<b>Bold</b>');
+    expect(entry.text).toBe('Bold & blue\nnext line');
+  });
+});
+
+describe('logprint() and debugprint()', () => {
+  it('should not be shown in the gCLI', () => {
+    const runtime = createRuntime();
+    runtime.print('shown');
+    runtime.logprint('logged');
+    runtime.debugprint('debugged');
+    expect(runtime.state.output.entries.map(entry => entry.function)).toEqual([
+      'print',
+      'logprint',
+      'debugprint',
+    ]);
+    expect(runtime.state.output.getCliText()).toBe('shown');
+  });
+});
+
+describe('abort()', () => {
+  it('should throw KoLmafiaAbortError and stop execution', () => {
+    const runtime = createRuntime();
+    let reached = false;
+    const script = () => {
+      runtime.print('before');
+      runtime.abort('Out of adventures');
+      reached = true;
+    };
+
+    expect(script).toThrowError(KoLmafiaAbortError, 'Out of adventures');
+    expect(reached).toBe(false);
+    expect(runtime.state.output.getCliText()).toBe('before\nOut of adventures');
+    expect(runtime.state.output.entries[1].color).toBe('red');
+  });
+
+  it('should use a default message', () => {
+    const runtime = createRuntime();
+    try {
+      runtime.abort();
+      fail('abort() did not throw');
+    } catch (e) {
+      expect(e instanceof KoLmafiaAbortError).toBe(true);
+      expect((e as Error).message).toBe('Script aborted.');
+    }
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * @file Tests for the preference store and the functions that use it.
+ */
+
+import {DataFileError} from '../../src/lib/data-file';
+import {parsePreferenceDefaults} from '../../src/runtime/preference-defaults';
+import {PreferenceStore} from '../../src/runtime/preferences';
+import {createRuntime} from '../../src/runtime/runtime';
+
+const DEFAULTS = [
+  '# Comment',
+  'global\tsaveStateActive\t',
+  'global\tdefaultLoginServer\t1',
+  'user\tvalueOfAdventure\t500',
+  'user\tlastEncounter',
+].join('\n');
+
+describe('parsePreferenceDefaults()', () => {
+  it('should parse scopes and values', () => {
+    expect(parsePreferenceDefaults(DEFAULTS)).toEqual(
+      new Map([
+        ['saveStateActive', {scope: 'global', value: ''}],
+        ['defaultLoginServer', {scope: 'global', value: '1'}],
+        ['valueOfAdventure', {scope: 'user', value: '500'}],
+        ['lastEncounter', {scope: 'user', value: ''}],
+      ])
+    );
+  });
+
+  it('should reject unknown scopes', () => {
+    expect(() => parsePreferenceDefaults('local\tfoo\tbar')).toThrowError(
+      DataFileError,
+      "defaults.txt:1: Unknown preference scope 'local'"
+    );
+    expect(() =>
+      parsePreferenceDefaults('# Comment\nuser', 'my/defaults.txt')
+    ).toThrowError(
+      DataFileError,
+      "my/defaults.txt:2: Expected at least 2 fields, but found 1 (missing 'name')"
+    );
+  });
+});
+
+describe('PreferenceStore', () => {
+  it('should use the bundled defaults', () => {
+    const store = new PreferenceStore();
+    expect(store.get('valueOfAdventure')).toBe('500');
+    expect(store.get('questL02Larva')).toBe('unstarted');
+    expect(store.isGlobal('lastUsername')).toBe(true);
+  });
+
+  it('should return "" for unknown preferences', () => {
+    const store = new PreferenceStore({defaults: DEFAULTS});
+    expect(store.get('noSuchPreference')).toBe('');
+    expect(store.exists('noSuchPreference')).toBe(false);
+  });
+
+  it('should keep per-character preferences separate', () => {
+    const store = new PreferenceStore({defaults: DEFAULTS, user: 'Alice'});
+    store.set('valueOfAdventure', '1000');
+    store.set('defaultLoginServer', '2');
+
+    store.user = 'Bob';
+    expect(store.get('valueOfAdventure')).toBe('500');
+    expect(store.get('defaultLoginServer')).toBe('2');
+
+    store.user = 'alice';
+    expect(store.get('valueOfAdventure')).toBe('1000');
+  });
+
+  it('should read and remove global values on request', () => {
+    const store = new PreferenceStore({defaults: DEFAULTS});
+    store.set('myScriptSetting', 'user');
+
+    expect(store.get('myScriptSetting', true)).toBe('');
+    expect(store.get('defaultLoginServer', true)).toBe('1');
+    expect(store.remove('defaultLoginServer', true)).toBe('1');
+    expect(store.exists('defaultLoginServer', true)).toBe(false);
+  });
+
+  it('should not fall back to defaults after removal', () => {
+    const store = new PreferenceStore({defaults: DEFAULTS});
+
+    expect(store.remove('valueOfAdventure')).toBe('500');
+    expect(store.get('valueOfAdventure')).toBe('');
+    expect(store.hasDefault('valueOfAdventure')).toBe(true);
+    expect(store.defaultValue('valueOfAdventure')).toBe('500');
+  });
+
+  it('should provide typed getters', () => {
+    const store = new PreferenceStore({
+      defaults: DEFAULTS,
+      properties: {flag: 'true', count: '12', text: 'abc'},
+    });
+
+    expect(store.getBoolean('flag')).toBe(true);
+    expect(store.getBoolean('text')).toBe(false);
+    expect(store.getNumber('count')).toBe(12);
+    expect(store.getNumber('text')).toBeNaN();
+    expect(store.getNumber('missing')).toBeNaN();
+  });
+
+  it('should record every write', () => {
+    const store = new PreferenceStore({defaults: DEFAULTS, user: 'Alice'});
+    store.set('valueOfAdventure', '1000');
+    store.remove('valueOfAdventure');
+
+    expect(store.writes).toEqual([
+      {
+        name: 'valueOfAdventure',
+        value: '1000',
+        previousValue: '500',
+        global: false,
+        user: 'Alice',
+      },
+      {
+        name: 'valueOfAdventure',
+        value: null,
+        previousValue: '1000',
+        global: false,
+        user: 'Alice',
+      },
+    ]);
+  });
+
+  it('should restore snapshots', () => {
+    const store = new PreferenceStore({defaults: DEFAULTS, user: 'Alice'});
+    store.set('foo', 'bar');
+    const snapshot = store.snapshot();
+
+    store.set('foo', 'baz');
+    store.set('defaultLoginServer', '3');
+    store.user = 'Bob';
+    store.restore(snapshot);
+
+    expect(store.user).toBe('Alice');
+    expect(store.get('foo')).toBe('bar');
+    expect(store.get('defaultLoginServer')).toBe('1');
+  });
+});
+
+describe('preference functions', () => {
+  it('should use the preferences of their runtime', () => {
+    const first = createRuntime({preferences: {defaults: DEFAULTS}});
+    const second = createRuntime({preferences: {defaults: DEFAULTS}});
+    first.setProperty('valueOfAdventure', (2000 as unknown) as string);
+
+    expect(first.getProperty('valueOfAdventure')).toBe('2000');
+    expect(second.getProperty('valueOfAdventure')).toBe('500');
+    expect(first.propertyExists('valueOfAdventure')).toBe(true);
+    expect(first.propertyHasDefault('lastEncounter')).toBe(true);
+    expect(first.propertyDefaultValue('valueOfAdventure')).toBe('500');
+    expect(first.removeProperty('valueOfAdventure')).toBe('2000');
+    expect(first.getProperty('valueOfAdventure')).toBe('');
+  });
+});
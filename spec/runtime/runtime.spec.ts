@@ -0,0 +1,62 @@
+/**
+ * @file Tests for runtimes and the default runtime.
+ */
+
+import {xpath} from '../../src/kolmafia';
+import {
+  getDefaultRuntime,
+  resetDefaultRuntime,
+  resolveRuntime,
+  setDefaultRuntime,
+} from '../../src/runtime/default-runtime';
+import {createRuntime} from '../../src/runtime/runtime';
+
+describe('createRuntime()', () => {
+  it('should provide xpath()', () => {
+    const runtime = createRuntime();
+    expect(runtime.xpath('<p>A<br>B</p>', '//p')).toEqual(['<p>A<br/>B</p>']);
+  });
+
+  it('should apply default xpath() options', () => {
+    const runtime = createRuntime({xpath: {serializer: 'htmlcleaner'}});
+
+    expect(runtime.xpath('<p>A<br>B</p>', '//p')).toEqual(['<p>A<br />B</p>']);
+    expect(
+      runtime.xpath('<p>A<br>B</p>', '//p', {serializer: 'xmldom'})
+    ).toEqual(['<p>A<br/>B</p>']);
+  });
+
+  it('should isolate the state of each runtime', () => {
+    const first = createRuntime({xpath: {serializer: 'htmlcleaner'}});
+    const second = createRuntime();
+
+    expect(first.state).not.toBe(second.state);
+    expect(second.xpath('<br>', '//br')).toEqual(['<br/>']);
+  });
+});
+
+describe('default runtime', () => {
+  afterEach(() => resetDefaultRuntime());
+
+  it('should be used by module-level functions', () => {
+    setDefaultRuntime(createRuntime({xpath: {serializer: 'htmlcleaner'}}));
+    expect(xpath('<br>', '//br')).toEqual(['<br />']);
+  });
+
+  it('should be replaced by resetDefaultRuntime()', () => {
+    const runtime = getDefaultRuntime();
+    expect(getDefaultRuntime()).toBe(runtime);
+
+    resetDefaultRuntime();
+    expect(getDefaultRuntime()).not.toBe(runtime);
+  });
+
+  it('should be used by helpers that are not given a runtime', () => {
+    const runtime = createRuntime();
+    expect(resolveRuntime(runtime)).toBe(runtime);
+    expect(resolveRuntime()).toBe(getDefaultRuntime());
+
+    setDefaultRuntime(runtime);
+    expect(resolveRuntime()).toBe(runtime);
+  });
+});
@@ -1 +1,239 @@
 export * from './kolmafia';
+export {AdventureFunctions} from './runtime/adventure';
+export {
+  CallFilter,
+  CallRecord,
+  CallRecorder,
+  CallRecorderOptions,
+  DEFAULT_CALL_LIMIT,
+  FunctionName,
+} from './runtime/calls';
+export {
+  Cassette,
+  CassetteEntry,
+  CassetteMismatchError,
+  CassetteOptions,
+  CassettePlayer,
+  CassetteRequest,
+  RequestMethod,
+  UnusedCassetteEntriesError,
+} from './runtime/cassettes';
+export {
+  CharacterFunctions,
+  CharacterOptions,
+  CharacterState,
+  StatName,
+} from './runtime/character';
+export {
+  Choice,
+  ChoiceDecision,
+  ChoiceFunctions,
+  ChoiceOption,
+  ChoiceState,
+  PendingChoice,
+} from './runtime/choices';
+export {
+  CliHandler,
+  CliHistoryEntry,
+  CliInvocation,
+  CliOptions,
+  CliRegistry,
+  splitCommandLine,
+  UnknownCliCommandError,
+} from './runtime/cli';
+export {
+  CombatFunctions,
+  CombatState,
+  Encounter,
+  EncounterRecord,
+  EncounterResult,
+  Fight,
+  UnscriptedEncounterError,
+} from './runtime/combat';
+export {
+  FileFunctions,
+  FileSystemOptions,
+  FileWrite,
+  VirtualFileSystem,
+} from './runtime/files';
+export {
+  GAME_DATA_SCHEMAS,
+  GameData,
+  GameDataFile,
+  GameDataOptions,
+  GameDataRecords,
+  loadGameData,
+} from './runtime/game-data';
+export {getEntity, MafiaClass} from './runtime/game-types';
+export {
+  InventoryAction,
+  InventoryFunctions,
+  InventoryOptions,
+  InventoryState,
+  ItemLocation,
+} from './runtime/inventory';
+export {
+  getDefaultRuntime,
+  resetDefaultRuntime,
+  resolveRuntime,
+  setDefaultRuntime,
+} from './runtime/default-runtime';
+export {
+  KoLmafiaAbortError,
+  OutputEntry,
+  OutputFunction,
+  OutputLog,
+} from './runtime/output';
+export {
+  parsePreferenceDefaults,
+  PREFERENCE_DEFAULTS_SCHEMA,
+  PreferenceDefault,
+  PreferenceDefaults,
+  PreferenceScope,
+} from './runtime/preference-defaults';
+export {
+  PreferenceOptions,
+  PreferenceSnapshot,
+  PreferenceStore,
+  PreferenceWrite,
+} from './runtime/preferences';
+export {
+  createRuntime,
+  KolmafiaFunctions,
+  KolmafiaRuntime,
+  RuntimeOptions,
+  RuntimeState,
+} from './runtime/runtime';
+export {
+  assertCalled,
+  assertCalledBefore,
+  assertCalledWith,
+  assertNeverCalled,
+  CallAssertionError,
+  clearCalls,
+  getCalls,
+  replaceFunction,
+  restoreFunctions,
+  wrapFunction,
+} from './lib/calls';
+export {
+  ejectCassettes,
+  getUnusedCassetteEntries,
+  insertCassette,
+  loadCassette,
+} from './lib/cassettes';
+export {getCharacter, updateCharacter} from './lib/character';
+export {getChoiceDecisions, getPendingChoice} from './lib/choices';
+export {
+  getCliHistory,
+  getUnknownCliCommands,
+  registerCliCommand,
+} from './lib/cli';
+export {
+  getEncounterHistory,
+  getQueuedEncounters,
+  queueEncounters,
+} from './lib/combat';
+export {
+  DataColumn,
+  DataColumnType,
+  DataFileError,
+  DataFileOptions,
+  DataFileSchema,
+  DataRecord,
+  escapeField,
+  loadDataFile,
+  parseDataFile,
+  resolveDataFile,
+  unescapeField,
+} from './lib/data-file';
+export {DocumentIndex} from './lib/document-index';
+export {
+  DomhandlerElementAdapter,
+  DomhandlerNodeAdapter,
+  wrapDomhandlerNode,
+} from './lib/domhandler-adapter';
+export {getFile, getFileWrites, loadFixtureFiles, seedFiles} from './lib/files';
+export {addItems, getInventoryActions, getItems} from './lib/inventory';
+export {
+  getMapShape,
+  MapFileObject,
+  MapFileShape,
+  MapFileValue,
+  parseMap,
+  serializeMap,
+} from './lib/map-file';
+export {
+  jasmineMatchers,
+  JasmineMatcherFactories,
+  JasmineMatcherResult,
+  jestMatchers,
+  JestMatcherResult,
+  JestMatchers,
+  KolmafiaMatchers,
+  kolmafiaMatchers,
+  MatcherOutcome,
+} from './lib/matchers';
+export {clearOutput, getOutput, getOutputText} from './lib/output';
+export {
+  getPropertyWrites,
+  restoreProperties,
+  snapshotProperties,
+} from './lib/properties';
+export {
+  $class,
+  $classes,
+  $effect,
+  $effects,
+  $familiar,
+  $familiars,
+  $item,
+  $items,
+  $location,
+  $locations,
+  $monster,
+  $monsters,
+  $skill,
+  $skills,
+  $slot,
+  $slots,
+  $stat,
+  $stats,
+} from './lib/template-string';
+export {installKolmafiaStubs, uninstallKolmafiaStubs} from './lib/install';
+export {
+  clearXPathCache,
+  configureXPathCache,
+  HtmlCleanerType,
+  XPathBackendType,
+  XPathCacheOptions,
+} from './lib/xpath-cache';
+export {
+  evaluateCheckedXPath,
+  XPathConstruct,
+  XPathDivergence,
+  XPathDivergenceHandler,
+} from './lib/xpath-divergence';
+export {
+  XPathElementHandle,
+  XPathNodeResult,
+  xpathNodes,
+} from './lib/xpath-nodes';
+export {XPathSerializerType} from './lib/xpath-pipeline';
+export {
+  explainXPath,
+  traceXPath,
+  XPathTrace,
+  XPathTraceOperation,
+  XPathTraceOptions,
+  XPathTraceStep,
+} from './lib/xpath-trace';
+export {
+  compileXPath,
+  CompiledXPath,
+  CompileXPathOptions,
+  evaluateXPath,
+  XPatherErrorLocation,
+  XPatherException,
+  XPatherResult,
+} from './lib/xpather';
@@ -0,0 +1,8 @@
+import {delegate} from '../runtime/default-runtime';
+
+/** Adventures once at a location, and returns whether it went well. */
+export const adv1 = delegate('adv1');
+/** Adventures at a location for a number of turns. */
+export const adventure = delegate('adventure');
+/** Returns the location of the last adventure. */
+export const myLocation = delegate('myLocation');
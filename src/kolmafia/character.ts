@@ -0,0 +1,54 @@
+import {delegate} from '../runtime/default-runtime';
+
+/** Returns the name of the character. */
+export const myName = delegate('myName');
+/** Returns the player id of the character. */
+export const myId = delegate('myId');
+/** Returns the class of the character. */
+export const myClass = delegate('myClass');
+/** Returns the name of the current path, or `"None"`. */
+export const myPath = delegate('myPath');
+/** Returns whether the character is in hardcore. */
+export const inHardcore = delegate('inHardcore');
+/** Returns the level of the character. */
+export const myLevel = delegate('myLevel');
+/** Returns the primestat of the character's class. */
+export const myPrimestat = delegate('myPrimestat');
+/** Returns the base value (or substats) of a stat. */
+export const myBasestat = delegate('myBasestat');
+/** Returns the buffed value of a stat. */
+export const myBuffedstat = delegate('myBuffedstat');
+/** Returns the current HP. */
+export const myHp = delegate('myHp');
+/** Returns the maximum HP. */
+export const myMaxhp = delegate('myMaxhp');
+/** Returns the current MP. */
+export const myMp = delegate('myMp');
+/** Returns the maximum MP. */
+export const myMaxmp = delegate('myMaxmp');
+/** Returns the amount of meat on hand. */
+export const myMeat = delegate('myMeat');
+/** Returns the number of adventures remaining. */
+export const myAdventures = delegate('myAdventures');
+/** Returns the current fullness. */
+export const myFullness = delegate('myFullness');
+/** Returns the current inebriety. */
+export const myInebriety = delegate('myInebriety');
+/** Returns the current spleen use. */
+export const mySpleenUse = delegate('mySpleenUse');
+/** Returns the maximum fullness. */
+export const fullnessLimit = delegate('fullnessLimit');
+/** Returns the maximum inebriety without being overdrunk. */
+export const inebrietyLimit = delegate('inebrietyLimit');
+/** Returns the maximum spleen use. */
+export const spleenLimit = delegate('spleenLimit');
+/** Returns the number of turns played in the current ascension. */
+export const myTurncount = delegate('myTurncount');
+/** Returns the number of days spent in the current ascension. */
+export const myDaycount = delegate('myDaycount');
+/** Returns the number of ascensions. */
+export const myAscensions = delegate('myAscensions');
+/** Returns the current familiar. */
+export const myFamiliar = delegate('myFamiliar');
+/** Returns the number of turns remaining of an effect, or 0. */
+export const haveEffect = delegate('haveEffect');
@@ -0,0 +1,14 @@
+import {delegate} from '../runtime/default-runtime';
+
+/** Returns the options of the current choice adventure. */
+export const availableChoiceOptions = delegate('availableChoiceOptions');
+/** Chooses an option of the current choice adventure. */
+export const runChoice = delegate('runChoice');
+/** Returns the number of the last choice adventure. */
+export const lastChoice = delegate('lastChoice');
+/** Returns the last option chosen in a choice adventure. */
+export const lastDecision = delegate('lastDecision');
+/** Returns whether the character is in a choice adventure. */
+export const handlingChoice = delegate('handlingChoice');
+/** Returns whether a choice adventure follows the last fight. */
+export const choiceFollowsFight = delegate('choiceFollowsFight');
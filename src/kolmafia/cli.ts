@@ -0,0 +1,7 @@
+import {delegate} from '../runtime/default-runtime';
+
+/**
+ * Executes a gCLI command line using the command handlers of the default
+ * runtime, and returns whether all commands succeeded.
+ */
+export const cliExecute = delegate('cliExecute');
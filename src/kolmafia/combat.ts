@@ -0,0 +1,8 @@
+import {delegate} from '../runtime/default-runtime';
+
+/** Finishes the current fight, and returns the last page. */
+export const runCombat = delegate('runCombat');
+/** Uses a skill in combat, or casts it outside of combat. */
+export const useSkill = delegate('useSkill');
+/** Returns the last monster fought. */
+export const lastMonster = delegate('lastMonster');
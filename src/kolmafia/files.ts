@@ -0,0 +1,12 @@
+import {delegate} from '../runtime/default-runtime';
+
+/** Returns the contents of a file, or an empty string if it does not exist. */
+export const fileToBuffer = delegate('fileToBuffer');
+/** Writes a string to a file. */
+export const bufferToFile = delegate('bufferToFile');
+/** Returns the lines of a file, keyed by line number (starting from 1). */
+export const fileToArray = delegate('fileToArray');
+/** Reads a map file written by `mapToFile()` into an object. */
+export const fileToMap = delegate('fileToMap');
+/** Writes an object to a file in KoLmafia's tab-separated map format. */
+export const mapToFile = delegate('mapToFile');
@@ -1 +1,12 @@
+export * from './adventure';
+export * from './character';
+export * from './choices';
+export * from './cli';
+export * from './combat';
+export * from './files';
+export * from './inventory';
+export * from './output';
+export * from './preferences';
+export * from './types';
+export * from './visit-url';
 export * from './xpath';
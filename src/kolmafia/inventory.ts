@@ -0,0 +1,47 @@
+import {delegate} from '../runtime/default-runtime';
+
+/** Returns the number of an item in the inventory. */
+export const itemAmount = delegate('itemAmount');
+/**
+ * Returns the number of an item in the inventory, equipment, closet and
+ * (out of ronin) storage.
+ */
+export const availableAmount = delegate('availableAmount');
+/** Returns the number of an item in the closet. */
+export const closetAmount = delegate('closetAmount');
+/** Returns the number of an item in Hagnk's storage. */
+export const storageAmount = delegate('storageAmount');
+/** Returns the number of an item in the display case. */
+export const displayAmount = delegate('displayAmount');
+/** Returns the number of slots in which an item is equipped. */
+export const equippedAmount = delegate('equippedAmount');
+/** Returns the item equipped in a slot. */
+export const equippedItem = delegate('equippedItem');
+/** Returns the amount of meat in the closet. */
+export const myClosetMeat = delegate('myClosetMeat');
+/** Returns the number of pulls left today, or -1 if out of ronin. */
+export const pullsRemaining = delegate('pullsRemaining');
+/** Returns whether the character can use the mall and pull freely. */
+export const canInteract = delegate('canInteract');
+/** Returns the price of an item in NPC stores, or 0. */
+export const npcPrice = delegate('npcPrice');
+/** Returns the lowest price of an item in the mall, or 0. */
+export const mallPrice = delegate('mallPrice');
+/** Moves items or meat from the inventory to the closet. */
+export const putCloset = delegate('putCloset');
+/** Moves items or meat from the closet to the inventory. */
+export const takeCloset = delegate('takeCloset');
+/** Pulls items from Hagnk's storage. */
+export const takeStorage = delegate('takeStorage');
+/** Uses items, acquiring them first if necessary. */
+export const use = delegate('use');
+/** Eats food, acquiring it first if necessary. */
+export const eat = delegate('eat');
+/** Drinks booze, acquiring it first if necessary. */
+export const drink = delegate('drink');
+/** Chews spleen items, acquiring them first if necessary. */
+export const chew = delegate('chew');
+/** Buys items from NPC stores or the mall. */
+export const buy = delegate('buy');
+/** Acquires items until the inventory holds the given number. */
+export const retrieveItem = delegate('retrieveItem');
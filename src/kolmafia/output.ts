@@ -0,0 +1,12 @@
+import {delegate} from '../runtime/default-runtime';
+
+/** Prints a message to the gCLI, optionally in the given color. */
+export const print = delegate('print');
+/** Prints HTML to the gCLI. */
+export const printHtml = delegate('printHtml');
+/** Writes a message to the session log without showing it in the gCLI. */
+export const logprint = delegate('logprint');
+/** Writes a message to the debug log. */
+export const debugprint = delegate('debugprint');
+/** Prints a message in red and stops the script with `KoLmafiaAbortError`. */
+export const abort = delegate('abort');
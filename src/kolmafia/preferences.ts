@@ -0,0 +1,18 @@
+import {delegate} from '../runtime/default-runtime';
+
+/**
+ * Returns the value of a preference, or `""` if it does not exist.
+ * If `globalValue` is true, returns the global value even if the preference
+ * is per-character.
+ */
+export const getProperty = delegate('getProperty');
+/** Sets the value of a preference. */
+export const setProperty = delegate('setProperty');
+/** Removes a preference and returns its previous value. */
+export const removeProperty = delegate('removeProperty');
+/** Returns whether a preference exists. */
+export const propertyExists = delegate('propertyExists');
+/** Returns whether a preference has a default value. */
+export const propertyHasDefault = delegate('propertyHasDefault');
+/** Returns the default value of a preference, or `""` if it has none. */
+export const propertyDefaultValue = delegate('propertyDefaultValue');
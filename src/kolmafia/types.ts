@@ -0,0 +1,11 @@
+export {
+  Class,
+  Effect,
+  Familiar,
+  Item,
+  Location,
+  Monster,
+  Skill,
+  Slot,
+  Stat,
+} from '../runtime/game-types';
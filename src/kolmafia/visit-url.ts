@@ -0,0 +1,7 @@
+import {delegate} from '../runtime/default-runtime';
+
+/**
+ * Returns the response recorded for a URL in the cassettes of the default
+ * runtime.
+ */
+export const visitUrl = delegate('visitUrl');
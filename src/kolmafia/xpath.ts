@@ -1,21 +1,10 @@
-import {DOMParser, XMLSerializer} from 'xmldom';
+import type {XPathOptions} from '../lib/xpath-pipeline';
+import {delegate} from '../runtime/default-runtime';
 
-import {cleanHtml} from '../lib/clean-html';
-import {evaluateXPath, isElement} from '../lib/xpather';
+export type {XPathOptions};
 
 /**
  * Implementation of KoLmafia's `xpath()` function.
- * @param html XML or HTML markup. This is sanitized
- * @param selector XPath selector supported by HtmlCleaner.
+ * This uses the default runtime (see `getDefaultRuntime()`).
  */
-export function xpath(html: string, selector: string): string[] {
-  const cleanedHtml = cleanHtml(html);
-  const xmlSerializer = new XMLSerializer();
-
-  return evaluateXPath(
-    new DOMParser().parseFromString(cleanedHtml).documentElement,
-    selector
-  ).map(result =>
-    isElement(result) ? xmlSerializer.serializeToString(result) : String(result)
-  );
-}
+export const xpath = delegate('xpath');
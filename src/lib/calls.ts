@@ -0,0 +1,191 @@
+/**
+ * @file Test helpers for inspecting the calls to KoLmafia functions, replacing
+ * their implementations, and asserting how they were called.
+ *
+ * Replaced functions stay replaced until `restoreFunctions()` is called or
+ * the runtime is discarded, e.g. by `resetDefaultRuntime()` in `afterEach()`.
+ * Assertions throw a `CallAssertionError`, so they work with any test
+ * framework (e.g. Jasmine or Jest).
+ */
+
+import {inspect, isDeepStrictEqual} from 'util';
+import type {CallFilter, CallRecord, FunctionName} from '../runtime/calls';
+import {resolveRuntime} from '../runtime/default-runtime';
+import type {KolmafiaFunctions, KolmafiaRuntime} from '../runtime/runtime';
+
+/**
+ * Thrown when the calls to KoLmafia functions do not match an assertion.
+ */
+export class CallAssertionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CallAssertionError';
+  }
+}
+
+/**
+ * Formats a call as it would appear in code, e.g. `print("foo")`.
+ */
+function formatCall(name: string, args: unknown[]): string {
+  return `${name}(${args.map(arg => inspect(arg)).join(', ')})`;
+}
+
+/**
+ * Formats a list of calls for an error message.
+ */
+function formatCalls(calls: CallRecord[]): string {
+  if (calls.length === 0) return ' no calls';
+  return calls
+    .map(call => {
+      const site = call.callSite ? ` at ${call.callSite}` : '';
+      return `\n  ${formatCall(call.name, call.args)}${site}`;
+    })
+    .join('');
+}
+
+/**
+ * Returns the recorded calls that match a filter, in order.
+ * @param filter Criteria, or the name of a function
+ * @param runtime
+ */
+export function getCalls(
+  filter: CallFilter | FunctionName = {},
+  runtime?: KolmafiaRuntime
+): CallRecord[] {
+  return resolveRuntime(runtime).state.calls.getCalls(
+    typeof filter === 'string' ? {name: filter} : filter
+  );
+}
+
+/**
+ * Forgets all recorded calls.
+ * @param runtime
+ */
+export function clearCalls(runtime?: KolmafiaRuntime): void {
+  resolveRuntime(runtime).state.calls.clear();
+}
+
+/**
+ * Replaces the implementation of a KoLmafia function.
+ * @param name Name of the function
+ * @param implementation
+ * @param runtime
+ */
+export function replaceFunction<K extends FunctionName>(
+  name: K,
+  implementation: KolmafiaFunctions[K],
+  runtime?: KolmafiaRuntime
+): void {
+  resolveRuntime(runtime).state.calls.replace(name, implementation);
+}
+
+/**
+ * Wraps the current implementation of a KoLmafia function.
+ * @param name Name of the function
+ * @param wrapper Receives the current implementation, and returns the new one
+ * @param runtime
+ */
+export function wrapFunction<K extends FunctionName>(
+  name: K,
+  wrapper: (original: KolmafiaFunctions[K]) => KolmafiaFunctions[K],
+  runtime?: KolmafiaRuntime
+): void {
+  resolveRuntime(runtime).state.calls.wrap(name, wrapper);
+}
+
+/**
+ * Restores the original implementation of a KoLmafia function.
+ * @param name Name of the function. If omitted, restores all functions.
+ * @param runtime
+ */
+export function restoreFunctions(
+  name?: FunctionName,
+  runtime?: KolmafiaRuntime
+): void {
+  resolveRuntime(runtime).state.calls.restore(name);
+}
+
+/**
+ * Asserts that a function was called, optionally an exact number of times.
+ * @param name Name of the function
+ * @param times Expected number of calls
+ * @param runtime
+ * @throws {CallAssertionError}
+ */
+export function assertCalled(
+  name: FunctionName,
+  times?: number,
+  runtime?: KolmafiaRuntime
+): void {
+  const calls = getCalls(name, runtime);
+  if (times === undefined ? calls.length === 0 : calls.length !== times) {
+    throw new CallAssertionError(
+      `Expected ${name}() to be called ${
+        times === undefined ? 'at least once' : `${times} time(s)`
+      }, but it was called ${calls.length} time(s)`
+    );
+  }
+}
+
+/**
+ * Asserts that a function was never called.
+ * @param name Name of the function
+ * @param runtime
+ * @throws {CallAssertionError}
+ */
+export function assertNeverCalled(
+  name: FunctionName,
+  runtime?: KolmafiaRuntime
+): void {
+  const calls = getCalls(name, runtime);
+  if (calls.length > 0) {
+    throw new CallAssertionError(
+      `Expected ${name}() to never be called, but got:${formatCalls(calls)}`
+    );
+  }
+}
+
+/**
+ * Asserts that a function was called at least once with the given arguments.
+ * Arguments are compared with `util.isDeepStrictEqual()`.
+ * @param name Name of the function
+ * @param args Expected arguments
+ * @param runtime
+ * @throws {CallAssertionError}
+ */
+export function assertCalledWith(
+  name: FunctionName,
+  args: unknown[],
+  runtime?: KolmafiaRuntime
+): void {
+  const calls = getCalls(name, runtime);
+  if (!calls.some(call => isDeepStrictEqual(call.args, args))) {
+    throw new CallAssertionError(
+      `Expected ${formatCall(name, args)} to be called, ` +
+        `but got:${formatCalls(calls)}`
+    );
+  }
+}
+
+/**
+ * Asserts that both functions were called, and that the first call of
+ * `first` happened before the first call of `second`.
+ * @param first Name of the function called earlier
+ * @param second Name of the function called later
+ * @param runtime
+ * @throws {CallAssertionError}
+ */
+export function assertCalledBefore(
+  first: FunctionName,
+  second: FunctionName,
+  runtime?: KolmafiaRuntime
+): void {
+  const [firstCall] = getCalls(first, runtime);
+  const [secondCall] = getCalls(second, runtime);
+  if (!firstCall || !secondCall || firstCall.index >= secondCall.index) {
+    throw new CallAssertionError(
+      `Expected ${first}() to be called before ${second}(), but got:` +
+        formatCalls(getCalls({name: [first, second]}, runtime))
+    );
+  }
+}
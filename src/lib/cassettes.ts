@@ -0,0 +1,63 @@
+/**
+ * @file Test helpers for loading cassettes and inserting them into runtimes.
+ *
+ * Inserted cassettes stay in their runtime until they are ejected, so tests
+ * that insert cassettes should call `ejectCassettes()` in `afterEach()`. This
+ * is also when strict cassettes report the entries that were never played.
+ */
+
+import {readFileSync} from 'fs';
+
+import type {Cassette, CassetteOptions} from '../runtime/cassettes';
+import {resolveRuntime} from '../runtime/default-runtime';
+import type {KolmafiaRuntime} from '../runtime/runtime';
+
+/**
+ * Loads a cassette from a JSON file. The file must contain an object with an
+ * `entries` array, or the array itself.
+ * @param path Path of the cassette file
+ * @throws {Error} If the file does not contain a list of entries
+ */
+export function loadCassette(path: string): Cassette {
+  const data = JSON.parse(readFileSync(path, 'utf8'));
+  const entries = Array.isArray(data) ? data : data && data.entries;
+  if (!Array.isArray(entries)) {
+    throw new Error(`Cassette file ${path} does not contain a list of entries`);
+  }
+  return {name: (data && data.name) || path, entries};
+}
+
+/**
+ * Adds a cassette to the cassettes that `visitUrl()` plays responses from.
+ * @param cassette Cassette, or path of a cassette file
+ * @param options
+ * @param runtime
+ */
+export function insertCassette(
+  cassette: Cassette | string,
+  options: CassetteOptions = {},
+  runtime?: KolmafiaRuntime
+): void {
+  resolveRuntime(runtime).state.cassettes.insert(
+    typeof cassette === 'string' ? loadCassette(cassette) : cassette,
+    options
+  );
+}
+
+/**
+ * Removes all cassettes. Call this after each test.
+ * @param runtime
+ * @throws {UnusedCassetteEntriesError} If a cassette was inserted in strict
+ *    mode and some of its entries were not played
+ */
+export function ejectCassettes(runtime?: KolmafiaRuntime): void {
+  resolveRuntime(runtime).state.cassettes.eject();
+}
+
+/**
+ * Returns descriptions of the cassette entries that have not been played yet.
+ * @param runtime
+ */
+export function getUnusedCassetteEntries(runtime?: KolmafiaRuntime): string[] {
+  return resolveRuntime(runtime).state.cassettes.getUnusedEntries();
+}
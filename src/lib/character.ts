@@ -0,0 +1,33 @@
+/**
+ * @file Test helpers for changing the character of a runtime.
+ *
+ * `updateCharacter()` accepts the same options as `createRuntime()`, and
+ * derives dependent values the same way (e.g. setting `level` raises the
+ * primestat). `getCharacter()` gives direct access for changes that have no
+ * option, or for adjusting a value in the middle of a test.
+ */
+
+import type {CharacterOptions, CharacterState} from '../runtime/character';
+import {resolveRuntime} from '../runtime/default-runtime';
+import type {KolmafiaRuntime} from '../runtime/runtime';
+
+/**
+ * Returns the character, whose values can be read and changed directly.
+ * @param runtime
+ */
+export function getCharacter(runtime?: KolmafiaRuntime): CharacterState {
+  return resolveRuntime(runtime).state.character;
+}
+
+/**
+ * Changes some values of the character, e.g. `{meat: 1000, level: 13}`.
+ * @param options
+ * @param runtime
+ * @throws {Error} If the class or familiar does not exist
+ */
+export function updateCharacter(
+  options: CharacterOptions,
+  runtime?: KolmafiaRuntime
+): void {
+  resolveRuntime(runtime).state.character.update(options);
+}
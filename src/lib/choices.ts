@@ -0,0 +1,32 @@
+/**
+ * @file Test helpers for inspecting choice adventures.
+ *
+ * Choices are scripted as part of encounters (see `queueEncounters()`), so
+ * these helpers only inspect them. Decisions include the options chosen
+ * automatically from `choiceAdventure<N>` preferences, not only the ones
+ * chosen with `runChoice()`.
+ */
+
+import type {ChoiceDecision, PendingChoice} from '../runtime/choices';
+import {resolveRuntime} from '../runtime/default-runtime';
+import type {KolmafiaRuntime} from '../runtime/runtime';
+
+/**
+ * Returns every option chosen in a choice adventure, in order.
+ * @param runtime
+ */
+export function getChoiceDecisions(
+  runtime?: KolmafiaRuntime
+): readonly ChoiceDecision[] {
+  return resolveRuntime(runtime).state.choices.decisions;
+}
+
+/**
+ * Returns the choice adventure that the character is in, or `null`.
+ * @param runtime
+ */
+export function getPendingChoice(
+  runtime?: KolmafiaRuntime
+): PendingChoice | null {
+  return resolveRuntime(runtime).state.choices.current;
+}
@@ -1,30 +1,23 @@
 import cheerio = require('cheerio');
 
+/** Document loaded by cheerio */
+type CheerioRoot = ReturnType<typeof cheerio.load>;
+
+/** Start of the code of a script commented out by `wrapScripts()` */
+const SCRIPT_WRAPPER_START = '/*<!--*/';
+/** End of the code of a script commented out by `wrapScripts()` */
+const SCRIPT_WRAPPER_END = '/*-->*/';
+
 /**
- * Cleans the given HTML so that it can be parsed by strict DOM parsers
- * (e.g. xmldom).
+ * Parses the given HTML with cheerio.
  * This does NOT mimic HtmlCleaner's behavior, although we hope it does.
+ * Use `cleanHtmlLikeHtmlCleaner()` if the structure of malformed markup must
+ * match KoLmafia's.
  * @param html HTML markup
  */
-export function cleanHtml(html: string): string {
+export function parseHtml(html: string): CheerioRoot {
   const $ = cheerio.load(html);
 
-  // Manually wrap JS in comments to make xmldom happy.
-  // Wrapping in <![CDATA[ ... ]]> does not work, because cheerio converts it
-  // to comments.
-  $('script').each((_, el) => {
-    const $script = $(el);
-    const code = $script.html();
-    if (
-      code &&
-      /[<&]/.test(code) &&
-      !code.includes('<![CDATA[') &&
-      !code.includes('<!--')
-    ) {
-      $script.html(`/*<!--*/${code}/*-->*/`);
-    }
-  });
-
   // Manually sanitize content inside <noscript></noscript>, as cheerio will
   // ignore them by default.
   $('noscript').each((_, el) => {
@@ -35,5 +28,68 @@ export function cleanHtml(html: string): string {
     }
   });
 
+  return $;
+}
+
+/**
+ * Wraps JS in comments to make xmldom happy, i.e. turns the code of each
+ * script that contains `<` or `&` into `/*<!--*\/code/*-->*\/`.
+ * Wrapping in <![CDATA[ ... ]]> does not work, because cheerio converts it
+ * to comments.
+ *
+ * The code is then parsed as XML, into the same nodes as xmldom (e.g. a
+ * comment between two text nodes), so that selectors see the same tree
+ * whether or not the document is serialized and parsed again.
+ * @param $ Document loaded by `parseHtml()`
+ */
+export function wrapScripts($: CheerioRoot): void {
+  $('script').each((_, el) => {
+    const $script = $(el);
+    const code = $script.html();
+    if (!code || !/[<&]/.test(code)) return;
+    const wrapped =
+      code.includes('<![CDATA[') || code.includes('<!--')
+        ? code
+        : SCRIPT_WRAPPER_START + code + SCRIPT_WRAPPER_END;
+    // Parse the code as XML, as xmldom does
+    $script
+      .empty()
+      .append(cheerio.load(wrapped, {xmlMode: true}).root().contents());
+  });
+}
+
+/**
+ * Removes the wrapper added by `wrapScripts()` from the code of a script.
+ * @param code Serialized contents of a `<script>` element
+ * @return The original code, or `code` if it is not wrapped
+ */
+export function unwrapScript(code: string): string {
+  return code.startsWith(SCRIPT_WRAPPER_START) &&
+    code.endsWith(SCRIPT_WRAPPER_END)
+    ? code.slice(SCRIPT_WRAPPER_START.length, -SCRIPT_WRAPPER_END.length)
+    : code;
+}
+
+/**
+ * Cleans the given HTML so that it can be parsed by strict DOM parsers
+ * (e.g. xmldom).
+ * @param html HTML markup
+ */
+export function cleanHtml(html: string): string {
+  const $ = parseHtml(html);
+  wrapScripts($);
   return $.xml();
 }
+
+/**
+ * Converts HTML to plain text, like the text that KoLmafia writes to the
+ * session log. Line breaks (`<br>`) become newlines, and the contents of
+ * `<script>` and `<style>` elements are removed.
+ * @param html HTML markup
+ */
+export function htmlToText(html: string): string {
+  const $ = parseHtml(html);
+  $('script, style').remove();
+  $('br').replaceWith('\n');
+  return $.root().text();
+}
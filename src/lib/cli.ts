@@ -0,0 +1,49 @@
+/**
+ * @file Test helpers for registering gCLI command handlers and inspecting the
+ * commands executed by `cliExecute()`.
+ *
+ * Handlers registered here take precedence over the built-in ones, so a test
+ * can stub a command such as `outfit` without setting up the state that the
+ * built-in handler needs. `getUnknownCliCommands()` is useful in `afterEach()`
+ * to catch commands that a script runs but that no test has stubbed.
+ */
+
+import type {CliHandler, CliHistoryEntry} from '../runtime/cli';
+import {resolveRuntime} from '../runtime/default-runtime';
+import type {KolmafiaRuntime} from '../runtime/runtime';
+
+/**
+ * Registers a handler for a gCLI command, replacing any existing handler.
+ * @param names Command name, or list of aliases (case-insensitive)
+ * @param handler
+ * @param runtime
+ */
+export function registerCliCommand(
+  names: string | string[],
+  handler: CliHandler,
+  runtime?: KolmafiaRuntime
+): void {
+  resolveRuntime(runtime).state.cli.register(names, handler);
+}
+
+/**
+ * Returns every command executed by `cliExecute()`, in order.
+ * @param runtime
+ */
+export function getCliHistory(
+  runtime?: KolmafiaRuntime
+): readonly CliHistoryEntry[] {
+  return resolveRuntime(runtime).state.cli.history;
+}
+
+/**
+ * Returns the commands executed by `cliExecute()` that had no handler.
+ * @param runtime
+ */
+export function getUnknownCliCommands(
+  runtime?: KolmafiaRuntime
+): CliHistoryEntry[] {
+  return resolveRuntime(runtime).state.cli.history.filter(
+    entry => !entry.handled
+  );
+}
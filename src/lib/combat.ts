@@ -0,0 +1,53 @@
+/**
+ * @file Test helpers for scripting encounters and inspecting their outcomes.
+ *
+ * Each location has its own queue, and adventuring at a location whose queue
+ * is empty throws an `UnscriptedEncounterError`. Queue every encounter that a
+ * test expects, then check `getQueuedEncounters()` to make sure that the
+ * script used all of them.
+ */
+
+import type {Encounter, EncounterRecord} from '../runtime/combat';
+import {resolveRuntime} from '../runtime/default-runtime';
+import type {Location} from '../runtime/game-types';
+import type {KolmafiaRuntime} from '../runtime/runtime';
+
+/**
+ * Adds encounters that happen next at a location, in order.
+ * @param location Location, or its name
+ * @param encounters Encounter, or list of encounters
+ * @param runtime
+ * @throws {Error} If the location, a monster or an item does not exist
+ */
+export function queueEncounters(
+  location: Location | string,
+  encounters: Encounter | Encounter[],
+  runtime?: KolmafiaRuntime
+): void {
+  resolveRuntime(runtime).state.combat.queue(
+    location,
+    ...(Array.isArray(encounters) ? encounters : [encounters])
+  );
+}
+
+/**
+ * Returns the encounters that have not happened yet at a location.
+ * @param location Location, or its name
+ * @param runtime
+ */
+export function getQueuedEncounters(
+  location: Location | string,
+  runtime?: KolmafiaRuntime
+): readonly Encounter[] {
+  return resolveRuntime(runtime).state.combat.getQueued(location);
+}
+
+/**
+ * Returns every encounter that has finished, in order.
+ * @param runtime
+ */
+export function getEncounterHistory(
+  runtime?: KolmafiaRuntime
+): readonly EncounterRecord[] {
+  return resolveRuntime(runtime).state.combat.history;
+}
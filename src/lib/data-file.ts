@@ -0,0 +1,286 @@
+/**
+ * @file Parser for the tab-separated data files used by KoLmafia (e.g.
+ * `items.txt`), which turns each line into a typed record.
+ *
+ * A data file starts with a line that contains only its version number,
+ * unless it is unversioned (e.g. `defaults.txt`). This is followed by lines
+ * of tab-separated fields. Empty lines and lines starting
+ * with `#` are ignored. Fields may contain the escape sequences `\t`, `\n` and
+ * `\\`.
+ *
+ * The columns of each file are described by a `DataFileSchema`. For example,
+ * given the schema:
+ *
+ *    const schema = {
+ *      file: 'example.txt',
+ *      version: 1,
+ *      columns: [
+ *        {name: 'id', type: 'int'},
+ *        {name: 'name', type: 'string'},
+ *        {name: 'uses', type: 'list', optional: true},
+ *      ],
+ *    } as const;
+ *
+ * `parseDataFile(text, schema)` returns records of the type
+ * `{id: number; name: string; uses: string[]; rest: string[]; line: number}`.
+ */
+
+import {existsSync, readFileSync} from 'fs';
+import {join} from 'path';
+
+/** Types of data file columns */
+export type DataColumnType = 'string' | 'int' | 'float' | 'list';
+
+/**
+ * Column of a data file.
+ */
+export interface DataColumn {
+  readonly name: string;
+  /**
+   * - `string`: The field as-is.
+   * - `int`, `float`: A number. Empty fields in optional columns become `0`.
+   * - `list`: A comma-separated list. `none` and empty fields become `[]`.
+   */
+  readonly type: DataColumnType;
+  /**
+   * Whether lines may omit this column. Optional columns must come after all
+   * required columns.
+   */
+  readonly optional?: boolean;
+}
+
+/**
+ * Describes the format of a data file.
+ */
+export interface DataFileSchema {
+  /** Name of the file, e.g. `items.txt` */
+  readonly file: string;
+  /**
+   * Version number that must appear on the first line of the file. Omit it
+   * for files without a version line.
+   */
+  readonly version?: number;
+  readonly columns: readonly DataColumn[];
+}
+
+type ColumnValue<C extends DataColumn> = C['type'] extends 'int' | 'float'
+  ? number
+  : C['type'] extends 'list'
+  ? string[]
+  : string;
+
+/**
+ * Record parsed from a line of a data file.
+ */
+export type DataRecord<S extends DataFileSchema> = {
+  [C in S['columns'][number] as C['name']]: ColumnValue<C>;
+} & {
+  /** Fields after the last column in the schema */
+  rest: string[];
+  /** Line number (1-based) */
+  line: number;
+};
+
+/**
+ * Thrown when a data file does not match its schema.
+ */
+export class DataFileError extends Error {
+  /**
+   * @param source Name or path of the data file
+   * @param line Line number (1-based) of the error
+   * @param reason Description of the error
+   */
+  constructor(
+    readonly source: string,
+    readonly line: number,
+    readonly reason: string
+  ) {
+    super(`${source}:${line}: ${reason}`);
+    this.name = 'DataFileError';
+  }
+}
+
+const ESCAPES: Record<string, string> = {t: '\t', n: '\n', '\\': '\\'};
+const UNESCAPES: Record<string, string> = {'\t': 't', '\n': 'n', '\\': '\\'};
+
+/**
+ * Replaces escape sequences in a field.
+ * @param field
+ */
+export function unescapeField(field: string): string {
+  return field.replace(/\\([tn\\])/g, (_, ch: string) => ESCAPES[ch]);
+}
+
+/**
+ * Escapes tabs, newlines and backslashes in a field, so that it can be read
+ * back with `unescapeField()`.
+ * @param field
+ */
+export function escapeField(field: string): string {
+  return field.replace(/[\t\n\\]/g, ch => '\\' + UNESCAPES[ch]);
+}
+
+function parseValue(
+  field: string,
+  column: DataColumn,
+  source: string,
+  line: number
+): string | number | string[] {
+  switch (column.type) {
+    case 'int':
+    case 'float': {
+      if (field === '' && column.optional) return 0;
+      const pattern = column.type === 'int' ? /^-?\d+$/ : /^-?\d*\.?\d+$/;
+      if (!pattern.test(field)) {
+        throw new DataFileError(
+          source,
+          line,
+          `Column '${column.name}' must be ${
+            column.type === 'int' ? 'an integer' : 'a number'
+          }, but is '${field}'`
+        );
+      }
+      return Number(field);
+    }
+    case 'list':
+      return field === '' || field === 'none'
+        ? []
+        : field
+            .split(',')
+            .map(item => item.trim())
+            .filter(item => item !== '');
+    default:
+      return field;
+  }
+}
+
+/**
+ * Checks the version line of a data file.
+ * @throws {DataFileError} If the version number is missing or different
+ */
+function checkVersion(
+  firstLine: string,
+  schema: DataFileSchema,
+  source: string
+): void {
+  const version = firstLine.trim();
+  if (!/^\d+$/.test(version)) {
+    throw new DataFileError(
+      source,
+      1,
+      `Expected version number ${schema.version}, but found '${firstLine}'`
+    );
+  }
+  if (Number(version) !== schema.version) {
+    throw new DataFileError(
+      source,
+      1,
+      `Expected version ${schema.version}, but file has version ${version}`
+    );
+  }
+}
+
+/**
+ * Parses a data file.
+ * @param text Contents of the data file
+ * @param schema Format of the data file
+ * @param source Name or path of the file used in error messages. Defaults to
+ *    the file name in the schema
+ * @throws {DataFileError} If the version number is missing or different, or a
+ *    line does not match the schema
+ */
+export function parseDataFile<S extends DataFileSchema>(
+  text: string,
+  schema: S,
+  source: string = schema.file
+): DataRecord<S>[] {
+  const lines = text.split(/\r?\n/);
+  if (schema.version !== undefined) checkVersion(lines[0], schema, source);
+
+  const requiredColumns = schema.columns.filter(c => !c.optional).length;
+  const records: DataRecord<S>[] = [];
+  const start = schema.version === undefined ? 0 : 1;
+  for (let index = start; index < lines.length; ++index) {
+    const content = lines[index];
+    if (content.trim() === '' || content.startsWith('#')) continue;
+
+    const line = index + 1;
+    const fields = content.split('\t').map(unescapeField);
+    if (fields.length < requiredColumns) {
+      throw new DataFileError(
+        source,
+        line,
+        `Expected at least ${requiredColumns} fields, but found ${
+          fields.length
+        } (missing '${schema.columns[fields.length].name}')`
+      );
+    }
+
+    const record: Record<string, unknown> = {
+      rest: fields.slice(schema.columns.length),
+      line,
+    };
+    schema.columns.forEach((column, i) => {
+      record[column.name] = parseValue(
+        i < fields.length ? fields[i] : '',
+        column,
+        source,
+        line
+      );
+    });
+    records.push(record as DataRecord<S>);
+  }
+  return records;
+}
+
+/**
+ * Where to read data files from.
+ */
+export interface DataFileOptions {
+  /**
+   * Directory to read data files from. Files that are missing from this
+   * directory are read from the bundled data.
+   */
+  directory?: string;
+  /**
+   * Paths of individual data files, keyed by file name (e.g.
+   * `{'items.txt': 'spec/fixtures/items.txt'}`). These take precedence over
+   * `directory`.
+   */
+  files?: Record<string, string | undefined>;
+}
+
+/** Directory of the bundled data files, relative to `build/src/lib/` */
+const BUNDLED_DATA_DIRECTORY = join(__dirname, '../../../data');
+
+/**
+ * Returns the path that a data file is read from.
+ * @param file Name of the data file, e.g. `items.txt`
+ * @param options
+ */
+export function resolveDataFile(
+  file: string,
+  options: DataFileOptions = {}
+): string {
+  const path = options.files && options.files[file];
+  if (path) return path;
+  if (options.directory && existsSync(join(options.directory, file))) {
+    return join(options.directory, file);
+  }
+  return join(BUNDLED_DATA_DIRECTORY, file);
+}
+
+/**
+ * Reads and parses a data file, from the bundled data or from the overrides
+ * given in the options.
+ * @param schema Format of the data file
+ * @param options
+ * @throws {DataFileError} If the file does not match the schema
+ */
+export function loadDataFile<S extends DataFileSchema>(
+  schema: S,
+  options: DataFileOptions = {}
+): DataRecord<S>[] {
+  const path = resolveDataFile(schema.file, options);
+  return parseDataFile(readFileSync(path, 'utf8'), schema, path);
+}
@@ -0,0 +1,115 @@
+/**
+ * @file Index of the elements in a document, which lets XPather find the
+ * descendants of an element by tag name without walking its subtree.
+ *
+ * Elements are numbered in document order (preorder). The descendants of an
+ * element then have consecutive numbers, so finding them is a matter of
+ * binary-searching the list of elements with the requested tag name.
+ */
+
+import type {XPatherElement} from './xpather';
+
+/**
+ * Elements with the same tag name, in document order.
+ */
+interface NameEntry<T> {
+  elements: T[];
+  /** Preorder number of each element in `elements` */
+  positions: number[];
+}
+
+/**
+ * Index of all elements in a document.
+ * The index is built when it is first used, and must NOT be used after the
+ * document is modified.
+ */
+export class DocumentIndex<T extends XPatherElement = XPatherElement> {
+  /** Preorder number of each element */
+  private positions?: Map<T, number>;
+  /** Preorder number of the last descendant of each element */
+  private subtreeEnds: number[] = [];
+  private elementsByName = new Map<string, NameEntry<T>>();
+
+  /**
+   * @param root Root element of the document
+   */
+  constructor(readonly root: T) {}
+
+  private build(): Map<T, number> {
+    if (this.positions) return this.positions;
+    const positions = new Map<T, number>();
+    const visit = (el: T) => {
+      const position = positions.size;
+      positions.set(el, position);
+
+      const name = el.nodeName.toLowerCase();
+      let entry = this.elementsByName.get(name);
+      if (!entry) {
+        entry = {elements: [], positions: []};
+        this.elementsByName.set(name, entry);
+      }
+      entry.elements.push(el);
+      entry.positions.push(position);
+
+      for (let i = 0; i < el.childNodes.length; ++i) {
+        const child = el.childNodes[i];
+        if (child.nodeType === child.ELEMENT_NODE) {
+          visit(child as T);
+        }
+      }
+      this.subtreeEnds[position] = positions.size - 1;
+    };
+    visit(this.root);
+    return (this.positions = positions);
+  }
+
+  /**
+   * Returns the range of preorder numbers occupied by an element and its
+   * descendants.
+   * @param el
+   * @return `[start, end]` (inclusive), or `undefined` if the element is not
+   *    in the document
+   */
+  getRange(el: T): [number, number] | undefined {
+    const start = this.build().get(el);
+    return start === undefined ? undefined : [start, this.subtreeEnds[start]];
+  }
+
+  /**
+   * Returns the descendants of an element (excluding the element itself) with
+   * the given tag name, in document order.
+   * @param el
+   * @param name Tag name (case-insensitive)
+   * @return Matching descendants, or `undefined` if the element is not in the
+   *    document
+   */
+  getDescendantsByName(el: T, name: string): T[] | undefined {
+    const range = this.getRange(el);
+    if (!range) return undefined;
+
+    const entry = this.elementsByName.get(name.toLowerCase());
+    if (!entry) return [];
+    const begin = lowerBound(entry.positions, range[0] + 1);
+    const end = lowerBound(entry.positions, range[1] + 1);
+    return entry.elements.slice(begin, end);
+  }
+}
+
+/**
+ * @param values Sorted array
+ * @param value
+ * @return Index of the first element that is not less than `value`
+ */
+function lowerBound(values: number[], value: number): number {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (values[mid] < value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
@@ -0,0 +1,225 @@
+/**
+ * @file Adapter that lets XPather evaluate selectors directly against the
+ * domhandler trees produced by cheerio and htmlparser2, without serializing
+ * them to XML and parsing them again with xmldom.
+ *
+ * Each domhandler node is wrapped in exactly one adapter, so that XPather can
+ * compare nodes by identity. The wrapped tree must NOT be modified after it
+ * has been wrapped, since the adapters cache their child lists.
+ */
+
+import type {
+  Element as DomhandlerElement,
+  Node as DomhandlerNode,
+  NodeWithChildren,
+} from 'domhandler';
+
+import type {XPatherAttr, XPatherElement, XPatherNode} from './xpather';
+
+const ELEMENT_NODE = 1;
+const ATTRIBUTE_NODE = 2;
+const TEXT_NODE = 3;
+const CDATA_SECTION_NODE = 4;
+const PROCESSING_INSTRUCTION_NODE = 7;
+const COMMENT_NODE = 8;
+const DOCUMENT_NODE = 9;
+
+/**
+ * Maps domhandler node types to DOM node types.
+ * Note that domhandler itself treats directives (e.g. `<!DOCTYPE html>`) as
+ * elements, which would make XPather select them.
+ */
+const NODE_TYPES: Record<string, number> = {
+  tag: ELEMENT_NODE,
+  script: ELEMENT_NODE,
+  style: ELEMENT_NODE,
+  text: TEXT_NODE,
+  cdata: CDATA_SECTION_NODE,
+  directive: PROCESSING_INSTRUCTION_NODE,
+  comment: COMMENT_NODE,
+  root: DOCUMENT_NODE,
+};
+
+const NODE_NAMES: Record<number, string> = {
+  [TEXT_NODE]: '#text',
+  [CDATA_SECTION_NODE]: '#cdata-section',
+  [COMMENT_NODE]: '#comment',
+  [DOCUMENT_NODE]: '#document',
+};
+
+/**
+ * List of nodes that can be accessed by index or with `item()`, like a DOM
+ * `NodeList`.
+ */
+type NodeList<T> = T[] & {item(index: number): T};
+
+function createNodeList<T>(items: T[]): NodeList<T> {
+  return Object.assign(items, {item: (index: number) => items[index]});
+}
+
+const adapters = new WeakMap<DomhandlerNode, DomhandlerNodeAdapter>();
+
+/**
+ * Wraps a domhandler node as an `XPatherNode`. Elements are wrapped by the
+ * `DomhandlerElementAdapter` subclass.
+ */
+export class DomhandlerNodeAdapter implements XPatherNode {
+  readonly ELEMENT_NODE = ELEMENT_NODE;
+  readonly nodeType: number;
+  private children?: NodeList<XPatherNode>;
+
+  /**
+   * Use `wrapDomhandlerNode()` instead, which ensures that each node is
+   * wrapped only once.
+   * @param node domhandler node
+   */
+  constructor(readonly node: DomhandlerNode) {
+    this.nodeType = NODE_TYPES[node.type] || ELEMENT_NODE;
+  }
+
+  get nodeName(): string {
+    return (
+      NODE_NAMES[this.nodeType] || (this.node as DomhandlerElement).name || ''
+    );
+  }
+
+  get parentNode(): XPatherNode | null {
+    return this.node.parent ? wrapDomhandlerNode(this.node.parent) : null;
+  }
+
+  get childNodes(): NodeList<XPatherNode> {
+    if (!this.children) {
+      const {children} = this.node as NodeWithChildren;
+      this.children = createNodeList(
+        children ? children.map(child => wrapDomhandlerNode(child)) : []
+      );
+    }
+    return this.children;
+  }
+
+  get textContent(): string | null {
+    switch (this.nodeType) {
+      case TEXT_NODE:
+      case COMMENT_NODE:
+      case PROCESSING_INSTRUCTION_NODE:
+        return (this.node as DomhandlerNode & {data: string}).data;
+      case DOCUMENT_NODE:
+        return null;
+      default:
+        return getText(this.node);
+    }
+  }
+}
+
+/**
+ * Wraps a domhandler element as an `XPatherElement`.
+ */
+export class DomhandlerElementAdapter
+  extends DomhandlerNodeAdapter
+  implements XPatherElement {
+  declare readonly node: DomhandlerElement;
+  private attributeList?: NodeList<XPatherAttr>;
+
+  get attributes(): NodeList<XPatherAttr> {
+    if (!this.attributeList) {
+      this.attributeList = createNodeList(
+        Object.keys(this.node.attribs).map(
+          name => new AttrAdapter(name, this.node.attribs[name])
+        )
+      );
+    }
+    return this.attributeList;
+  }
+
+  getAttribute(qualifiedName: string): string | null {
+    return this.hasAttribute(qualifiedName)
+      ? this.node.attribs[qualifiedName]
+      : null;
+  }
+
+  hasAttribute(qualifiedName: string): boolean {
+    return Object.prototype.hasOwnProperty.call(
+      this.node.attribs,
+      qualifiedName
+    );
+  }
+}
+
+/**
+ * Attribute of a wrapped element.
+ */
+class AttrAdapter implements XPatherAttr {
+  readonly ELEMENT_NODE = ELEMENT_NODE;
+  readonly nodeType = ATTRIBUTE_NODE;
+  readonly parentNode = null;
+  readonly childNodes = createNodeList<XPatherNode>([]);
+
+  constructor(readonly name: string, public value: string) {}
+
+  get nodeName(): string {
+    return this.name;
+  }
+
+  get textContent(): string {
+    return this.value;
+  }
+}
+
+/**
+ * Concatenates the text of all text and CDATA nodes inside a node, like the
+ * DOM `textContent` property.
+ */
+function getText(node: DomhandlerNode): string {
+  if (node.type === 'text') {
+    return (node as DomhandlerNode & {data: string}).data;
+  }
+  const {children} = node as NodeWithChildren;
+  if (!children) return '';
+  let text = '';
+  for (const child of children) {
+    if (child.type !== 'comment' && child.type !== 'directive') {
+      text += getText(child);
+    }
+  }
+  return text;
+}
+
+/**
+ * Wraps a domhandler node (e.g. one produced by cheerio) so that it can be
+ * passed to `evaluateXPath()` or `CompiledXPath.evaluate()`.
+ *
+ * Wrapping the same node twice returns the same adapter.
+ * @param node domhandler node. This must NOT be modified afterwards.
+ */
+export function wrapDomhandlerNode(
+  node: DomhandlerElement
+): DomhandlerElementAdapter;
+export function wrapDomhandlerNode(node: DomhandlerNode): DomhandlerNodeAdapter;
+export function wrapDomhandlerNode(
+  node: DomhandlerNode
+): DomhandlerNodeAdapter {
+  let adapter = adapters.get(node);
+  if (!adapter) {
+    adapter =
+      NODE_TYPES[node.type] === ELEMENT_NODE
+        ? new DomhandlerElementAdapter(node)
+        : new DomhandlerNodeAdapter(node);
+    adapters.set(node, adapter);
+  }
+  return adapter;
+}
+
+/**
+ * Returns the root element of a domhandler document, i.e. its first child
+ * element.
+ * @param document domhandler document (e.g. `$.root()[0]` in cheerio)
+ * @return Wrapped root element, or `null` if the document has no elements
+ */
+export function getDomhandlerDocumentElement(
+  document: NodeWithChildren
+): DomhandlerElementAdapter | null {
+  const root = document.children.find(
+    child => NODE_TYPES[child.type] === ELEMENT_NODE
+  );
+  return root ? wrapDomhandlerNode(root as DomhandlerElement) : null;
+}
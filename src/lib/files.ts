@@ -0,0 +1,77 @@
+/**
+ * @file Test helpers for seeding and inspecting the virtual file system.
+ *
+ * Unlike the file functions of KoLmafia, these helpers take paths relative to
+ * the KoLmafia directory (e.g. `scripts/foo.txt`), so a test decides which of
+ * `scripts/`, `relay/` or `data/` a script will find a file in. Seeding files
+ * is not recorded as a write, so `getFileWrites()` only lists what the code
+ * under test wrote.
+ */
+
+import {readdirSync, readFileSync, statSync} from 'fs';
+import {join} from 'path';
+
+import {resolveRuntime} from '../runtime/default-runtime';
+import type {FileWrite} from '../runtime/files';
+import type {KolmafiaRuntime} from '../runtime/runtime';
+
+/**
+ * Adds files to the virtual file system.
+ * @param files Contents of each file, keyed by path relative to the KoLmafia
+ *    directory (e.g. `{'data/foo.txt': '...'}`)
+ * @param runtime
+ * @throws {Error} If a path is invalid
+ */
+export function seedFiles(
+  files: Record<string, string>,
+  runtime?: KolmafiaRuntime
+): void {
+  const {state} = resolveRuntime(runtime);
+  for (const path of Object.keys(files)) {
+    state.files.seed(path, files[path]);
+  }
+}
+
+/**
+ * Adds every file in a directory on disk (including subdirectories) to the
+ * virtual file system.
+ * @param directory Directory of fixture files
+ * @param target Directory in the virtual file system to add the files to
+ * @param runtime
+ */
+export function loadFixtureFiles(
+  directory: string,
+  target = 'data',
+  runtime?: KolmafiaRuntime
+): void {
+  const {state} = resolveRuntime(runtime);
+  for (const name of readdirSync(directory)) {
+    const path = join(directory, name);
+    if (statSync(path).isDirectory()) {
+      loadFixtureFiles(path, `${target}/${name}`, runtime);
+    } else {
+      state.files.seed(`${target}/${name}`, readFileSync(path, 'utf8'));
+    }
+  }
+}
+
+/**
+ * Returns the contents of a file in the virtual file system.
+ * @param path Path relative to the KoLmafia directory, e.g. `data/foo.txt`
+ * @param runtime
+ * @return Contents of the file, or `undefined` if it does not exist
+ */
+export function getFile(
+  path: string,
+  runtime?: KolmafiaRuntime
+): string | undefined {
+  return resolveRuntime(runtime).state.files.read(path);
+}
+
+/**
+ * Returns every write made by `bufferToFile()` and `mapToFile()`, in order.
+ * @param runtime
+ */
+export function getFileWrites(runtime?: KolmafiaRuntime): readonly FileWrite[] {
+  return resolveRuntime(runtime).state.files.writes;
+}
@@ -0,0 +1,735 @@
+/**
+ * @file Cleans HTML the way HtmlCleaner 2.24 does, so that the structure of
+ * the cleaned document (and therefore the position of each node in it)
+ * matches what KoLmafia's `xpath()` function sees.
+ *
+ * This is not a port of HtmlCleaner, but a reimplementation of the rules that
+ * it applies to malformed markup:
+ *
+ * - Tags are balanced. End tags without a matching start tag are dropped, and
+ *   elements that are left open are closed implicitly (e.g. `<p>` closes an
+ *   open `<p>`, and `<td>` closes an open `<td>`).
+ * - Required parents are inserted (`<tbody>` around `<tr>`, `<tr>` around
+ *   `<td>`). Tags that need an enclosing element that is not open (e.g. `<td>`
+ *   outside of a `<table>`) are dropped, but their contents are kept.
+ * - The document is always wrapped in `<html>`, `<head>` and `<body>`.
+ *   Elements that belong in `<head>` are moved there.
+ * - Unknown tags are dropped, but their contents are kept.
+ * - Content that is not allowed inside a table (e.g. text or a `<div>` between
+ *   two rows) is moved before the table.
+ *
+ * The tag definitions are based on:
+ *    https://sourceforge.net/p/htmlcleaner/code/HEAD/tree/tags/htmlcleaner-2.24/src/main/java/org/htmlcleaner/DefaultTagProvider.java
+ */
+
+import {decodeHTML} from 'entities';
+
+// ----------------------------------------------------------------------------
+// Tag definitions
+// ----------------------------------------------------------------------------
+
+/**
+ * Describes how a tag is handled by the cleaner.
+ * This is a simplified version of HtmlCleaner's `TagInfo` class.
+ */
+interface TagInfo {
+  /**
+   * `none` for empty (void) elements, `text` for elements whose content is
+   * raw text (e.g. `<script>`), `all` for everything else
+   */
+  contentType: 'none' | 'text' | 'all';
+  /** Where the tag should be placed in the document */
+  belongsTo: 'head' | 'body' | 'head_and_body';
+  /** Open elements that are implicitly closed when this tag starts */
+  closeBefore: readonly string[];
+  /** Open elements that stop the search for elements to close */
+  closeScope: readonly string[];
+  /** Element that must enclose this tag, which is inserted if missing */
+  requiredParent?: string;
+  /** Open elements that can stand in for the required parent */
+  higherTags?: readonly string[];
+  /** If none of these elements are open, the tag is dropped */
+  fatalTags?: readonly string[];
+  /** If given, only these elements (and whitespace) are allowed as children */
+  allowedChildren?: readonly string[];
+}
+
+const TAGS = new Map<string, TagInfo>();
+
+/**
+ * Elements that stop the search for elements to implicitly close, unless a
+ * tag specifies otherwise.
+ */
+const DEFAULT_SCOPE = [
+  'applet',
+  'button',
+  'caption',
+  'marquee',
+  'object',
+  'table',
+  'td',
+  'th',
+];
+
+const TABLE_SECTION_CLOSE_BEFORE = [
+  'caption',
+  'colgroup',
+  'tbody',
+  'td',
+  'tfoot',
+  'th',
+  'thead',
+  'tr',
+];
+
+/**
+ * Defines one or more tags with the same TagInfo.
+ * @param names Comma-separated list of tag names
+ * @param info Properties that differ from the defaults
+ */
+function defineTags(names: string, info: Partial<TagInfo> = {}): void {
+  for (const name of names.split(',')) {
+    TAGS.set(name, {
+      contentType: 'all',
+      belongsTo: 'body',
+      closeBefore: [],
+      closeScope: DEFAULT_SCOPE,
+      ...info,
+    });
+  }
+}
+
+// Document structure
+defineTags('html,head,body');
+defineTags('title', {contentType: 'text', belongsTo: 'head'});
+defineTags('meta,link,base', {contentType: 'none', belongsTo: 'head'});
+defineTags('script,style', {contentType: 'text', belongsTo: 'head_and_body'});
+defineTags('noscript,template');
+
+// Inline and phrasing elements
+defineTags(
+  'abbr,acronym,b,bdi,bdo,big,blink,cite,code,data,del,dfn,em,font,i,ins,' +
+    'kbd,label,mark,nobr,q,rp,rt,ruby,s,samp,small,span,strike,strong,sub,' +
+    'sup,time,tt,u,var,audio,video,canvas,map,object,applet,iframe,' +
+    'noframes,noembed,frameset,layer,ilayer,nolayer,output,progress,meter,' +
+    'datalist,button,select,legend,picture,svg,math'
+);
+defineTags('a', {closeBefore: ['a']});
+defineTags(
+  'br,img,input,area,param,embed,wbr,frame,basefont,bgsound,keygen,' +
+    'source,track,spacer,isindex',
+  {contentType: 'none'}
+);
+defineTags('textarea', {contentType: 'text'});
+defineTags('option', {
+  closeBefore: ['option'],
+  closeScope: ['select', 'optgroup', 'datalist'],
+});
+defineTags('optgroup', {
+  closeBefore: ['option', 'optgroup'],
+  closeScope: ['select'],
+});
+
+// Block elements, which implicitly close an open paragraph
+defineTags(
+  'address,article,aside,blockquote,center,details,dialog,dir,div,dl,' +
+    'fieldset,figcaption,figure,footer,header,hgroup,main,menu,nav,ol,p,' +
+    'pre,section,summary,ul,listing,xmp,marquee',
+  {closeBefore: ['p']}
+);
+defineTags('hr', {contentType: 'none', closeBefore: ['p']});
+defineTags('h1,h2,h3,h4,h5,h6', {
+  closeBefore: ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'],
+});
+defineTags('form', {closeBefore: ['p', 'form']});
+defineTags('li', {
+  closeBefore: ['li', 'p'],
+  closeScope: ['ul', 'ol', 'menu', 'dir', ...DEFAULT_SCOPE],
+});
+defineTags('dt,dd', {
+  closeBefore: ['dt', 'dd', 'p'],
+  closeScope: ['dl', ...DEFAULT_SCOPE],
+});
+
+// Tables
+defineTags('table', {
+  closeBefore: ['p'],
+  allowedChildren: [
+    'caption',
+    'col',
+    'colgroup',
+    'form',
+    'script',
+    'style',
+    'tbody',
+    'template',
+    'tfoot',
+    'thead',
+    'tr',
+  ],
+});
+defineTags('caption', {
+  closeBefore: TABLE_SECTION_CLOSE_BEFORE,
+  closeScope: ['table'],
+  fatalTags: ['table'],
+});
+defineTags('colgroup', {
+  closeBefore: TABLE_SECTION_CLOSE_BEFORE,
+  closeScope: ['table'],
+  fatalTags: ['table'],
+  allowedChildren: ['col'],
+});
+defineTags('col', {contentType: 'none', fatalTags: ['table']});
+defineTags('thead,tbody,tfoot', {
+  closeBefore: TABLE_SECTION_CLOSE_BEFORE,
+  closeScope: ['table'],
+  fatalTags: ['table'],
+  allowedChildren: ['form', 'script', 'style', 'template', 'tr'],
+});
+defineTags('tr', {
+  closeBefore: ['caption', 'colgroup', 'td', 'th', 'tr'],
+  closeScope: ['table', 'tbody', 'tfoot', 'thead'],
+  fatalTags: ['table'],
+  requiredParent: 'tbody',
+  higherTags: ['thead', 'tfoot'],
+  allowedChildren: ['form', 'script', 'style', 'td', 'template', 'th'],
+});
+defineTags('td,th', {
+  closeBefore: ['caption', 'colgroup', 'td', 'th'],
+  closeScope: ['table', 'tbody', 'tfoot', 'thead', 'tr'],
+  fatalTags: ['table'],
+  requiredParent: 'tr',
+});
+
+/** Table elements whose end tags can close elements across table cells */
+const TABLE_TAGS = [
+  'caption',
+  'colgroup',
+  'table',
+  'tbody',
+  'td',
+  'tfoot',
+  'th',
+  'thead',
+  'tr',
+];
+
+/** Open elements that stop the search for the start tag of an end tag */
+const END_TAG_SCOPE = ['caption', 'table', 'td', 'th'];
+
+// ----------------------------------------------------------------------------
+// Document tree
+// ----------------------------------------------------------------------------
+
+interface CleanElement {
+  type: 'element';
+  name: string;
+  attributes: Map<string, string>;
+  children: CleanNode[];
+  parent: CleanElement | null;
+}
+
+interface CleanText {
+  type: 'text';
+  text: string;
+}
+
+interface CleanComment {
+  type: 'comment';
+  text: string;
+}
+
+type CleanNode = CleanElement | CleanText | CleanComment;
+
+function createElement(
+  name: string,
+  attributes: Map<string, string> = new Map()
+): CleanElement {
+  return {type: 'element', name, attributes, children: [], parent: null};
+}
+
+// ----------------------------------------------------------------------------
+// Tokenizer
+// ----------------------------------------------------------------------------
+
+type Token =
+  | {
+      type: 'start';
+      name: string;
+      attributes: Map<string, string>;
+      selfClosing: boolean;
+    }
+  | {type: 'end'; name: string}
+  | {type: 'text'; text: string}
+  | {type: 'comment'; text: string};
+
+/** Tags whose content is not parsed as HTML */
+const RAW_TEXT_TAGS = ['script', 'style', 'textarea', 'title'];
+
+/** Tags whose raw content may contain character references */
+const ESCAPABLE_RAW_TEXT_TAGS = ['textarea', 'title'];
+
+/**
+ * Splits HTML markup into tokens.
+ * @param html HTML markup
+ */
+function* tokenize(html: string): IterableIterator<Token> {
+  const tagPattern = /<(\/?)([a-zA-Z][^\s/>]*)/y;
+  const attrPattern = /[\s/]*([^\s"'>/=][^\s"'>/=]*)(?:\s*=\s*("[^"]*"?|'[^']*'?|[^\s>]*))?/y;
+  let pos = 0;
+  let textStart = 0;
+
+  while (pos < html.length) {
+    const lt = html.indexOf('<', pos);
+    if (lt === -1) break;
+
+    if (html.startsWith('<!--', lt)) {
+      if (textStart < lt) yield textToken(html.slice(textStart, lt));
+      const end = html.indexOf('-->', lt + 4);
+      yield {
+        type: 'comment',
+        text: html.slice(lt + 4, end === -1 ? html.length : end),
+      };
+      pos = textStart = end === -1 ? html.length : end + 3;
+      continue;
+    }
+
+    if (html.startsWith('<!', lt) || html.startsWith('<?', lt)) {
+      // Doctypes, CDATA sections and processing instructions are dropped
+      if (textStart < lt) yield textToken(html.slice(textStart, lt));
+      const end = html.indexOf('>', lt);
+      pos = textStart = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    tagPattern.lastIndex = lt;
+    const tagMatch = tagPattern.exec(html);
+    if (!tagMatch) {
+      // Not a tag; treat '<' as text
+      pos = lt + 1;
+      continue;
+    }
+
+    if (textStart < lt) yield textToken(html.slice(textStart, lt));
+    const isEndTag = tagMatch[1] === '/';
+    const name = tagMatch[2].toLowerCase();
+    pos = tagPattern.lastIndex;
+
+    // Parse attributes
+    const attributes = new Map<string, string>();
+    let selfClosing = false;
+    for (;;) {
+      attrPattern.lastIndex = pos;
+      const attrMatch = attrPattern.exec(html);
+      if (!attrMatch || attrMatch[0].length === 0) break;
+      pos = attrPattern.lastIndex;
+
+      const attrName = attrMatch[1].toLowerCase();
+      let value = attrMatch[2];
+      if (value === undefined) {
+        // HtmlCleaner uses the attribute name as the value of boolean
+        // attributes, e.g. <input checked> becomes <input checked="checked">
+        value = attrName;
+      } else if (value.startsWith('"') || value.startsWith("'")) {
+        value = value.slice(1, value.endsWith(value[0]) ? -1 : undefined);
+      }
+      if (isValidAttributeName(attrName) && !attributes.has(attrName)) {
+        attributes.set(attrName, decodeHTML(value));
+      }
+    }
+    const gt = html.indexOf('>', pos);
+    if (gt === -1) {
+      pos = html.length;
+    } else {
+      selfClosing = html.slice(pos, gt).trim() === '/';
+      pos = gt + 1;
+    }
+    textStart = pos;
+
+    if (isEndTag) {
+      yield {type: 'end', name};
+      continue;
+    }
+
+    yield {type: 'start', name, attributes, selfClosing};
+
+    if (RAW_TEXT_TAGS.includes(name) && !selfClosing) {
+      const endPattern = new RegExp(`</${name}[\\s/>]`, 'ig');
+      endPattern.lastIndex = pos;
+      const endMatch = endPattern.exec(html);
+      const end = endMatch ? endMatch.index : html.length;
+      const text = html.slice(pos, end);
+      if (text) {
+        yield {
+          type: 'text',
+          text: ESCAPABLE_RAW_TEXT_TAGS.includes(name)
+            ? decodeHTML(text)
+            : text,
+        };
+      }
+      yield {type: 'end', name};
+      const gtAfter = endMatch ? html.indexOf('>', end) : -1;
+      pos = textStart = gtAfter === -1 ? html.length : gtAfter + 1;
+    }
+  }
+
+  if (textStart < html.length) yield textToken(html.slice(textStart));
+}
+
+function textToken(rawText: string): Token {
+  return {type: 'text', text: decodeHTML(rawText)};
+}
+
+/**
+ * Checks if the attribute name can be used in an XML document.
+ * Namespaced attributes are rejected, since the cleaned document does not
+ * declare any namespaces.
+ */
+function isValidAttributeName(name: string): boolean {
+  return /^[a-z_][\w.-]*$/i.test(name);
+}
+
+// ----------------------------------------------------------------------------
+// Tree builder
+// ----------------------------------------------------------------------------
+
+/**
+ * Builds a balanced document tree from a stream of tokens.
+ */
+class TreeBuilder {
+  readonly html = createElement('html');
+  private readonly head = createElement('head');
+  private readonly body = createElement('body');
+  /** Stack of open elements. The bottom of the stack is always `<body>`. */
+  private readonly openElements: CleanElement[] = [this.body];
+  /** Whether any content has been added to `<body>` */
+  private isBodyStarted = false;
+
+  constructor() {
+    this.appendChild(this.html, this.head);
+    this.appendChild(this.html, this.body);
+  }
+
+  process(token: Token): void {
+    switch (token.type) {
+      case 'start':
+        this.processStartTag(token.name, token.attributes, token.selfClosing);
+        break;
+      case 'end':
+        this.processEndTag(token.name);
+        break;
+      case 'text':
+        this.processText(token.text);
+        break;
+      case 'comment':
+        this.insert({type: 'comment', text: token.text}, !this.isBodyStarted);
+        break;
+    }
+  }
+
+  private get currentElement(): CleanElement {
+    return this.openElements[this.openElements.length - 1];
+  }
+
+  private processStartTag(
+    name: string,
+    attributes: Map<string, string>,
+    selfClosing: boolean
+  ): void {
+    const info = TAGS.get(name);
+    if (!info) {
+      // Unknown tags are dropped
+      return;
+    }
+
+    if (name === 'html' || name === 'head' || name === 'body') {
+      const target =
+        name === 'html' ? this.html : name === 'head' ? this.head : this.body;
+      mergeAttributes(target, attributes);
+      if (name === 'body') this.isBodyStarted = true;
+      return;
+    }
+
+    if (info.belongsTo === 'head') {
+      this.openHeadElement(name, attributes, info, selfClosing);
+      return;
+    }
+    if (info.belongsTo === 'head_and_body' && !this.isBodyStarted) {
+      this.openHeadElement(name, attributes, info, selfClosing);
+      return;
+    }
+
+    if (info.fatalTags && this.findOpenElement(info.fatalTags, []) === -1) {
+      // The tag cannot appear here, e.g. <td> outside of a table
+      return;
+    }
+
+    this.closeImplicitly(info);
+
+    if (
+      info.requiredParent &&
+      this.findOpenElement(
+        [info.requiredParent, ...(info.higherTags || [])],
+        info.fatalTags || []
+      ) === -1
+    ) {
+      this.processStartTag(info.requiredParent, new Map(), false);
+    }
+
+    const element = createElement(name, attributes);
+    this.insert(element, false);
+    if (info.contentType !== 'none' && !selfClosing) {
+      this.openElements.push(element);
+    }
+  }
+
+  /**
+   * Adds an element to <head>. Since all tags that belong in <head> are
+   * either empty or contain raw text, they are never left open.
+   */
+  private openHeadElement(
+    name: string,
+    attributes: Map<string, string>,
+    info: TagInfo,
+    selfClosing: boolean
+  ): void {
+    const element = createElement(name, attributes);
+    this.appendChild(this.head, element);
+    if (info.contentType !== 'none' && !selfClosing) {
+      this.openElements.push(element);
+    }
+  }
+
+  /**
+   * Closes open elements that cannot contain an element described by `info`.
+   */
+  private closeImplicitly(info: TagInfo): void {
+    let closeIndex = -1;
+    for (let i = this.openElements.length - 1; i > 0; --i) {
+      const openName = this.openElements[i].name;
+      if (info.closeBefore.includes(openName)) {
+        closeIndex = i;
+      } else if (info.closeScope.includes(openName)) {
+        break;
+      }
+    }
+    if (closeIndex !== -1) {
+      this.openElements.length = closeIndex;
+    }
+  }
+
+  private processEndTag(name: string): void {
+    const info = TAGS.get(name);
+    if (
+      !info ||
+      info.contentType === 'none' ||
+      name === 'html' ||
+      name === 'head' ||
+      name === 'body'
+    ) {
+      return;
+    }
+
+    const scope = TABLE_TAGS.includes(name)
+      ? name === 'table'
+        ? []
+        : ['table']
+      : END_TAG_SCOPE;
+    const index = this.findOpenElement([name], scope);
+    if (index !== -1) {
+      this.openElements.length = index;
+    }
+  }
+
+  private processText(text: string): void {
+    const isWhitespace = text.trim() === '';
+    if (isWhitespace && !this.isBodyStarted && this.openElements.length === 1) {
+      // Ignore whitespace before the body content begins
+      return;
+    }
+    this.insert({type: 'text', text}, false);
+  }
+
+  /**
+   * Inserts a node into the current element. If the current element does not
+   * allow the node as a child (e.g. text directly inside a `<table>`), the
+   * node is inserted before the outermost element that does not allow it.
+   * @param node
+   * @param toHead If true, the node is added to `<head>` instead.
+   */
+  private insert(node: CleanNode, toHead: boolean): void {
+    if (toHead) {
+      this.appendChild(this.head, node);
+      return;
+    }
+
+    let fosterIndex = -1;
+    const currentInfo = TAGS.get(this.currentElement.name);
+    if (
+      currentInfo &&
+      currentInfo.allowedChildren &&
+      !isAllowedChild(node, currentInfo.allowedChildren)
+    ) {
+      // Find the outermost element in the chain of table elements
+      fosterIndex = this.openElements.length - 1;
+      while (
+        fosterIndex > 1 &&
+        hasAllowedChildren(this.openElements[fosterIndex - 1])
+      ) {
+        --fosterIndex;
+      }
+    }
+
+    if (fosterIndex === -1) {
+      this.appendChild(this.currentElement, node);
+    } else {
+      const table = this.openElements[fosterIndex];
+      const parent = table.parent as CleanElement;
+      const index = parent.children.indexOf(table);
+      const previous = parent.children[index - 1];
+      if (node.type === 'text' && previous && previous.type === 'text') {
+        previous.text += node.text;
+      } else {
+        parent.children.splice(index, 0, node);
+        if (node.type === 'element') node.parent = parent;
+      }
+    }
+
+    if (
+      node.type !== 'comment' &&
+      !(node.type === 'text' && !node.text.trim())
+    ) {
+      this.isBodyStarted = true;
+    }
+  }
+
+  private appendChild(parent: CleanElement, node: CleanNode): void {
+    const last = parent.children[parent.children.length - 1];
+    if (node.type === 'text' && last && last.type === 'text') {
+      last.text += node.text;
+      return;
+    }
+    parent.children.push(node);
+    if (node.type === 'element') node.parent = parent;
+  }
+
+  /**
+   * Searches the stack of open elements from the top.
+   * @param names Names of elements to search for
+   * @param scope Names of elements that stop the search
+   * @return Index of the first element found, or -1 if none was found before
+   *    reaching an element in `scope`
+   */
+  private findOpenElement(
+    names: readonly string[],
+    scope: readonly string[]
+  ): number {
+    for (let i = this.openElements.length - 1; i > 0; --i) {
+      const openName = this.openElements[i].name;
+      if (names.includes(openName)) return i;
+      if (scope.includes(openName)) break;
+    }
+    return -1;
+  }
+}
+
+function hasAllowedChildren(element: CleanElement): boolean {
+  const info = TAGS.get(element.name);
+  return Boolean(info && info.allowedChildren);
+}
+
+function isAllowedChild(
+  node: CleanNode,
+  allowedChildren: readonly string[]
+): boolean {
+  switch (node.type) {
+    case 'element':
+      return allowedChildren.includes(node.name);
+    case 'text':
+      return node.text.trim() === '';
+    case 'comment':
+      return true;
+  }
+}
+
+function mergeAttributes(
+  target: CleanElement,
+  attributes: Map<string, string>
+): void {
+  for (const [name, value] of attributes) {
+    if (!target.attributes.has(name)) {
+      target.attributes.set(name, value);
+    }
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Serializer
+// ----------------------------------------------------------------------------
+
+/**
+ * Serializes a node as XML that can be parsed by strict DOM parsers.
+ */
+function toXml(node: CleanNode): string {
+  switch (node.type) {
+    case 'text':
+      return escapeXml(node.text, false);
+    case 'comment':
+      return `<!--${stripInvalidChars(node.text).replace(/--/g, '- -')}-->`;
+    case 'element': {
+      let xml = '<' + node.name;
+      for (const [name, value] of node.attributes) {
+        xml += ` ${name}="${escapeXml(value, true)}"`;
+      }
+      const info = TAGS.get(node.name);
+      if (info && info.contentType === 'none') {
+        return xml + '/>';
+      }
+      return `${xml}>${node.children.map(toXml).join('')}</${node.name}>`;
+    }
+  }
+}
+
+function escapeXml(text: string, isAttribute: boolean): string {
+  const escaped = stripInvalidChars(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+  return isAttribute ? escaped.replace(/"/g, '&quot;') : escaped;
+}
+
+/**
+ * Returns whether a character is allowed in XML documents, i.e. is not a
+ * control character other than tab, line feed and carriage return, nor one of
+ * the noncharacters U+FFFE and U+FFFF.
+ */
+function isValidXmlChar(ch: string): boolean {
+  const code = ch.charCodeAt(0);
+  if (code < 0x20) return code === 0x09 || code === 0x0a || code === 0x0d;
+  return code !== 0xfffe && code !== 0xffff;
+}
+
+/**
+ * Removes characters that are not allowed in XML documents.
+ */
+function stripInvalidChars(text: string): string {
+  return Array.from(text).filter(isValidXmlChar).join('');
+}
+
+/**
+ * Cleans the given HTML using the same rules as HtmlCleaner 2.24, so that it
+ * can be parsed by strict DOM parsers (e.g. xmldom).
+ *
+ * Unlike `cleanHtml()`, this reproduces the document structure that KoLmafia
+ * builds from malformed markup, such as unclosed `<td>` tags, stray end tags,
+ * and `<form>` tags inside tables.
+ * @param html HTML markup
+ * @return XML markup of the cleaned document, whose root element is `<html>`
+ */
+export function cleanHtmlLikeHtmlCleaner(html: string): string {
+  const builder = new TreeBuilder();
+  for (const token of tokenize(html)) {
+    builder.process(token);
+  }
+  return toXml(builder.html);
+}
@@ -0,0 +1,108 @@
+/**
+ * @file Serializes elements the way KoLmafia's `xpath()` function does.
+ *
+ * KoLmafia converts matched elements to strings with HtmlCleaner's
+ * `SimpleXmlSerializer`, configured by `HTMLParserUtils.configureDefaultParser()`
+ * (no XML declaration, special entities are not translated). Its output
+ * differs from xmldom's `XMLSerializer` in several ways:
+ *
+ * - Elements without children use the minimized syntax with a space before
+ *   the slash: `<br />`, `<td />`
+ * - Quotes and apostrophes are escaped in both text and attribute values
+ *   (`&quot;`, `&apos;`), as is `>`
+ * - Non-breaking spaces are written as `&nbsp;`, since KoLmafia keeps the
+ *   entity as-is instead of decoding it
+ * - The contents of `<script>` and `<style>` are wrapped in a CDATA section
+ *   that is commented out for JavaScript/CSS, and are not escaped
+ *
+ * Since the document has already been parsed (and its entities decoded) by
+ * the time it is serialized, entities other than `&nbsp;`, `&amp;`, `&lt;`,
+ * `&gt;`, `&quot;` and `&apos;` are written as the characters they represent.
+ *
+ * This is based on:
+ *    https://sourceforge.net/p/htmlcleaner/code/HEAD/tree/tags/htmlcleaner-2.24/src/main/java/org/htmlcleaner/SimpleXmlSerializer.java
+ *    https://sourceforge.net/p/htmlcleaner/code/HEAD/tree/tags/htmlcleaner-2.24/src/main/java/org/htmlcleaner/XmlSerializer.java
+ */
+
+import {unwrapScript} from './clean-html';
+import type {XPatherElement, XPatherNode} from './xpather';
+
+const TEXT_NODE = 3;
+const CDATA_SECTION_NODE = 4;
+const COMMENT_NODE = 8;
+
+/** Tags whose contents are wrapped in CDATA sections */
+const CDATA_TAGS = ['script', 'style'];
+
+const SAFE_BEGIN_CDATA = '/*<![CDATA[*/';
+const SAFE_END_CDATA = '/*]]>*/';
+
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+  '\u00a0': '&nbsp;',
+};
+
+/**
+ * Escapes text or an attribute value like HtmlCleaner's `Utils.escapeXml()`.
+ * @param text
+ */
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"'\u00a0]/g, ch => ESCAPES[ch]);
+}
+
+function serializeNode(node: XPatherNode, isInCdataTag: boolean): string {
+  if (node.nodeType === node.ELEMENT_NODE) {
+    return serializeElement(node as XPatherElement);
+  }
+
+  const content = node.textContent || '';
+  switch (node.nodeType) {
+    case TEXT_NODE:
+    case CDATA_SECTION_NODE:
+      return isInCdataTag
+        ? content.replace(/]]>/g, ']]&gt;')
+        : escapeXml(content);
+    case COMMENT_NODE:
+      return `<!--${content}-->`;
+    default:
+      return '';
+  }
+}
+
+function serializeElement(el: XPatherElement): string {
+  const tagName = el.nodeName.toLowerCase();
+  let xml = '<' + tagName;
+  for (let i = 0; i < el.attributes.length; ++i) {
+    const attr = el.attributes[i];
+    xml += ` ${attr.name}="${escapeXml(attr.value)}"`;
+  }
+
+  if (el.childNodes.length === 0) {
+    return xml + ' />';
+  }
+
+  const isCdataTag = CDATA_TAGS.includes(tagName);
+  let content = '';
+  for (let i = 0; i < el.childNodes.length; ++i) {
+    content += serializeNode(el.childNodes[i], isCdataTag);
+  }
+  // KoLmafia never sees the comments that cleanHtml() wraps scripts in
+  if (tagName === 'script') content = unwrapScript(content);
+  if (isCdataTag && !content.trim().startsWith('<![CDATA[')) {
+    content = SAFE_BEGIN_CDATA + content + SAFE_END_CDATA;
+  }
+
+  return `${xml}>${content}</${tagName}>`;
+}
+
+/**
+ * Serializes an element exactly as KoLmafia's `xpath()` function does.
+ * @param el Element to serialize
+ */
+export function serializeLikeHtmlCleaner(el: XPatherElement): string {
+  return serializeElement(el);
+}
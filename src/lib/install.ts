@@ -0,0 +1,75 @@
+/**
+ * @file Registers the stubs in `src/kolmafia/` as the `kolmafia` module, so
+ * that code under test can `require('kolmafia')` without a module-mocking
+ * library.
+ *
+ * This only affects CommonJS `require()`. ES modules must be loaded with the
+ * loader hook in `loader.mjs` instead, since Node.js does not allow ESM
+ * resolution to be changed at runtime.
+ */
+
+import Module = require('module');
+
+/** Name of the module provided by KoLmafia */
+const MODULE_NAME = 'kolmafia';
+
+type ResolveFilename = (request: string, ...args: unknown[]) => string;
+
+/** Internal API of Node.js that resolves module names to file paths */
+const moduleInternals = (Module as unknown) as {
+  _resolveFilename: ResolveFilename;
+};
+
+/** Original `Module._resolveFilename()`, or `null` if not installed */
+let originalResolveFilename: ResolveFilename | null = null;
+
+/**
+ * Module of the stubs, removed from `require.cache` by
+ * `uninstallKolmafiaStubs()`. It is put back on the next install, so that
+ * `require('kolmafia')` keeps returning the same exports.
+ */
+let uninstalledModule: NodeModule | undefined;
+
+/**
+ * Makes `require('kolmafia')` return the stubs provided by this package.
+ * Calling this more than once has no effect.
+ * @return Function that uninstalls the stubs
+ */
+export function installKolmafiaStubs(): () => void {
+  if (!originalResolveFilename) {
+    const original = moduleInternals._resolveFilename;
+    const stubsPath = require.resolve('../kolmafia');
+    if (uninstalledModule && !require.cache[stubsPath]) {
+      require.cache[stubsPath] = uninstalledModule;
+    }
+    uninstalledModule = undefined;
+    moduleInternals._resolveFilename = function (
+      this: unknown,
+      request: string,
+      ...args: unknown[]
+    ) {
+      return request === MODULE_NAME
+        ? stubsPath
+        : original.call(this, request, ...args);
+    };
+    originalResolveFilename = original;
+  }
+  return uninstallKolmafiaStubs;
+}
+
+/**
+ * Undoes `installKolmafiaStubs()`, so that `require('kolmafia')` fails again.
+ * Modules that have already loaded the stubs keep the exports they received.
+ * Calling this when the stubs are not installed has no effect.
+ */
+export function uninstallKolmafiaStubs(): void {
+  if (originalResolveFilename) {
+    moduleInternals._resolveFilename = originalResolveFilename;
+    originalResolveFilename = null;
+    // Node.js caches the file that a module resolved 'kolmafia' to, and
+    // reuses it as long as that file is in require.cache
+    const stubsPath = require.resolve('../kolmafia');
+    uninstalledModule = require.cache[stubsPath];
+    delete require.cache[stubsPath];
+  }
+}
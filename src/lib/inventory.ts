@@ -0,0 +1,53 @@
+/**
+ * @file Test helpers for setting up and inspecting the items of a character.
+ *
+ * Items added or removed with `addItems()` bypass the KoLmafia functions, so
+ * they are not listed by `getInventoryActions()`. This keeps the setup of a
+ * test out of the actions that its assertions look at.
+ */
+
+import {resolveRuntime} from '../runtime/default-runtime';
+import type {InventoryAction, ItemLocation} from '../runtime/inventory';
+import type {KolmafiaRuntime} from '../runtime/runtime';
+
+/**
+ * Adds items to a location, or removes them if their number is negative.
+ * @param items Number of each item, keyed by name or id
+ * @param location
+ * @param runtime
+ * @throws {Error} If an item does not exist, or if there are not enough
+ *    items to remove
+ */
+export function addItems(
+  items: Record<string, number>,
+  location: ItemLocation = 'inventory',
+  runtime?: KolmafiaRuntime
+): void {
+  const {inventory} = resolveRuntime(runtime).state;
+  for (const name of Object.keys(items)) {
+    inventory.add(location, name, items[name]);
+  }
+}
+
+/**
+ * Returns all items in a location, keyed by name.
+ * @param location
+ * @param runtime
+ */
+export function getItems(
+  location: ItemLocation = 'inventory',
+  runtime?: KolmafiaRuntime
+): Record<string, number> {
+  return resolveRuntime(runtime).state.inventory.getItems(location);
+}
+
+/**
+ * Returns every successful action that moved or consumed items or meat, in
+ * order.
+ * @param runtime
+ */
+export function getInventoryActions(
+  runtime?: KolmafiaRuntime
+): readonly InventoryAction[] {
+  return resolveRuntime(runtime).state.inventory.actions;
+}
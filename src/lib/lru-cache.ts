@@ -0,0 +1,76 @@
+/**
+ * Minimal least-recently-used cache.
+ * This relies on `Map` preserving insertion order: the first key in the map is
+ * always the least recently used one.
+ */
+export class LruCache<K, V> {
+  private readonly map = new Map<K, V>();
+
+  /**
+   * @param maxSize Maximum number of entries to keep. If this is 0 or less,
+   *    the cache does not store anything.
+   */
+  constructor(private maxSize: number) {}
+
+  /** Number of entries currently stored in the cache. */
+  get size(): number {
+    return this.map.size;
+  }
+
+  /** Maximum number of entries that the cache can hold. */
+  get capacity(): number {
+    return this.maxSize;
+  }
+
+  /**
+   * Retrieves a value and marks it as the most recently used entry.
+   * @param key
+   * @return Cached value, or `undefined` if the key is not in the cache
+   */
+  get(key: K): V | undefined {
+    if (!this.map.has(key)) {
+      return undefined;
+    }
+    const value = this.map.get(key) as V;
+    this.map.delete(key);
+    this.map.set(key, value);
+    return value;
+  }
+
+  /**
+   * Stores a value, evicting the least recently used entries if needed.
+   * @param key
+   * @param value
+   */
+  set(key: K, value: V): void {
+    this.map.delete(key);
+    if (this.maxSize <= 0) {
+      return;
+    }
+    this.map.set(key, value);
+    this.evict();
+  }
+
+  /** Removes all entries from the cache. */
+  clear(): void {
+    this.map.clear();
+  }
+
+  /**
+   * Changes the maximum size of the cache, evicting entries if needed.
+   * @param maxSize New maximum size. If this is 0 or less, the cache is
+   *    cleared and disabled.
+   */
+  resize(maxSize: number): void {
+    this.maxSize = maxSize;
+    this.evict();
+  }
+
+  private evict(): void {
+    const maxSize = Math.max(this.maxSize, 0);
+    for (const key of this.map.keys()) {
+      if (this.map.size <= maxSize) break;
+      this.map.delete(key);
+    }
+  }
+}
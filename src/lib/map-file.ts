@@ -0,0 +1,136 @@
+/**
+ * @file Converts between JavaScript objects and the tab-separated format that
+ * KoLmafia's `map_to_file()` and `file_to_map()` use for aggregates.
+ *
+ * Each line of a map file holds the keys of one value, followed by the value
+ * itself, e.g. `Seal Clubber\t1\tseal-clubbing club` for
+ * `{'Seal Clubber': {1: 'seal-clubbing club'}}`. Arrays are treated as
+ * records: in compact mode, their fields follow the keys on the same line;
+ * otherwise, each field is written on its own line, prefixed by the keys.
+ *
+ * KoLmafia uses the declared type of the map to read a file. Since JavaScript
+ * objects have no such type, `parseMap()` uses the shape of the values that
+ * the map already holds (see `getMapShape()`). If the map is empty, it treats
+ * every field but the last as a key, and collects values with the same keys
+ * (such as the fields of non-compact records) into arrays. Values are always
+ * read as strings.
+ */
+
+import {escapeField, unescapeField} from './data-file';
+
+/** Value stored in a map file */
+export type MapFileValue = string | number | boolean;
+
+/** Object that can be written to a map file */
+export interface MapFileObject {
+  [key: string]: MapFileValue | MapFileValue[] | MapFileObject;
+}
+
+/**
+ * Shape of the values of a map, which tells how to split each line of a map
+ * file into keys and fields.
+ */
+export interface MapFileShape {
+  /** Number of keys before each value */
+  keys: number;
+  /** Whether values are records (arrays of fields) */
+  record: boolean;
+}
+
+function isMapObject(value: unknown): value is MapFileObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns the shape of the values of a map, based on its first value.
+ * @param map
+ * @return The shape, or `undefined` if the map holds no values
+ */
+export function getMapShape(map: MapFileObject): MapFileShape | undefined {
+  let value: MapFileObject[string] = map;
+  let keys = 0;
+  while (isMapObject(value)) {
+    const first: string | undefined = Object.keys(value)[0];
+    if (first === undefined) return undefined;
+    value = value[first];
+    ++keys;
+  }
+  return {keys, record: Array.isArray(value)};
+}
+
+/**
+ * Converts an object to the contents of a map file.
+ * @param map
+ * @param compact Whether to write the fields of records (arrays) on one line
+ */
+export function serializeMap(map: MapFileObject, compact = true): string {
+  const lines: string[] = [];
+  const visit = (value: MapFileObject[string], keys: string[]) => {
+    if (isMapObject(value)) {
+      for (const key of Object.keys(value)) {
+        visit(value[key], [...keys, escapeField(key)]);
+      }
+    } else if (Array.isArray(value)) {
+      const fields = value.map(field => escapeField(String(field)));
+      if (compact) {
+        lines.push([...keys, ...fields].join('\t'));
+      } else {
+        for (const field of fields) lines.push([...keys, field].join('\t'));
+      }
+    } else {
+      lines.push([...keys, escapeField(String(value))].join('\t'));
+    }
+  };
+  visit(map, []);
+  return lines.map(line => line + '\n').join('');
+}
+
+/**
+ * Parses the contents of a map file into nested objects.
+ * @param text
+ * @param map Object to add the values to. Existing values with the same keys
+ *    are replaced
+ * @param shape Shape of the values. By default, the shape of the values in
+ *    `map` is used. If it is empty, every field but the last is a key
+ * @return `map`
+ */
+export function parseMap(
+  text: string,
+  map: MapFileObject = {},
+  shape = getMapShape(map)
+): MapFileObject {
+  /** Keys of the values read so far, joined by tabs */
+  const seen = new Set<string>();
+  for (const line of text.split(/\r?\n/)) {
+    if (line === '') continue;
+    const fields = line.split('\t').map(unescapeField);
+    const keyCount = shape ? shape.keys : fields.length - 1;
+    if (fields.length <= keyCount) continue;
+    const keys = fields.slice(0, keyCount);
+    const values = fields.slice(keyCount);
+    const path = keys.join('\t');
+
+    let target = map;
+    for (const key of keys.slice(0, -1)) {
+      const next = target[key];
+      if (!isMapObject(next)) target[key] = {};
+      target = target[key] as MapFileObject;
+    }
+
+    const key = keys.length ? keys[keys.length - 1] : '';
+    const existing = target[key];
+    if (shape && shape.record) {
+      // The fields of non-compact records are on lines with the same keys
+      if (seen.has(path) && Array.isArray(existing)) existing.push(...values);
+      else target[key] = values;
+    } else if (!seen.has(path) || isMapObject(existing)) {
+      target[key] = values.join('\t');
+    } else if (Array.isArray(existing)) {
+      existing.push(values.join('\t'));
+    } else {
+      target[key] = [existing, values.join('\t')];
+    }
+    seen.add(path);
+  }
+  return map;
+}
@@ -0,0 +1,395 @@
+/**
+ * @file Custom matchers for asserting on pages, printed output, preferences,
+ * items and XPath errors. The matchers are written once, and adapted to
+ * Jasmine (`jasmine.addMatchers(jasmineMatchers)`) and Jest
+ * (`expect.extend(jestMatchers)`).
+ *
+ * Matchers that observe side effects take a function as the actual value,
+ * call it, and inspect what it did to the default runtime.
+ */
+
+import {inspect} from 'util';
+import {getDefaultRuntime} from '../runtime/default-runtime';
+import {getEntity, Item} from '../runtime/game-types';
+import {evaluateHtml, serializeResult, XPathOptions} from './xpath-pipeline';
+import {
+  isElement,
+  XPatherElement,
+  XPatherException,
+  XPatherResult,
+} from './xpather';
+
+/** Maximum length of an HTML snippet in a failure message */
+const MAX_SNIPPET_LENGTH = 300;
+
+/**
+ * Outcome of a matcher.
+ */
+export interface MatcherOutcome {
+  /** Whether the actual value matched */
+  pass: boolean;
+  /** Explains the failure of a positive expectation */
+  message: string;
+  /** Explains the failure of a negated expectation (e.g. `.not`) */
+  negatedMessage: string;
+}
+
+/**
+ * Signatures of the matchers, for adding to the `Matchers` interface of
+ * Jasmine or Jest.
+ */
+export interface KolmafiaMatchers<R> {
+  /**
+   * Checks that an HTML string has nodes that match an XPath selector.
+   * @param selector XPath selector supported by `xpath()`
+   * @param expected Exact list of results of `xpath()`, or a result that
+   *    must be among them. If omitted, any result passes.
+   */
+  toMatchXPath(selector: string, expected?: string | string[]): R;
+  /**
+   * Checks that a function prints a message, with `print()` or similar
+   * functions.
+   * @param expected Text that a message must contain, or a regular
+   *    expression that it must match
+   */
+  toPrint(expected: string | RegExp): R;
+  /**
+   * Checks that a function changes a preference.
+   * @param name Name of the preference
+   * @param value Final value of the preference. If omitted, any change
+   *    passes.
+   */
+  toChangePreference(name: string, value?: string): R;
+  /**
+   * Checks that a function changes the items in the inventory by exactly the
+   * given amounts.
+   * @param delta Change in the number of each item, keyed by name or id.
+   *    Items that are not listed must not change.
+   */
+  toChangeInventory(delta: Record<string, number>): R;
+  /**
+   * Checks that a function throws an `XPatherException`.
+   * @param expected Text that the message must contain, or a regular
+   *    expression that it must match
+   */
+  toThrowXPatherException(expected?: string | RegExp): R;
+}
+
+type MatcherFunction = (
+  actual: unknown,
+  ...expected: unknown[]
+) => MatcherOutcome;
+
+/**
+ * Result of a matcher, as expected by Jasmine.
+ */
+export interface JasmineMatcherResult {
+  pass: boolean;
+  message: string;
+}
+
+/**
+ * Custom matcher factories, as expected by `jasmine.addMatchers()`.
+ */
+export type JasmineMatcherFactories = Record<
+  keyof KolmafiaMatchers<unknown>,
+  () => {
+    compare(actual: unknown, ...expected: unknown[]): JasmineMatcherResult;
+    negativeCompare(
+      actual: unknown,
+      ...expected: unknown[]
+    ): JasmineMatcherResult;
+  }
+>;
+
+/**
+ * Result of a matcher, as expected by Jest.
+ */
+export interface JestMatcherResult {
+  pass: boolean;
+  message(): string;
+}
+
+/**
+ * Custom matchers, as expected by `expect.extend()` in Jest.
+ */
+export type JestMatchers = Record<
+  keyof KolmafiaMatchers<unknown>,
+  (actual: unknown, ...expected: unknown[]) => JestMatcherResult
+>;
+
+function truncate(text: string, maxLength = MAX_SNIPPET_LENGTH): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text;
+}
+
+function indent(lines: string[]): string {
+  return lines.map(line => `\n  ${line}`).join('');
+}
+
+/**
+ * Returns the function under test of a side-effect matcher.
+ * @throws {TypeError} If the actual value is not a function
+ */
+function checkFunction(actual: unknown): () => unknown {
+  if (typeof actual !== 'function') {
+    throw new TypeError(`Expected a function, but got ${inspect(actual)}`);
+  }
+  return actual as () => unknown;
+}
+
+function matchesText(text: string, expected: string | RegExp): boolean {
+  return typeof expected === 'string'
+    ? text.includes(expected)
+    : expected.test(text);
+}
+
+/**
+ * Returns the cleaned HTML around each result of a selector, i.e. the parent
+ * of each matched element, or the body of the page if nothing matched.
+ */
+function getSnippets(
+  html: string,
+  results: XPatherResult<XPatherElement>[],
+  options: XPathOptions
+): string[] {
+  if (results.length === 0) {
+    return evaluateHtml(html, '//body', options).map(body =>
+      truncate(serializeResult(body, options))
+    );
+  }
+  return results.map(result => {
+    const parent = isElement(result) ? result.parentNode : null;
+    const node =
+      parent && parent.nodeType === parent.ELEMENT_NODE
+        ? (parent as XPatherElement)
+        : result;
+    return truncate(serializeResult(node, options));
+  });
+}
+
+/**
+ * Compares two lists of `xpath()` results line by line.
+ * @return Lines of the diff, marked with `-` (expected) and `+` (actual)
+ */
+function diffResults(expected: string[], actual: string[]): string[] {
+  const lines: string[] = [];
+  for (let i = 0; i < Math.max(expected.length, actual.length); ++i) {
+    if (expected[i] === actual[i]) {
+      lines.push(`  ${inspect(expected[i])}`);
+      continue;
+    }
+    if (i < expected.length) lines.push(`- ${inspect(expected[i])}`);
+    if (i < actual.length) lines.push(`+ ${inspect(actual[i])}`);
+  }
+  return lines;
+}
+
+function toMatchXPath(
+  html: unknown,
+  selector: unknown,
+  expected?: unknown
+): MatcherOutcome {
+  if (typeof html !== 'string') {
+    throw new TypeError(`Expected an HTML string, but got ${inspect(html)}`);
+  }
+  const options = getDefaultRuntime().state.xpathOptions;
+  const results = evaluateHtml(html, String(selector), options);
+  const actual = results.map(result => serializeResult(result, options));
+
+  let pass: boolean;
+  let description: string;
+  let diff: string[] = [];
+  if (expected === undefined) {
+    pass = actual.length > 0;
+    description = `to match XPath ${selector}`;
+  } else if (Array.isArray(expected)) {
+    pass =
+      expected.length === actual.length &&
+      expected.every((value, i) => value === actual[i]);
+    description = `to match XPath ${selector} with ${inspect(expected)}`;
+    diff = diffResults(expected.map(String), actual);
+  } else {
+    pass = actual.includes(String(expected));
+    description = `to match XPath ${selector} with ${inspect(expected)}`;
+  }
+
+  const details =
+    (diff.length ? `\nDiff (- expected, + actual):${indent(diff)}` : '') +
+    `\nMatched nodes:${
+      actual.length ? indent(actual.map(r => inspect(r))) : ' none'
+    }` +
+    `\n${actual.length ? 'Context of each match' : 'Cleaned page'}:` +
+    indent(getSnippets(html, results, options));
+  return {
+    pass,
+    message: `Expected HTML ${description}.${details}`,
+    negatedMessage: `Expected HTML not ${description}.${details}`,
+  };
+}
+
+function toPrint(fn: unknown, expected: unknown): MatcherOutcome {
+  const {output} = getDefaultRuntime().state;
+  const start = output.entries.length;
+  checkFunction(fn)();
+  const entries = output.entries.slice(start);
+  const pattern = expected instanceof RegExp ? expected : String(expected);
+  const printed = entries.length
+    ? indent(entries.map(entry => `${entry.function}: ${entry.text}`))
+    : ' nothing';
+  return {
+    pass: entries.some(entry => matchesText(entry.text, pattern)),
+    message: `Expected function to print ${inspect(
+      pattern
+    )}, but it printed:${printed}`,
+    negatedMessage: `Expected function not to print ${inspect(
+      pattern
+    )}, but it printed:${printed}`,
+  };
+}
+
+function toChangePreference(
+  fn: unknown,
+  name: unknown,
+  value?: unknown
+): MatcherOutcome {
+  const {preferences} = getDefaultRuntime().state;
+  const start = preferences.writes.length;
+  checkFunction(fn)();
+  const writes = preferences.writes
+    .slice(start)
+    .filter(write => write.name === name);
+  const last = writes[writes.length - 1];
+  const description =
+    `change preference ${name}` +
+    (value === undefined ? '' : ` to ${inspect(value)}`);
+  const changes = writes.length
+    ? indent(
+        writes.map(
+          write =>
+            `${inspect(write.previousValue)} -> ${
+              write.value === null ? '(removed)' : inspect(write.value)
+            }`
+        )
+      )
+    : ' none';
+  return {
+    pass: last !== undefined && (value === undefined || last.value === value),
+    message: `Expected function to ${description}. Changes:${changes}`,
+    negatedMessage: `Expected function not to ${description}. Changes:${changes}`,
+  };
+}
+
+function toChangeInventory(fn: unknown, delta: unknown): MatcherOutcome {
+  const {gameData, inventory} = getDefaultRuntime().state;
+  const expected: Record<string, number> = {};
+  const expectedDelta = delta as Record<string, number>;
+  for (const key of Object.keys(expectedDelta)) {
+    if (expectedDelta[key] !== 0) {
+      expected[getEntity(Item, gameData, key).name] = expectedDelta[key];
+    }
+  }
+
+  const before = inventory.getItems('inventory');
+  checkFunction(fn)();
+  const after = inventory.getItems('inventory');
+  const actual: Record<string, number> = {};
+  for (const name of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const change = (after[name] || 0) - (before[name] || 0);
+    if (change !== 0) actual[name] = change;
+  }
+
+  const names = [
+    ...new Set([...Object.keys(expected), ...Object.keys(actual)]),
+  ];
+  const pass = names.every(name => expected[name] === actual[name]);
+  const format = (counts: Record<string, number>) =>
+    inspect(counts, {breakLength: Infinity});
+  const details = `\n  expected: ${format(expected)}\n  actual:   ${format(
+    actual
+  )}`;
+  return {
+    pass,
+    message: `Expected function to change the inventory by the given amounts.${details}`,
+    negatedMessage: `Expected function not to change the inventory by the given amounts.${details}`,
+  };
+}
+
+function toThrowXPatherException(
+  fn: unknown,
+  expected?: unknown
+): MatcherOutcome {
+  const call = checkFunction(fn);
+  let error: unknown = undefined;
+  try {
+    call();
+  } catch (e) {
+    error = e;
+  }
+  const pattern =
+    expected === undefined || expected instanceof RegExp
+      ? expected
+      : String(expected);
+  const description =
+    'throw an XPatherException' +
+    (pattern === undefined ? '' : ` with message ${inspect(pattern)}`);
+  const thrown =
+    error === undefined
+      ? 'it did not throw'
+      : `it threw ${
+          error instanceof Error
+            ? `${error.name}: ${error.message}`
+            : inspect(error)
+        }`;
+  return {
+    pass:
+      error instanceof XPatherException &&
+      (pattern === undefined || matchesText(error.message, pattern)),
+    message: `Expected function to ${description}, but ${thrown}`,
+    negatedMessage: `Expected function not to ${description}, but ${thrown}`,
+  };
+}
+
+/**
+ * Matchers that return a `MatcherOutcome`, for adapting to other test
+ * frameworks.
+ */
+export const kolmafiaMatchers: Record<
+  keyof KolmafiaMatchers<unknown>,
+  MatcherFunction
+> = {
+  toMatchXPath,
+  toPrint,
+  toChangePreference,
+  toChangeInventory,
+  toThrowXPatherException,
+};
+
+/**
+ * Matchers for `jasmine.addMatchers()`.
+ */
+export const jasmineMatchers = {} as JasmineMatcherFactories;
+
+/**
+ * Matchers for `expect.extend()` in Jest.
+ */
+export const jestMatchers = {} as JestMatchers;
+
+for (const name of Object.keys(kolmafiaMatchers) as Array<
+  keyof KolmafiaMatchers<unknown>
+>) {
+  const matcher = kolmafiaMatchers[name];
+  jasmineMatchers[name] = () => ({
+    compare(actual, ...expected) {
+      const {pass, message} = matcher(actual, ...expected);
+      return {pass, message};
+    },
+    negativeCompare(actual, ...expected) {
+      const {pass, negatedMessage} = matcher(actual, ...expected);
+      return {pass: !pass, message: negatedMessage};
+    },
+  });
+  jestMatchers[name] = (actual, ...expected) => {
+    const {pass, message, negatedMessage} = matcher(actual, ...expected);
+    return {pass, message: () => (pass ? negatedMessage : message)};
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * @file Test helpers for inspecting the messages written by a script.
+ *
+ * `getOutput()` returns every message with the function that wrote it, which
+ * suits assertions on colors or on the session log. `getOutputText()` only
+ * keeps what a user would see in the gCLI, which suits comparing the whole
+ * output of a script with a snapshot.
+ */
+
+import {resolveRuntime} from '../runtime/default-runtime';
+import type {OutputEntry} from '../runtime/output';
+import type {KolmafiaRuntime} from '../runtime/runtime';
+
+/**
+ * Returns every message written by `print()`, `printHtml()`, `logprint()`,
+ * `debugprint()` and `abort()`, in order.
+ * @param runtime
+ */
+export function getOutput(runtime?: KolmafiaRuntime): readonly OutputEntry[] {
+  return resolveRuntime(runtime).state.output.entries;
+}
+
+/**
+ * Returns the plain text that would be shown in the gCLI, one message per
+ * line.
+ * @param runtime
+ */
+export function getOutputText(runtime?: KolmafiaRuntime): string {
+  return resolveRuntime(runtime).state.output.getCliText();
+}
+
+/**
+ * Removes all messages.
+ * @param runtime
+ */
+export function clearOutput(runtime?: KolmafiaRuntime): void {
+  resolveRuntime(runtime).state.output.clear();
+}
@@ -0,0 +1,45 @@
+/**
+ * @file Test helpers for inspecting and resetting preferences.
+ *
+ * A snapshot covers the global values and the values of every character, so
+ * restoring it also undoes changes made after switching characters. Restoring
+ * does not count as a change: `getPropertyWrites()` still lists every write
+ * made by the code under test.
+ */
+
+import {resolveRuntime} from '../runtime/default-runtime';
+import type {PreferenceSnapshot, PreferenceWrite} from '../runtime/preferences';
+import type {KolmafiaRuntime} from '../runtime/runtime';
+
+/**
+ * Copies the values of all preferences, so that they can be restored with
+ * `restoreProperties()`.
+ * @param runtime
+ */
+export function snapshotProperties(
+  runtime?: KolmafiaRuntime
+): PreferenceSnapshot {
+  return resolveRuntime(runtime).state.preferences.snapshot();
+}
+
+/**
+ * Restores the values of all preferences from a snapshot.
+ * @param snapshot Snapshot created by `snapshotProperties()`
+ * @param runtime
+ */
+export function restoreProperties(
+  snapshot: PreferenceSnapshot,
+  runtime?: KolmafiaRuntime
+): void {
+  resolveRuntime(runtime).state.preferences.restore(snapshot);
+}
+
+/**
+ * Returns every change made to the preferences, in order.
+ * @param runtime
+ */
+export function getPropertyWrites(
+  runtime?: KolmafiaRuntime
+): readonly PreferenceWrite[] {
+  return resolveRuntime(runtime).state.preferences.writes;
+}
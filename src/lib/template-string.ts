@@ -0,0 +1,118 @@
+/**
+ * @file Tagged template helpers for enumerated types, like the ones provided
+ * by libram (e.g. `$item`, `$items`).
+ */
+
+import {
+  Class,
+  Effect,
+  Familiar,
+  Item,
+  Location,
+  Monster,
+  Skill,
+  Slot,
+  Stat,
+} from '../runtime/game-types';
+
+/**
+ * Enumerated type that supports lookup by name.
+ */
+interface EnumeratedType<T> {
+  get(key: string): T;
+  get(keys: string[]): T[];
+  all(): T[];
+}
+
+/**
+ * Concatenates the strings and interpolated values of a tagged template.
+ */
+function concatTemplate(
+  strings: TemplateStringsArray,
+  values: unknown[]
+): string {
+  return strings.raw.reduce(
+    (text, part, index) =>
+      text + part + (index < values.length ? String(values[index]) : ''),
+    ''
+  );
+}
+
+/**
+ * Splits a comma-separated list of names. Commas that are part of a name
+ * must be escaped with a backslash (e.g. `Hey Deze\, Nuts`).
+ */
+function splitNames(text: string): string[] {
+  const names: string[] = [];
+  let current = '';
+  for (let i = 0; i < text.length; ++i) {
+    if (text[i] === '\\' && i + 1 < text.length) {
+      current += text[++i];
+    } else if (text[i] === ',') {
+      names.push(current.trim());
+      current = '';
+    } else {
+      current += text[i];
+    }
+  }
+  names.push(current.trim());
+  return names.filter(name => name !== '');
+}
+
+/**
+ * Creates a tagged template function that returns a single instance.
+ * @param type
+ */
+function createSingleConstant<T>(type: EnumeratedType<T>) {
+  return (strings: TemplateStringsArray, ...values: unknown[]): T =>
+    type.get(concatTemplate(strings, values).replace(/\\(.)/g, '$1').trim());
+}
+
+/**
+ * Creates a tagged template function that returns a list of instances.
+ * An empty template returns all instances.
+ * @param type
+ */
+function createPluralConstant<T>(type: EnumeratedType<T>) {
+  return (strings: TemplateStringsArray, ...values: unknown[]): T[] => {
+    const text = concatTemplate(strings, values);
+    return text.trim() === '' ? type.all() : type.get(splitNames(text));
+  };
+}
+
+/** Returns the item with the given name, e.g. `` $item`spices` `` */
+export const $item = createSingleConstant(Item);
+/** Returns the items in a comma-separated list, or all items if empty */
+export const $items = createPluralConstant(Item);
+/** Returns the effect with the given name */
+export const $effect = createSingleConstant(Effect);
+/** Returns the effects in a comma-separated list, or all effects if empty */
+export const $effects = createPluralConstant(Effect);
+/** Returns the skill with the given name */
+export const $skill = createSingleConstant(Skill);
+/** Returns the skills in a comma-separated list, or all skills if empty */
+export const $skills = createPluralConstant(Skill);
+/** Returns the familiar with the given name */
+export const $familiar = createSingleConstant(Familiar);
+/** Returns the familiars in a comma-separated list, or all if empty */
+export const $familiars = createPluralConstant(Familiar);
+/** Returns the location with the given name */
+export const $location = createSingleConstant(Location);
+/** Returns the locations in a comma-separated list, or all if empty */
+export const $locations = createPluralConstant(Location);
+/** Returns the monster with the given name */
+export const $monster = createSingleConstant(Monster);
+/** Returns the monsters in a comma-separated list, or all if empty */
+export const $monsters = createPluralConstant(Monster);
+/** Returns the class with the given name */
+export const $class = createSingleConstant(Class);
+/** Returns the classes in a comma-separated list, or all if empty */
+export const $classes = createPluralConstant(Class);
+/** Returns the slot with the given name */
+export const $slot = createSingleConstant(Slot);
+/** Returns the slots in a comma-separated list, or all if empty */
+export const $slots = createPluralConstant(Slot);
+/** Returns the stat with the given name */
+export const $stat = createSingleConstant(Stat);
+/** Returns the stats in a comma-separated list, or all if empty */
+export const $stats = createPluralConstant(Stat);
@@ -0,0 +1,64 @@
+/**
+ * @file Serializes any `XPatherElement` to the same XML string that xmldom's
+ * `XMLSerializer` produces for an equivalent xmldom element. This allows
+ * backends other than xmldom to return the same strings from `xpath()`.
+ *
+ * This is based on `serializeToString()` in xmldom 0.5:
+ *    https://github.com/xmldom/xmldom/blob/0.5.0/lib/dom.js
+ */
+
+import type {XPatherElement, XPatherNode} from './xpather';
+
+const TEXT_NODE = 3;
+const CDATA_SECTION_NODE = 4;
+const COMMENT_NODE = 8;
+
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '"': '&quot;',
+};
+
+function escape(text: string, pattern: RegExp): string {
+  return text.replace(pattern, ch => ESCAPES[ch]);
+}
+
+function serializeNode(node: XPatherNode): string {
+  if (node.nodeType === node.ELEMENT_NODE) {
+    return serializeXml(node as XPatherElement);
+  }
+
+  const content = node.textContent || '';
+  switch (node.nodeType) {
+    case TEXT_NODE:
+      return escape(content, /[<&]/g).replace(/]]>/g, ']]&gt;');
+    case CDATA_SECTION_NODE:
+      return `<![CDATA[${content}]]>`;
+    case COMMENT_NODE:
+      return `<!--${content}-->`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Serializes an element like xmldom's `XMLSerializer`.
+ * @param el Element to serialize
+ */
+export function serializeXml(el: XPatherElement): string {
+  let xml = '<' + el.nodeName;
+  for (let i = 0; i < el.attributes.length; ++i) {
+    const attr = el.attributes[i];
+    xml += ` ${attr.name}="${escape(attr.value, /[&"]/g)}"`;
+  }
+
+  if (el.childNodes.length === 0) {
+    return xml + '/>';
+  }
+
+  xml += '>';
+  for (let i = 0; i < el.childNodes.length; ++i) {
+    xml += serializeNode(el.childNodes[i]);
+  }
+  return `${xml}</${el.nodeName}>`;
+}
@@ -0,0 +1,220 @@
+/**
+ * @file Caches used by the `xpath()` stub to avoid redundant work when the
+ * same selectors are evaluated repeatedly, or when many selectors are
+ * evaluated against the same page.
+ */
+
+import cheerio = require('cheerio');
+import {DOMParser} from 'xmldom';
+
+import {cleanHtml, parseHtml, wrapScripts} from './clean-html';
+import {DocumentIndex} from './document-index';
+import {
+  DomhandlerElementAdapter,
+  getDomhandlerDocumentElement,
+} from './domhandler-adapter';
+import {cleanHtmlLikeHtmlCleaner} from './html-cleaner';
+import {LruCache} from './lru-cache';
+import {compileXPath, CompiledXPath, XPatherElement} from './xpather';
+
+/** Default number of compiled selectors to keep */
+const DEFAULT_SELECTOR_CACHE_SIZE = 256;
+/** Default number of parsed documents to keep */
+const DEFAULT_DOCUMENT_CACHE_SIZE = 8;
+
+const compiledSelectors = new LruCache<string, CompiledXPath>(
+  DEFAULT_SELECTOR_CACHE_SIZE
+);
+
+/**
+ * HTML cleaner used to sanitize markup before it is parsed.
+ *
+ * - `cheerio`: Uses cheerio (`cleanHtml()`). Fast, but the document structure
+ *   may differ from KoLmafia's for malformed markup.
+ * - `htmlcleaner`: Uses the same rules as HtmlCleaner
+ *   (`cleanHtmlLikeHtmlCleaner()`), so that node positions match KoLmafia's.
+ */
+export type HtmlCleanerType = 'cheerio' | 'htmlcleaner';
+
+/**
+ * DOM implementation that selectors are evaluated against.
+ *
+ * - `xmldom`: The cleaned markup is serialized to XML and parsed by xmldom.
+ * - `domhandler`: Selectors are evaluated directly against the tree built by
+ *   cheerio, which avoids serializing and parsing the document again.
+ */
+export type XPathBackendType = 'xmldom' | 'domhandler';
+
+// Both cleaners always produce an <html> element, so the document elements
+// below are never null.
+const DOCUMENT_PARSERS: Record<
+  XPathBackendType,
+  Record<HtmlCleanerType, (html: string) => XPatherElement>
+> = {
+  xmldom: {
+    cheerio: html => parseXml(cleanHtml(html)),
+    htmlcleaner: html => parseXml(cleanHtmlLikeHtmlCleaner(html)),
+  },
+  domhandler: {
+    cheerio: html => {
+      const $ = parseHtml(html);
+      wrapScripts($);
+      return getDomhandlerDocumentElement($.root()[0])!;
+    },
+    htmlcleaner: html =>
+      getDomhandlerDocumentElement(
+        cheerio.load(cleanHtmlLikeHtmlCleaner(html), {xmlMode: true}).root()[0]
+      )!,
+  },
+};
+
+function parseXml(xml: string): Element {
+  return new DOMParser().parseFromString(xml).documentElement;
+}
+
+const parsedDocuments: Record<
+  XPathBackendType,
+  Record<HtmlCleanerType, LruCache<string, XPatherElement>>
+> = {
+  xmldom: {
+    cheerio: new LruCache(DEFAULT_DOCUMENT_CACHE_SIZE),
+    htmlcleaner: new LruCache(DEFAULT_DOCUMENT_CACHE_SIZE),
+  },
+  domhandler: {
+    cheerio: new LruCache(DEFAULT_DOCUMENT_CACHE_SIZE),
+    htmlcleaner: new LruCache(DEFAULT_DOCUMENT_CACHE_SIZE),
+  },
+};
+
+/**
+ * Indexes of the documents created by `getParsedDocument()`, keyed by their
+ * root elements. Since these documents are never modified, their indexes never
+ * become stale.
+ */
+const documentIndexes = new WeakMap<XPatherElement, DocumentIndex>();
+
+/** Returns all document caches. */
+function getDocumentCaches(): LruCache<string, XPatherElement>[] {
+  const caches = [];
+  for (const cachesByCleaner of Object.values(parsedDocuments)) {
+    caches.push(...Object.values(cachesByCleaner));
+  }
+  return caches;
+}
+
+/**
+ * Options for `configureXPathCache()`.
+ */
+export interface XPathCacheOptions {
+  /**
+   * Maximum number of compiled selectors to keep.
+   * Use 0 to disable the selector cache.
+   */
+  selectors?: number;
+  /**
+   * Maximum number of cleaned and parsed HTML documents to keep.
+   * Use 0 to disable the document cache.
+   */
+  documents?: number;
+}
+
+/**
+ * Changes the sizes of the caches used by `xpath()`.
+ * Omitted options are left unchanged.
+ * @param options
+ */
+export function configureXPathCache(options: XPathCacheOptions): void {
+  if (options.selectors !== undefined) {
+    compiledSelectors.resize(options.selectors);
+  }
+  if (options.documents !== undefined) {
+    for (const cache of getDocumentCaches()) {
+      cache.resize(options.documents);
+    }
+  }
+}
+
+/**
+ * Removes all compiled selectors and parsed documents cached by `xpath()`.
+ * This does not change the sizes of the caches.
+ */
+export function clearXPathCache(): void {
+  compiledSelectors.clear();
+  for (const cache of getDocumentCaches()) {
+    cache.clear();
+  }
+}
+
+/**
+ * Returns a compiled XPath selector, compiling and caching it if needed.
+ *
+ * The selector is not validated up front, so that `xpath()` only throws for
+ * errors that KoLmafia's XPather reaches while evaluating it (e.g. an unknown
+ * function in a predicate that is never evaluated is ignored).
+ * @param selector XPath selector
+ */
+export function getCompiledXPath(selector: string): CompiledXPath {
+  let compiled = compiledSelectors.get(selector);
+  if (!compiled) {
+    compiled = compileXPath(selector, {strict: false});
+    compiledSelectors.set(selector, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Cleans and parses the given HTML, reusing the result of a previous call with
+ * the same HTML if possible.
+ *
+ * Since the returned element may be shared by other callers, it must NOT be
+ * modified.
+ * @param html HTML markup
+ * @param cleaner HTML cleaner to use
+ * @param backend DOM implementation to use
+ * @return Root element of the parsed document
+ */
+export function getParsedDocument(
+  html: string,
+  cleaner?: HtmlCleanerType,
+  backend?: 'xmldom'
+): Element;
+export function getParsedDocument(
+  html: string,
+  cleaner: HtmlCleanerType | undefined,
+  backend: 'domhandler'
+): DomhandlerElementAdapter;
+export function getParsedDocument(
+  html: string,
+  cleaner?: HtmlCleanerType,
+  backend?: XPathBackendType
+): XPatherElement;
+export function getParsedDocument(
+  html: string,
+  cleaner: HtmlCleanerType = 'cheerio',
+  backend: XPathBackendType = 'xmldom'
+): XPatherElement {
+  const cache = parsedDocuments[backend][cleaner];
+  let root = cache.get(html);
+  if (!root) {
+    root = DOCUMENT_PARSERS[backend][cleaner](html);
+    documentIndexes.set(root, new DocumentIndex(root));
+    cache.set(html, root);
+  }
+  return root;
+}
+
+/**
+ * Returns the index of the document that contains the given element, if the
+ * document was created by `getParsedDocument()`.
+ * @param el Any element in the document
+ * @return Document index, or `undefined` if the document is not indexed
+ */
+export function getDocumentIndex(
+  el: XPatherElement
+): DocumentIndex | undefined {
+  let root = el;
+  while (root.parentNode && root.parentNode.nodeType === root.ELEMENT_NODE) {
+    root = root.parentNode as XPatherElement;
+  }
+  return documentIndexes.get(root);
+}
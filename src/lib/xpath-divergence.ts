@@ -0,0 +1,311 @@
+/**
+ * @file Compares XPather with a standards-compliant XPath 1.0 evaluator.
+ *
+ * XPather deliberately replicates HtmlCleaner's quirks, which means that a
+ * selector tested in a browser may silently behave differently in KoLmafia.
+ * The functions in this module detect such selectors, either by looking for
+ * constructs that XPather does not understand, or by evaluating the selector
+ * with both XPather and a standard evaluator and comparing the results.
+ */
+
+import {select} from 'xpath';
+
+import {
+  evaluateXPath,
+  SUPPORTED_FUNCTIONS,
+  XPatherElement,
+  XPatherResult,
+} from './xpather';
+
+/**
+ * Constructs that XPather ignores, misreads, or evaluates differently from
+ * standard XPath.
+ */
+export type XPathConstruct =
+  | 'absolute-path'
+  | 'absolute-path-in-predicate'
+  | 'axis'
+  | 'boolean-operator'
+  | 'not-equals'
+  | 'parent-step'
+  | 'union'
+  | 'unsupported-function';
+
+/**
+ * A difference between XPather and a standards-compliant XPath evaluator.
+ *
+ * - `unsupported-construct`: The selector contains a construct that XPather
+ *    ignores or misreads. `construct` and `offset` describe the construct.
+ * - `result-mismatch`: XPather and the standard evaluator returned different
+ *    results. `xpatherResults` and `standardResults` contain the results.
+ * - `invalid-xpath`: The selector is not a valid XPath 1.0 expression, so it
+ *    would fail in a browser.
+ */
+export interface XPathDivergence {
+  kind: 'unsupported-construct' | 'result-mismatch' | 'invalid-xpath';
+  /** Human-readable description of the divergence */
+  message: string;
+  /** Selector that was evaluated */
+  selector: string;
+  /** Type of the offending construct (for `unsupported-construct`) */
+  construct?: XPathConstruct;
+  /** Character offset of the offending construct (for `unsupported-construct`) */
+  offset?: number;
+  /**
+   * Results returned by XPather (for `result-mismatch`).
+   * Elements are returned as-is; everything else is converted to a string.
+   */
+  xpatherResults?: unknown[];
+  /**
+   * Results returned by the standard evaluator (for `result-mismatch`).
+   * Elements are returned as-is; attributes and text nodes are converted to
+   * their values, and everything else is converted to a string.
+   */
+  standardResults?: unknown[];
+}
+
+/**
+ * Callback that receives divergences found while evaluating a selector.
+ * It is only called if at least one divergence was found.
+ */
+export type XPathDivergenceHandler = (divergences: XPathDivergence[]) => void;
+
+interface ConstructRule {
+  construct: XPathConstruct;
+  pattern: RegExp;
+  message: (match: RegExpExecArray) => string;
+}
+
+const CONSTRUCT_RULES: ConstructRule[] = [
+  {
+    construct: 'unsupported-function',
+    pattern: /([a-z_][\w.-]*)\s*\(/gi,
+    message: m =>
+      `XPather does not support the ${m[1]}() function; only ` +
+      `${SUPPORTED_FUNCTIONS.map(f => f + '()').join(', ')} are supported`,
+  },
+  {
+    construct: 'boolean-operator',
+    pattern: /\s(and|or)\s/g,
+    message: m =>
+      `XPather does not support the '${m[1]}' operator, and reads it as part ` +
+      'of a tag name; use consecutive predicates ([a][b]) instead of "and"',
+  },
+  {
+    construct: 'not-equals',
+    pattern: /!=/g,
+    message: () => "XPather does not support the '!=' operator",
+  },
+  {
+    construct: 'axis',
+    pattern: /[\w-]+::/g,
+    message: () => 'XPather does not support axes (e.g. following-sibling::)',
+  },
+  {
+    construct: 'union',
+    pattern: /\|/g,
+    message: () => "XPather does not support the union operator '|'",
+  },
+  {
+    construct: 'parent-step',
+    pattern: /\.\./g,
+    message: () =>
+      "XPather evaluates '..' differently from standard XPath: it cannot " +
+      "select the parent of the root element, and '//..' visits nodes in a " +
+      'different order',
+  },
+  {
+    construct: 'absolute-path-in-predicate',
+    pattern: /\[\s*\//g,
+    message: () =>
+      'XPather evaluates absolute paths inside predicates relative to the ' +
+      'current node (HtmlCleaner bug #223); use a relative path (.//) instead',
+  },
+  {
+    construct: 'absolute-path',
+    pattern: /^[\s(]*\/(?!\/)/g,
+    message: () =>
+      "XPather evaluates a leading '/' relative to the root element (e.g. " +
+      "'/body' instead of '/html/body')",
+  },
+];
+
+/**
+ * Looks for constructs that XPather ignores, misreads, or evaluates
+ * differently from standard XPath.
+ * @param selector XPath selector
+ * @return List of divergences of kind `unsupported-construct`
+ */
+export function findUnsupportedConstructs(selector: string): XPathDivergence[] {
+  // Blank out string literals so that their contents are not inspected
+  const code = selector.replace(/"[^"]*"|'[^']*'/g, s => ' '.repeat(s.length));
+  const divergences: XPathDivergence[] = [];
+
+  for (const rule of CONSTRUCT_RULES) {
+    rule.pattern.lastIndex = 0;
+    let match;
+    while ((match = rule.pattern.exec(code)) !== null) {
+      if (
+        rule.construct === 'unsupported-function' &&
+        SUPPORTED_FUNCTIONS.includes(match[1])
+      ) {
+        continue;
+      }
+      divergences.push({
+        kind: 'unsupported-construct',
+        message: rule.message(match),
+        selector,
+        construct: rule.construct,
+        offset: match.index + /^[\s(]*/.exec(match[0])![0].length,
+      });
+    }
+  }
+
+  return divergences.sort((a, b) => (a.offset || 0) - (b.offset || 0));
+}
+
+/**
+ * Evaluates the selector with a standards-compliant XPath 1.0 evaluator and
+ * compares the result with XPather's.
+ *
+ * This requires `el` to be a full DOM Level 2 node, such as the ones created
+ * by xmldom.
+ * @param el Node that XPather was evaluated against
+ * @param selector XPath selector
+ * @param xpatherResults Results returned by XPather
+ * @return List of divergences of kind `result-mismatch` or `invalid-xpath`
+ */
+export function compareWithStandardXPath<T extends XPatherElement>(
+  el: T,
+  selector: string,
+  xpatherResults: XPatherResult<T>[]
+): XPathDivergence[] {
+  let standardResults: unknown[];
+  try {
+    const selected = select(selector, (el as unknown) as Node);
+    standardResults = (Array.isArray(selected) ? selected : [selected]).map(
+      normalizeStandardResult
+    );
+  } catch (e) {
+    return [
+      {
+        kind: 'invalid-xpath',
+        message: `Not a valid XPath 1.0 expression: ${
+          e instanceof Error ? e.message : e
+        }`,
+        selector,
+      },
+    ];
+  }
+
+  const normalized = xpatherResults.map(r =>
+    typeof r === 'object' ? r : String(r)
+  );
+  if (
+    normalized.length === standardResults.length &&
+    normalized.every((r, i) => r === standardResults[i])
+  ) {
+    return [];
+  }
+
+  const firstDifference = normalized.findIndex(
+    (r, i) => r !== standardResults[i]
+  );
+  return [
+    {
+      kind: 'result-mismatch',
+      message:
+        `XPather returned ${normalized.length} result(s), but standard ` +
+        `XPath returned ${standardResults.length}` +
+        (normalized.length === standardResults.length
+          ? ` (first difference at index ${firstDifference})`
+          : ''),
+      selector,
+      xpatherResults: normalized,
+      standardResults,
+    },
+  ];
+}
+
+/**
+ * Converts a value returned by the standard evaluator so that it can be
+ * compared with XPather's results.
+ */
+function normalizeStandardResult(value: unknown): unknown {
+  if (value && typeof value === 'object') {
+    const node = value as Node;
+    if (node.nodeType === node.ATTRIBUTE_NODE) {
+      return (node as Attr).value;
+    }
+    if (
+      node.nodeType === node.TEXT_NODE ||
+      node.nodeType === node.CDATA_SECTION_NODE
+    ) {
+      return node.nodeValue;
+    }
+    return node;
+  }
+  return String(value);
+}
+
+/**
+ * Evaluates a selector with XPather, and reports any divergences from
+ * standard XPath to `onDivergence`.
+ *
+ * If XPather throws an exception, divergences found before evaluation (i.e.
+ * unsupported constructs) are reported before the exception is rethrown.
+ * @param el Node to evaluate the selector against
+ * @param selector XPath selector
+ * @param evaluate Function that evaluates the selector with XPather
+ * @param onDivergence Callback that receives the divergences
+ * @param options.compareResults Whether to compare the results with the
+ *    standard evaluator (default: true). This requires `el` to be a full DOM
+ *    Level 2 node.
+ * @return Results of `evaluate()`
+ */
+export function checkDivergence<T extends XPatherElement>(
+  el: T,
+  selector: string,
+  evaluate: () => XPatherResult<T>[],
+  onDivergence: XPathDivergenceHandler,
+  options: {compareResults?: boolean} = {}
+): XPatherResult<T>[] {
+  const divergences = findUnsupportedConstructs(selector);
+
+  let results;
+  try {
+    results = evaluate();
+  } catch (e) {
+    if (divergences.length > 0) onDivergence(divergences);
+    throw e;
+  }
+
+  if (options.compareResults !== false) {
+    divergences.push(...compareWithStandardXPath(el, selector, results));
+  }
+  if (divergences.length > 0) onDivergence(divergences);
+  return results;
+}
+
+/**
+ * Evaluates a selector like `evaluateXPath()`, and also checks it against a
+ * standards-compliant XPath 1.0 evaluator. This is the opt-in divergence
+ * check of `xpath()`, for code that evaluates selectors on its own trees.
+ * @param el Full DOM Level 2 node, such as one created by xmldom
+ * @param selector XPath selector
+ * @param onDivergence Callback that receives the divergences, if any
+ * @return Results of `evaluateXPath()`
+ * @throws {XPatherException}
+ */
+export function evaluateCheckedXPath<T extends XPatherElement>(
+  el: T,
+  selector: string,
+  onDivergence: XPathDivergenceHandler
+): XPatherResult<T>[] {
+  return checkDivergence(
+    el,
+    selector,
+    () => evaluateXPath(el, selector),
+    onDivergence
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * @file Structured alternative to `xpath()`, which returns the matched nodes
+ * and values instead of serializing them to strings.
+ */
+
+import {resolveRuntime} from '../runtime/default-runtime';
+import type {KolmafiaRuntime} from '../runtime/runtime';
+import {
+  evaluateHtml,
+  evaluateSelector,
+  serializeResult,
+  XPathOptions,
+} from './xpath-pipeline';
+import {
+  getAttributes,
+  isElement,
+  XPatherElement,
+  XPatherResult,
+} from './xpather';
+
+/**
+ * Result of `xpathNodes()`. Each result is tagged with its type.
+ */
+export type XPathNodeResult =
+  | {type: 'element'; value: XPathElementHandle}
+  | {type: 'string'; value: string}
+  | {type: 'number'; value: number}
+  | {type: 'boolean'; value: boolean};
+
+/**
+ * Read-only view of an element matched by `xpathNodes()`.
+ */
+export class XPathElementHandle {
+  /**
+   * @param node Matched element. This belongs to a cached document, and must
+   *    NOT be modified.
+   * @param options Options used for nested queries
+   */
+  constructor(
+    readonly node: XPatherElement,
+    private readonly options: XPathOptions = {}
+  ) {}
+
+  /** Tag name of the element, in lowercase */
+  get tagName(): string {
+    return this.node.nodeName.toLowerCase();
+  }
+
+  /** Map of attribute names to values */
+  get attributes(): {[attr: string]: string} {
+    return getAttributes(this.node);
+  }
+
+  /** Text content of the element, including all descendants */
+  get text(): string {
+    return this.node.textContent || '';
+  }
+
+  /**
+   * @param name
+   * @return Value of the attribute, or `null` if the element doesn't have it
+   */
+  getAttribute(name: string): string | null {
+    return this.node.hasAttribute(name) ? this.node.getAttribute(name) : null;
+  }
+
+  /**
+   * Evaluates a selector against this element.
+   * @param selector XPath selector supported by HtmlCleaner
+   */
+  query(selector: string): XPathNodeResult[] {
+    return evaluateSelector(this.node, selector, this.options).map(r =>
+      toNodeResult(r, this.options)
+    );
+  }
+
+  /**
+   * Evaluates a selector against this element, and serializes the results
+   * like `xpath()`.
+   * @param selector XPath selector supported by HtmlCleaner
+   */
+  xpath(selector: string): string[] {
+    return evaluateSelector(this.node, selector, this.options).map(r =>
+      serializeResult(r, this.options)
+    );
+  }
+
+  /** Serializes the element exactly as `xpath()` does. */
+  toString(): string {
+    return serializeResult(this.node, this.options);
+  }
+}
+
+function toNodeResult(
+  result: XPatherResult<XPatherElement>,
+  options: XPathOptions
+): XPathNodeResult {
+  if (isElement(result)) {
+    return {type: 'element', value: new XPathElementHandle(result, options)};
+  }
+  switch (typeof result) {
+    case 'number':
+      return {type: 'number', value: result};
+    case 'boolean':
+      return {type: 'boolean', value: result};
+    default:
+      return {type: 'string', value: result};
+  }
+}
+
+/**
+ * Evaluates a selector like `xpath()`, but returns structured results instead
+ * of strings. The results are in the same order as `xpath()`'s, so the same
+ * indices can be used for both.
+ * @param html XML or HTML markup. This is sanitized like `xpath()`.
+ * @param selector XPath selector supported by HtmlCleaner
+ * @param options Same options as `xpath()`. Like `xpath()`, these override
+ *    the runtime's default `xpath()` options.
+ * @param runtime Runtime whose default `xpath()` options are used
+ */
+export function xpathNodes(
+  html: string,
+  selector: string,
+  options: XPathOptions = {},
+  runtime?: KolmafiaRuntime
+): XPathNodeResult[] {
+  const mergedOptions = {
+    ...resolveRuntime(runtime).state.xpathOptions,
+    ...options,
+  };
+  return evaluateHtml(html, selector, mergedOptions).map(r =>
+    toNodeResult(r, mergedOptions)
+  );
+}
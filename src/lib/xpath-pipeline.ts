@@ -0,0 +1,121 @@
+/**
+ * @file The steps that `xpath()` uses to evaluate a selector against HTML.
+ * These are shared by other functions that must return the same nodes as
+ * `xpath()`.
+ */
+
+import {XMLSerializer} from 'xmldom';
+
+import {DomhandlerNodeAdapter} from './domhandler-adapter';
+import {serializeLikeHtmlCleaner} from './htmlcleaner-serializer';
+import {
+  getCompiledXPath,
+  getDocumentIndex,
+  getParsedDocument,
+  HtmlCleanerType,
+  XPathBackendType,
+} from './xpath-cache';
+import {checkDivergence, XPathDivergenceHandler} from './xpath-divergence';
+import {serializeXml} from './xml-serializer';
+import {isElement, XPatherElement, XPatherResult} from './xpather';
+
+/**
+ * Serializer used to convert matched elements to strings.
+ *
+ * - `xmldom`: xmldom's `XMLSerializer`
+ * - `htmlcleaner`: Reproduces HtmlCleaner's `SimpleXmlSerializer`, which
+ *    KoLmafia uses
+ */
+export type XPathSerializerType = 'xmldom' | 'htmlcleaner';
+
+/**
+ * Options for `xpath()` that are not supported by KoLmafia itself.
+ */
+export interface XPathOptions {
+  /**
+   * HTML cleaner used to sanitize the markup (default: `cheerio`).
+   * Use `htmlcleaner` to make node positions in malformed markup match
+   * KoLmafia's.
+   */
+  cleaner?: HtmlCleanerType;
+  /**
+   * DOM implementation that selectors are evaluated against (default:
+   * `xmldom`). `domhandler` is faster, since the cleaned document is not
+   * serialized and parsed again.
+   */
+  backend?: XPathBackendType;
+  /**
+   * If given, the selector is also checked against a standards-compliant
+   * XPath 1.0 evaluator, and any divergences (mismatched results, or
+   * constructs that XPather ignores or misreads) are passed to this callback.
+   * With the `domhandler` backend, results are not compared with the standard
+   * evaluator, so only unsupported constructs are reported.
+   */
+  onDivergence?: XPathDivergenceHandler;
+  /**
+   * Serializer used to convert matched elements to strings (default:
+   * `xmldom`). Use `htmlcleaner` to produce the exact strings that KoLmafia
+   * returns, e.g. `<br />` instead of `<br/>`.
+   */
+  serializer?: XPathSerializerType;
+}
+
+/**
+ * Cleans and parses the HTML, then evaluates the selector against it.
+ * @param html HTML markup
+ * @param selector XPath selector
+ * @param options
+ * @throws {XPatherException}
+ */
+export function evaluateHtml(
+  html: string,
+  selector: string,
+  options: XPathOptions = {}
+): XPatherResult<XPatherElement>[] {
+  return evaluateSelector(
+    getParsedDocument(html, options.cleaner, options.backend),
+    selector,
+    options
+  );
+}
+
+/**
+ * Evaluates the selector against an element that was parsed by
+ * `getParsedDocument()`.
+ * @param root
+ * @param selector XPath selector
+ * @param options
+ * @throws {XPatherException}
+ */
+export function evaluateSelector(
+  root: XPatherElement,
+  selector: string,
+  options: XPathOptions = {}
+): XPatherResult<XPatherElement>[] {
+  const index = getDocumentIndex(root);
+  const evaluate = () => getCompiledXPath(selector).evaluate(root, index);
+  return options.onDivergence
+    ? checkDivergence(root, selector, evaluate, options.onDivergence, {
+        // The standard evaluator only supports full DOM nodes
+        compareResults: !(root instanceof DomhandlerNodeAdapter),
+      })
+    : evaluate();
+}
+
+/**
+ * Converts a result of `evaluateHtml()` to the string returned by `xpath()`.
+ * @param result
+ * @param options
+ */
+export function serializeResult(
+  result: XPatherResult<XPatherElement>,
+  options: XPathOptions = {}
+): string {
+  if (!isElement(result)) return String(result);
+  if (options.serializer === 'htmlcleaner') {
+    return serializeLikeHtmlCleaner(result);
+  }
+  return result instanceof DomhandlerNodeAdapter
+    ? serializeXml(result)
+    : new XMLSerializer().serializeToString((result as unknown) as Node);
+}
@@ -0,0 +1,281 @@
+/**
+ * @file Records how XPather evaluates an expression, step by step.
+ * This is useful for finding out which step of a selector "lost" the nodes
+ * when it returns an empty array.
+ */
+
+import {resolveRuntime} from '../runtime/default-runtime';
+import type {KolmafiaRuntime} from '../runtime/runtime';
+import {getParsedDocument, HtmlCleanerType} from './xpath-cache';
+import {
+  XPather,
+  XPatherElement,
+  XPatherException,
+  XPatherResult,
+} from './xpather';
+
+/** XPather methods that are recorded in a trace */
+export type XPathTraceOperation =
+  | 'evaluateAgainst'
+  | 'getElementsByName'
+  | 'filterByCondition'
+  | 'evaluateFunction';
+
+/**
+ * A single step in the evaluation of an XPath expression.
+ */
+export interface XPathTraceStep {
+  /** XPather method that performed this step */
+  operation: XPathTraceOperation;
+  /** Index of the first token evaluated by this step */
+  from: number;
+  /** Index of the last token evaluated by this step (inclusive) */
+  to: number;
+  /** Part of the expression evaluated by this step */
+  tokens: string;
+  /** Number of nodes or values passed to this step */
+  inputCount: number;
+  /**
+   * Number of nodes or values returned by this step, or `null` if the step
+   * threw an exception
+   */
+  outputCount: number | null;
+  /** Steps performed while evaluating this step */
+  children: XPathTraceStep[];
+}
+
+/** Default maximum number of steps to record */
+const DEFAULT_MAX_STEPS = 10000;
+
+/**
+ * Result of tracing the evaluation of an XPath expression.
+ */
+export class XPathTrace<T extends XPatherElement = XPatherElement> {
+  constructor(
+    /** XPath expression that was evaluated */
+    readonly expression: string,
+    /** Top-level steps */
+    readonly steps: XPathTraceStep[],
+    /** Results of the evaluation, or an empty array if it failed */
+    readonly results: XPatherResult<T>[],
+    /** Exception thrown by XPather, if any */
+    readonly error: XPatherException | null,
+    /** Whether some steps were not recorded because there were too many */
+    readonly truncated: boolean
+  ) {}
+
+  /**
+   * Formats the trace as an indented tree, e.g.:
+   *
+   * ```
+   * //div[3]//a
+   * evaluateAgainst [0..7] "//div[3]//a" 1 -> 2
+   *   evaluateAgainst [2..5] "div[3]" 1 -> 3
+   *     getElementsByName [2..5] "div[3]" 1 -> 3
+   *   ...
+   * ```
+   */
+  toString(): string {
+    const lines = [this.expression];
+    const visit = (step: XPathTraceStep, depth: number) => {
+      const output = step.outputCount === null ? 'threw' : step.outputCount;
+      lines.push(
+        `${'  '.repeat(depth)}${step.operation} [${step.from}..${step.to}] ` +
+          `${JSON.stringify(step.tokens)} ${step.inputCount} -> ${output}`
+      );
+      for (const child of step.children) {
+        visit(child, depth + 1);
+      }
+    };
+    for (const step of this.steps) {
+      visit(step, 0);
+    }
+    if (this.truncated) {
+      lines.push('(some steps were omitted)');
+    }
+    if (this.error) {
+      lines.push(`Error: ${this.error.message}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+/**
+ * XPather that records every step of the evaluation.
+ */
+class TracingXPather<T extends XPatherElement> extends XPather<T> {
+  readonly steps: XPathTraceStep[] = [];
+  truncated = false;
+  /** Steps that are currently being evaluated */
+  private readonly stack: XPathTraceStep[] = [];
+  private stepCount = 0;
+
+  constructor(expression: string, private readonly maxSteps: number) {
+    super(expression);
+  }
+
+  protected evaluateAgainst(
+    obj: XPatherResult<T>[] | undefined,
+    from: number,
+    to: number,
+    isRecursive: boolean,
+    position: number,
+    last: number,
+    isFilterContext: boolean,
+    filterSource?: XPatherResult<T>[]
+  ): XPatherResult<T>[] {
+    const evaluate = () =>
+      super.evaluateAgainst(
+        obj,
+        from,
+        to,
+        isRecursive,
+        position,
+        last,
+        isFilterContext,
+        filterSource
+      );
+    // Empty ranges merely return their input, so don't clutter the trace
+    if (from < 0 || to >= this.tokenArray.length || from > to) {
+      return evaluate();
+    }
+    return this.record('evaluateAgainst', from, to, obj, evaluate);
+  }
+
+  protected getElementsByName(
+    source: XPatherResult<T>[],
+    from: number,
+    to: number,
+    isRecursive: boolean,
+    isFilterContext: boolean
+  ): XPatherResult<T>[] {
+    return this.record('getElementsByName', from, to, source, () =>
+      super.getElementsByName(source, from, to, isRecursive, isFilterContext)
+    );
+  }
+
+  protected filterByCondition(
+    source: XPatherResult<T>[],
+    from: number,
+    to: number
+  ): XPatherResult<T>[] {
+    return this.record('filterByCondition', from, to, source, () =>
+      super.filterByCondition(source, from, to)
+    );
+  }
+
+  protected evaluateFunction(
+    source: XPatherResult<T>[],
+    from: number,
+    to: number,
+    position: number,
+    last: number,
+    isFilterContext: boolean
+  ): XPatherResult<T>[] {
+    return this.record('evaluateFunction', from, to, source, () =>
+      super.evaluateFunction(source, from, to, position, last, isFilterContext)
+    );
+  }
+
+  private record(
+    operation: XPathTraceOperation,
+    from: number,
+    to: number,
+    input: XPatherResult<T>[] | undefined,
+    evaluate: () => XPatherResult<T>[]
+  ): XPatherResult<T>[] {
+    if (this.stepCount >= this.maxSteps) {
+      this.truncated = true;
+      return evaluate();
+    }
+    this.stepCount++;
+
+    const step: XPathTraceStep = {
+      operation,
+      from,
+      to,
+      tokens: this.tokenArray.slice(from, to + 1).join(''),
+      inputCount: input ? input.length : 0,
+      outputCount: null,
+      children: [],
+    };
+    const parent = this.stack[this.stack.length - 1];
+    (parent ? parent.children : this.steps).push(step);
+
+    this.stack.push(step);
+    try {
+      const result = evaluate();
+      step.outputCount = result.length;
+      return result;
+    } finally {
+      this.stack.pop();
+    }
+  }
+}
+
+/**
+ * Options for `traceXPath()` and `explainXPath()`.
+ */
+export interface XPathTraceOptions {
+  /**
+   * Maximum number of steps to record (default: 10000). Selectors that use
+   * `//` on large documents may produce a very large number of steps.
+   */
+  maxSteps?: number;
+}
+
+/**
+ * Evaluates an XPath expression against the given node, and records every
+ * step of the evaluation.
+ *
+ * Unlike `evaluateXPath()`, this does not throw if XPather fails; instead,
+ * the exception is stored in the returned trace.
+ * @param el
+ * @param xPathExpression
+ * @param options
+ */
+export function traceXPath<T extends XPatherElement>(
+  el: T,
+  xPathExpression: string,
+  options: XPathTraceOptions = {}
+): XPathTrace<T> {
+  const xpather = new TracingXPather<T>(
+    xPathExpression,
+    options.maxSteps === undefined ? DEFAULT_MAX_STEPS : options.maxSteps
+  );
+
+  let results: XPatherResult<T>[] = [];
+  let error: XPatherException | null = null;
+  try {
+    results = xpather.evaluateAgainstNode(el);
+  } catch (e) {
+    if (!(e instanceof XPatherException)) throw e;
+    error = e;
+  }
+
+  return new XPathTrace(
+    xPathExpression,
+    xpather.steps,
+    results,
+    error,
+    xpather.truncated
+  );
+}
+
+/**
+ * Cleans the given HTML the same way as `xpath()`, then evaluates the
+ * selector and records every step of the evaluation.
+ * @param html HTML markup
+ * @param selector XPath selector
+ * @param options `cleaner` overrides the runtime's default `xpath()` option
+ * @param runtime Runtime whose default `xpath()` options are used
+ */
+export function explainXPath(
+  html: string,
+  selector: string,
+  options: XPathTraceOptions & {cleaner?: HtmlCleanerType} = {},
+  runtime?: KolmafiaRuntime
+): XPathTrace<Element> {
+  const {cleaner} = {...resolveRuntime(runtime).state.xpathOptions, ...options};
+  return traceXPath(getParsedDocument(html, cleaner), selector, options);
+}
@@ -12,6 +12,8 @@
  *    https://sourceforge.net/p/htmlcleaner/code/HEAD/tree/tags/htmlcleaner-2.24/src/main/java/org/htmlcleaner/TagNode.java
  */
 
+import type {DocumentIndex} from './document-index';
+
 /**
  * Interface that represents a DOM node.
  * This is a subset of the W3C DOM Level 2 Node interface.
@@ -120,7 +122,11 @@ function getAttributeByName(
  *
  * @return Map instance containing all attribute name/value pairs.
  */
-function getAttributes(el: XPatherElement): {[attr: string]: string} {
+export function getAttributes(
+  el: XPatherElement
+): {
+  [attr: string]: string;
+} {
   const attributes: Record<string, string> = {};
   for (let i = 0; i < el.attributes.length; ++i) {
     const attr = el.attributes[i];
@@ -196,6 +202,80 @@ export function evaluateXPath<T extends XPatherElement>(
   return new XPather<T>(xPathExpression).evaluateAgainstNode(el);
 }
 
+/**
+ * Precompiled XPath expression that can be evaluated against any number of
+ * nodes without being tokenized and parsed again.
+ */
+export interface CompiledXPath {
+  /** Original XPath expression */
+  readonly expression: string;
+  /**
+   * For expressions compiled with `strict: false`, the error that strict
+   * mode would have thrown (e.g. a misplaced operator, with its location).
+   * `null` if the expression passed the checks, or was compiled in strict
+   * mode.
+   */
+  readonly diagnostic: XPatherException | null;
+  /**
+   * Evaluates the compiled expression against the given node.
+   * @param el
+   * @param index Index of the document that contains `el`. If given, it is
+   *    used to speed up recursive steps (e.g. `//a`). The document must not
+   *    have been modified since the index was first used.
+   * @return result of XPather evaluation.
+   * @throws {XPatherException}
+   */
+  evaluate<T extends XPatherElement>(
+    el: T,
+    index?: DocumentIndex<T>
+  ): XPatherResult<T>[];
+}
+
+/**
+ * Options for `compileXPath()`.
+ */
+export interface CompileXPathOptions {
+  /**
+   * Whether to check the expression for unbalanced brackets and quotes,
+   * misplaced operators and unsupported functions before it is ever
+   * evaluated (default: `true`). If false, errors are only thrown when
+   * evaluation reaches them, as in KoLmafia, and the first problem found by
+   * the checks is available as `CompiledXPath.diagnostic`.
+   */
+  strict?: boolean;
+}
+
+/**
+ * Compiles an XPath expression so that it can be evaluated against many nodes.
+ *
+ * Unlike `evaluateXPath()`, this checks the expression for unbalanced
+ * brackets and quotes, misplaced operators and unsupported functions before
+ * it is ever evaluated, unless `options.strict` is false.
+ * @param xPathExpression
+ * @param options
+ * @return Compiled XPath expression
+ * @throws {XPatherException} If the expression is malformed
+ */
+export function compileXPath(
+  xPathExpression: string,
+  options: CompileXPathOptions = {}
+): CompiledXPath {
+  const xpather = new XPather<XPatherElement>(xPathExpression);
+  if (options.strict !== false) xpather.validate();
+
+  return {
+    expression: xPathExpression,
+    diagnostic: options.strict === false ? xpather.diagnose() : null,
+    // XPather never creates nodes of its own, so every node it returns must
+    // come from the tree that contains `el`.
+    evaluate: <T extends XPatherElement>(el: T, index?: DocumentIndex<T>) =>
+      xpather.evaluateAgainstNode(
+        el,
+        index as DocumentIndex | undefined
+      ) as XPatherResult<T>[],
+  };
+}
+
 /**
  * Get all elements in the tree that satisfy specified condition.
  * @param condition
@@ -244,13 +324,66 @@ export type XPatherResult<T extends XPatherElement> =
   | string
   | T;
 
+/**
+ * Describes where an XPath expression failed to parse or evaluate.
+ */
+export interface XPatherErrorLocation {
+  /** Full XPath expression */
+  expression: string;
+  /** Index of the offending token */
+  tokenIndex: number;
+  /** Character offset of the offending token in the expression */
+  offset: number;
+}
+
 export class XPatherException extends Error {
-  constructor(message?: string) {
-    super(message);
+  /** XPath expression that caused the error, if known */
+  readonly expression?: string;
+  /** Index of the offending token, if known */
+  readonly tokenIndex?: number;
+  /** Character offset of the offending token, if known */
+  readonly offset?: number;
+  /** Short description of the error, without the location */
+  readonly reason?: string;
+
+  /**
+   * @param reason Short description of the error
+   * @param location If given, the error message includes the expression with
+   *    a caret (`^`) under the offending token
+   */
+  constructor(reason?: string, location?: XPatherErrorLocation) {
+    super(location ? formatErrorMessage(reason || 'error', location) : reason);
     this.name = 'XPatherException';
+    this.reason = reason;
+    if (location) {
+      this.expression = location.expression;
+      this.tokenIndex = location.tokenIndex;
+      this.offset = location.offset;
+    }
   }
 }
 
+/**
+ * Formats an error message that points to the offending part of an XPath
+ * expression, e.g.:
+ *
+ * ```
+ * unknown function 'contains' (at offset 6)
+ *   //div[contains(@id, "x")]
+ *         ^
+ * ```
+ */
+function formatErrorMessage(
+  reason: string,
+  {expression, offset}: XPatherErrorLocation
+): string {
+  return (
+    `${reason} (at offset ${offset})\n` +
+    `  ${expression}\n` +
+    `  ${' '.repeat(offset)}^`
+  );
+}
+
 /**
  * <p>Utility for searching cleaned document tree with XPath expressions.</p>
  * Examples of supported axes:
@@ -269,9 +402,20 @@ export class XPatherException extends Error {
  * </ul>
  * </code>
  */
-class XPather<T extends XPatherElement> {
+export class XPather<T extends XPatherElement> {
   /** array of basic tokens of which XPath expression is made */
-  private tokenArray: string[] = [];
+  protected tokenArray: string[] = [];
+  /**
+   * Memoized results of `findClosingIndex()`, keyed by
+   * `from * tokenArray.length + to`
+   */
+  private readonly closingIndexCache = new Map<number, number>();
+  /** Original XPath expression */
+  private readonly expression: string;
+  /** Character offset of each token in the original expression */
+  private readonly tokenOffsets: number[] = [];
+  /** Index of the document that is currently being evaluated, if any */
+  private index?: DocumentIndex<T>;
 
   /**
    * Constructor - creates XPather instance with specified XPath expression.
@@ -286,30 +430,151 @@ class XPather<T extends XPatherElement> {
     this.tokenArray = expression
       .split(/([/()[\]"'=<>])/)
       .filter(token => token);
+
+    this.expression = expression;
+    let offset = 0;
+    for (const token of this.tokenArray) {
+      this.tokenOffsets.push(offset);
+      offset += token.length;
+    }
+  }
+
+  /**
+   * Creates an exception that points to the given token.
+   * @param reason Short description of the error
+   * @param tokenIndex Index of the offending token
+   */
+  private error(reason: string, tokenIndex: number): XPatherException {
+    let offset = this.expression.length;
+    if (tokenIndex < this.tokenArray.length) {
+      const token = this.tokenArray[tokenIndex];
+      // Point to the first non-whitespace character of the token
+      offset =
+        this.tokenOffsets[tokenIndex] +
+        (token.length - token.replace(/^\s+/, '').length);
+    }
+    return new XPatherException(reason, {
+      expression: this.expression,
+      tokenIndex,
+      offset,
+    });
+  }
+
+  /**
+   * Checks whether all brackets and quotes in the expression are balanced,
+   * every comparison operator is inside a predicate and has a right operand,
+   * and every function call refers to a supported function.
+   *
+   * This is not part of the original XPather, which only detects these errors
+   * while evaluating the expression (if at all).
+   * @throws {XPatherException}
+   */
+  validate(): void {
+    const brackets: number[] = [];
+    let quote = -1;
+
+    for (let i = 0; i < this.tokenArray.length; ++i) {
+      const token = this.tokenArray[i];
+
+      if (quote !== -1) {
+        if (token === this.tokenArray[quote]) {
+          quote = -1;
+        }
+      } else if (token === '"' || token === "'") {
+        quote = i;
+      } else if (token === '(' || token === '[') {
+        brackets.push(i);
+      } else if (token === ')' || token === ']') {
+        const opening = brackets.pop();
+        const expected = token === ')' ? '(' : '[';
+        if (opening === undefined || this.tokenArray[opening] !== expected) {
+          throw this.error(`unbalanced bracket '${token}'`, i);
+        }
+      } else if (token === '=' || token === '<' || token === '>') {
+        const isInFilter = brackets.some(b => this.tokenArray[b] === '[');
+        const next = this.nextNonBlankToken(
+          token === '=' ? i + 1 : this.isToken('=', i + 1) ? i + 2 : i + 1
+        );
+        if (!isInFilter || next === -1 || this.isToken(']', next)) {
+          throw this.error(`misplaced operator '${token}'`, i);
+        }
+      } else if (
+        this.isToken('(', i + 1) &&
+        !isDelimiter(token) &&
+        token.trim() !== '' &&
+        !SUPPORTED_FUNCTIONS.includes(token.trim())
+      ) {
+        throw this.error(`unknown function '${token.trim()}'`, i);
+      }
+    }
+
+    if (quote !== -1) {
+      throw this.error('unbalanced quote', quote);
+    }
+    if (brackets.length > 0) {
+      const last = brackets[brackets.length - 1];
+      throw this.error(`unbalanced bracket '${this.tokenArray[last]}'`, last);
+    }
+  }
+
+  /**
+   * Runs the checks of `validate()` without throwing.
+   * @return The error that `validate()` would throw, or `null`
+   */
+  diagnose(): XPatherException | null {
+    try {
+      this.validate();
+      return null;
+    } catch (e) {
+      if (e instanceof XPatherException) return e;
+      throw e;
+    }
+  }
+
+  /**
+   * @param from
+   * @return Index of the first token at or after `from` that is not blank, or
+   *    -1 if there is none.
+   */
+  private nextNonBlankToken(from: number): number {
+    for (let i = from; i < this.tokenArray.length; ++i) {
+      if (this.tokenArray[i].trim() !== '') {
+        return i;
+      }
+    }
+    return -1;
   }
 
   /**
    * Main public method for this class - a way to execute XPath expression against
    * specified TagNode instance.
    * @param node
+   * @param index Index of the document that contains `node`. If given, it is
+   *    used to speed up recursive steps (e.g. `//a`).
    * @throws {XPatherException}
    */
-  evaluateAgainstNode(node: T): XPatherResult<T>[] {
+  evaluateAgainstNode(node: T, index?: DocumentIndex<T>): XPatherResult<T>[] {
     if (node === null) {
       throw new XPatherException(
         'Cannot evaluate XPath expression against null value!'
       );
     }
 
-    return this.evaluateAgainst(
-      [node],
-      0,
-      this.tokenArray.length - 1,
-      false,
-      1,
-      0,
-      false
-    );
+    const previousIndex = this.index;
+    this.index = index;
+    try {
+      return this.evaluateAgainst(
+        [node],
+        0,
+        this.tokenArray.length - 1,
+        false,
+        1,
+        0,
+        false
+      );
+    } finally {
+      this.index = previousIndex;
+    }
   }
 
   /**
@@ -361,7 +626,7 @@ class XPather<T extends XPatherElement> {
             filterSource
           );
         } else {
-          throwStandardException();
+          throw this.error("unbalanced bracket '('", from);
         }
       } else if (this.isToken('[', from)) {
         const closingBracket = this.findClosingIndex(from, to);
@@ -380,7 +645,7 @@ class XPather<T extends XPatherElement> {
             filterSource
           );
         } else {
-          throwStandardException();
+          throw this.error("unbalanced bracket '['", from);
         }
       } else if (this.isToken('"', from) || this.isToken("'", from)) {
         // string constant
@@ -398,7 +663,7 @@ class XPather<T extends XPatherElement> {
             filterSource
           );
         } else {
-          throwStandardException();
+          throw this.error('unbalanced quote', from);
         }
       } else if (
         (this.isToken('=', from) ||
@@ -473,7 +738,7 @@ class XPather<T extends XPatherElement> {
             filterSource
           );
         } else {
-          throwStandardException();
+          throw this.error("expected a step after '/'", from);
         }
       } else if (this.isFunctionCall(from, to)) {
         const closingBracketIndex = this.findClosingIndex(from + 1, to);
@@ -615,7 +880,7 @@ class XPather<T extends XPatherElement> {
           }
         }
       } else {
-        throw new XPatherException('Unknown function ' + name + '!');
+        throw this.error(`unknown function '${name}'`, from);
       }
     });
 
@@ -681,6 +946,21 @@ class XPather<T extends XPatherElement> {
    * no closing token within expected bounds.
    */
   private findClosingIndex(from: number, to: number): number {
+    const key = from * this.tokenArray.length + to;
+    let index = this.closingIndexCache.get(key);
+    if (index === undefined) {
+      index = this.computeClosingIndex(from, to);
+      this.closingIndexCache.set(key, index);
+    }
+    return index;
+  }
+
+  /**
+   * Uncached implementation of `findClosingIndex()`.
+   * @param from
+   * @param to
+   */
+  private computeClosingIndex(from: number, to: number): number {
     if (from < to) {
       const currToken = this.tokenArray[from];
 
@@ -768,7 +1048,7 @@ class XPather<T extends XPatherElement> {
    * @return Colection of TagNode instances or collection of String instances.
    * @throws {XPatherException}
    */
-  private getElementsByName(
+  protected getElementsByName(
     source: XPatherResult<T>[],
     from: number,
     to: number,
@@ -823,11 +1103,25 @@ class XPather<T extends XPatherElement> {
             }
           }
         } else {
-          throwStandardException();
+          throw this.error(
+            'cannot select attributes of a non-element value',
+            from
+          );
         }
       }
       return result;
     } else {
+      if (isRecursive) {
+        const indexed = this.getDescendantsByIndex(
+          source,
+          name,
+          from,
+          to,
+          isFilterContext
+        );
+        if (indexed) return indexed;
+      }
+
       const resultSet = new Set<XPatherResult<T>>();
       let index = 0;
       for (const next of source) {
@@ -888,12 +1182,115 @@ class XPather<T extends XPatherElement> {
             addAll(resultSet, refinedSubnodes);
           }
         } else {
-          throwStandardException();
+          throw this.error(
+            `cannot select '${name}' from a non-element value`,
+            from
+          );
         }
       }
       return Array.from(resultSet);
     }
   }
+
+  /**
+   * Fast path for the recursive case of `getElementsByName()`, which looks up
+   * descendants in the document index instead of walking every subtree.
+   * This returns the same nodes in the same order.
+   *
+   * Only plain tag names followed by zero or more predicates are supported,
+   * since the order of results for `*`, `.` and `..` differs from document
+   * order.
+   * @return Matching nodes, or `null` if the fast path cannot be used
+   */
+  private getDescendantsByIndex(
+    source: XPatherResult<T>[],
+    name: string,
+    from: number,
+    to: number,
+    isFilterContext: boolean
+  ): XPatherResult<T>[] | null {
+    const index = this.index;
+    if (
+      !index ||
+      name === '.' ||
+      name === '..' ||
+      name === '*' ||
+      !this.isPredicateList(from + 1, to) ||
+      !source.every(next => isElement(next) && index.getRange(next))
+    ) {
+      return null;
+    }
+
+    const resultSet = new Set<XPatherResult<T>>();
+    /** Nodes accepted by the predicates, grouped by parent */
+    const acceptedByParent = new Map<XPatherNode | null, Set<T>>();
+    let lastRange: [number, number] | undefined;
+
+    for (const next of source as T[]) {
+      const range = index.getRange(next)!;
+      // All descendants of an element inside the previous one have already
+      // been added
+      if (lastRange && lastRange[0] <= range[0] && range[1] <= lastRange[1]) {
+        continue;
+      }
+      lastRange = range;
+
+      const descendants = index.getDescendantsByName(next, name)!;
+      if (from === to) {
+        addAll(resultSet, descendants);
+        continue;
+      }
+
+      // Predicates are evaluated against all children of the same parent
+      // with the given name, just like the non-recursive case
+      for (const descendant of descendants) {
+        const parent = descendant.parentNode;
+        let accepted = acceptedByParent.get(parent);
+        if (!accepted) {
+          const siblings = getElementListByName(parent as T, name, false);
+          accepted = new Set(
+            this.evaluateAgainst(
+              siblings,
+              from + 1,
+              to,
+              false,
+              1,
+              siblings.length,
+              isFilterContext
+            ) as T[]
+          );
+          acceptedByParent.set(parent, accepted);
+        }
+        if (accepted.has(descendant)) {
+          resultSet.add(descendant);
+        }
+      }
+    }
+
+    return Array.from(resultSet);
+  }
+
+  /**
+   * Checks if the tokens in the specified range consist only of predicates
+   * (e.g. `[1][@id]`).
+   * @param from
+   * @param to
+   */
+  private isPredicateList(from: number, to: number): boolean {
+    let i = from;
+    while (i <= to) {
+      if (this.tokenArray[i].trim() === '') {
+        i++;
+      } else if (this.isToken('[', i)) {
+        const closingBracket = this.findClosingIndex(i, to);
+        if (closingBracket <= i) return false;
+        i = closingBracket + 1;
+      } else {
+        return false;
+      }
+    }
+    return true;
+  }
 }
 
 // ----------------------------------------------------------------------------
@@ -953,6 +1350,22 @@ function evaluateLogic<T extends XPatherElement>(
   return false;
 }
 
+/** Names of functions that can be used in XPather expressions */
+export const SUPPORTED_FUNCTIONS: readonly string[] = [
+  'last',
+  'position',
+  'text',
+  'count',
+  'data',
+];
+
+/**
+ * Checks if token is one of the delimiters that the tokenizer splits on
+ */
+function isDelimiter(token: string): boolean {
+  return token.length === 1 && '/()[]"\'=<>'.includes(token);
+}
+
 /**
  * Checks if token is attribute (starts with @)
  */
@@ -1013,13 +1426,6 @@ function isValidInteger(value: string): boolean {
   return false;
 }
 
-/**
- * @throws {XPatherException}
- */
-function throwStandardException(): never {
-  throw new XPatherException();
-}
-
 function toText<T extends XPatherElement>(o: XPatherResult<T>): string {
   return isElement(o) ? o.textContent || '' : String(o);
 }
@@ -0,0 +1,9 @@
+/**
+ * @file Installs the `kolmafia` module stubs as soon as it is loaded.
+ * This is the entry point of `kolmafia-stubs/register`, which can be used with
+ * `node -r` or as a Jasmine helper.
+ */
+
+import {installKolmafiaStubs} from './lib/install';
+
+installKolmafiaStubs();
@@ -0,0 +1,175 @@
+/**
+ * @file KoLmafia functions that spend turns adventuring (e.g. `adv1()`).
+ *
+ * Adventuring takes the next encounter queued for a location (see
+ * `combat.ts`), then fights with attacks and makes choices according to the
+ * `choiceAdventure<N>` preferences (see `choices.ts`) until the encounter
+ * ends.
+ */
+
+import {normalizeUrl, parseFields} from './cassettes';
+import {
+  chooseOption,
+  getPreferredOption,
+  renderChoicePage,
+  visitChoiceUrl,
+} from './choices';
+import {
+  endEncounter,
+  finishFight,
+  renderPage,
+  startFight,
+  visitFightUrl,
+} from './combat';
+import {getEntity, Location} from './game-types';
+import type {RuntimeState} from './runtime';
+
+/**
+ * Returns whether the character can spend a turn adventuring.
+ */
+function canAdventure({character}: RuntimeState): boolean {
+  return (
+    character.adventures > 0 &&
+    character.inebriety <= character.inebrietyLimit &&
+    character.hp > 0
+  );
+}
+
+/**
+ * Starts the next encounter at a location. Noncombat adventures without a
+ * choice end at once.
+ * @return Page shown by the encounter
+ * @throws {UnscriptedEncounterError} If no encounter is queued
+ */
+function startEncounter(state: RuntimeState, location: Location): string {
+  const encounter = state.combat.take(location);
+  if (encounter.monster) {
+    return startFight(state, location.name, encounter);
+  }
+  if (encounter.choice) {
+    const {choice} = encounter;
+    state.choices.begin(location.name, choice, false, !!encounter.free);
+    return renderChoicePage(choice);
+  }
+  const name = encounter.name || 'noncombat';
+  return endEncounter(
+    state,
+    location.name,
+    {...encounter, name},
+    'noncombat',
+    [],
+    0
+  );
+}
+
+/**
+ * Fights with attacks and makes choices according to the
+ * `choiceAdventure<N>` preferences, until the current encounter ends.
+ * @return Whether the encounter ended without losing. If a choice has no
+ *    usable preference, it is left pending and `false` is returned.
+ */
+function finishEncounter(state: RuntimeState): boolean {
+  const {choices, combat} = state;
+  for (;;) {
+    if (combat.fight) {
+      finishFight(state);
+      if (combat.history[combat.history.length - 1].result === 'lose') {
+        return false;
+      }
+    } else if (choices.current) {
+      const option = getPreferredOption(state);
+      if (!option) return false;
+      chooseOption(state, option);
+    } else {
+      return true;
+    }
+  }
+}
+
+/**
+ * Handles requests for `adventure.php`, `fight.php` and `choice.php`, so
+ * that scripts can adventure, fight and make choices with `visitUrl()`.
+ * @param state
+ * @param url URL given to `visitUrl()`
+ * @param encoded Whether the form fields in the URL are URL-encoded
+ * @return Page shown by the encounter, or `null` if the request does not
+ *    belong to a scripted encounter
+ */
+export function visitEncounterUrl(
+  state: RuntimeState,
+  url: string,
+  encoded: boolean
+): string | null {
+  const path = normalizeUrl(url).split('?')[0];
+  const fields = parseFields(url, encoded);
+  const {choices, combat, gameData} = state;
+
+  if (path === 'fight.php') return visitFightUrl(state, fields);
+  if (path === 'choice.php') return visitChoiceUrl(state, fields);
+  if (path === 'adventure.php' && fields.snarfblat) {
+    const location = getEntity(Location, gameData, Number(fields.snarfblat));
+    if (combat.getQueued(location).length === 0) return null;
+    if (combat.fight) return combat.page;
+    if (choices.current) return visitChoiceUrl(state, {});
+    if (!canAdventure(state)) {
+      return renderPage(location.name, ["You can't adventure now."], false);
+    }
+    return startEncounter(state, location);
+  }
+  return null;
+}
+
+export interface AdventureFunctions {
+  /**
+   * Adventures once at a location, fighting with attacks and making choices
+   * according to the `choiceAdventure<N>` preferences.
+   * @param location
+   * @param adventuresUsed Ignored
+   * @param filter Ignored; fights always use attacks
+   * @return Whether the adventure happened and was not lost
+   * @throws {UnscriptedEncounterError} If no encounter is queued
+   */
+  adv1(location: Location, adventuresUsed?: number, filter?: string): boolean;
+  /**
+   * Adventures at a location until the given number of turns is spent, like
+   * `adv1()`. Free encounters do not count. Stops early once every queued
+   * encounter of the location has been played.
+   * @return Whether every adventure happened and was not lost
+   * @throws {UnscriptedEncounterError} If no encounter is queued at first
+   */
+  adventure(location: Location, turns: number, filter?: string): boolean;
+  adventure(turns: number, location: Location, filter?: string): boolean;
+  myLocation(): Location;
+}
+
+export function createAdventureFunctions(
+  state: RuntimeState
+): AdventureFunctions {
+  const {character, combat, gameData} = state;
+
+  const adv1 = (location: Location) => {
+    if (!finishEncounter(state) || !canAdventure(state)) return false;
+    startEncounter(state, location);
+    return finishEncounter(state);
+  };
+
+  return {
+    adv1,
+    adventure: ((arg1: Location | number, arg2: Location | number) => {
+      const [location, turns] =
+        arg1 instanceof Location
+          ? [arg1, arg2 as number]
+          : [arg2 as Location, arg1];
+      const target = character.turncount + turns;
+      while (character.turncount < target) {
+        if (!adv1(location)) return false;
+        if (combat.getQueued(location).length === 0) break;
+      }
+      return true;
+    }) as AdventureFunctions['adventure'],
+    myLocation: () => {
+      const last = combat.history[combat.history.length - 1];
+      return getEntity(Location, gameData, last ? last.location : 'none');
+    },
+  };
+}
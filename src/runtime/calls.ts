@@ -0,0 +1,232 @@
+/**
+ * @file Records every call to the KoLmafia functions of a runtime, and lets
+ * tests replace or wrap their implementations.
+ *
+ * Calls are recorded when they are made through the runtime or through the
+ * `kolmafia` module, but not when a function is used internally by another.
+ */
+
+import type {KolmafiaFunctions} from './runtime';
+
+/** Name of a KoLmafia function */
+export type FunctionName = keyof KolmafiaFunctions;
+
+type AnyFunction = (...args: unknown[]) => unknown;
+
+/**
+ * Call to a KoLmafia function.
+ */
+export interface CallRecord {
+  /** Name of the function */
+  name: FunctionName;
+  args: unknown[];
+  /**
+   * Position of the call among all recorded calls, starting at 0. Calls
+   * forgotten because of the limit of the recorder still count.
+   */
+  index: number;
+  /** Time of the call, in milliseconds since the epoch */
+  time: number;
+  /**
+   * Location of the code that made the call, as `"path:line:column"`, or an
+   * empty string if it is unknown
+   */
+  callSite: string;
+  /** Value returned by the function, if it returned */
+  result?: unknown;
+  /** Error thrown by the function, if it threw */
+  error?: unknown;
+}
+
+/**
+ * Criteria for selecting recorded calls. A call must match all of them.
+ */
+export interface CallFilter {
+  /** Name of the function, or list of names */
+  name?: FunctionName | FunctionName[];
+  /** Earliest time of the call (inclusive) */
+  since?: number | Date;
+  /** Latest time of the call (inclusive) */
+  until?: number | Date;
+  /**
+   * Part of the call site (e.g. the name of a file), or a regular expression
+   * that must match it
+   */
+  callSite?: string | RegExp;
+}
+
+/**
+ * Returns the location of the code that called a function.
+ * @param caller Function whose caller is wanted
+ */
+function getCallSite(caller: AnyFunction): string {
+  const holder: {stack?: string} = {};
+  Error.captureStackTrace(holder, caller);
+  const frame = (holder.stack || '').split('\n')[1] || '';
+  const match = /at (?:.* \()?(.+:\d+:\d+)\)?$/.exec(frame.trim());
+  return match ? match[1] : '';
+}
+
+/**
+ * Returns whether a call matches a filter.
+ */
+function matchesFilter(call: CallRecord, filter: CallFilter): boolean {
+  const {name, since, until, callSite} = filter;
+  if (name !== undefined) {
+    const names: string[] = Array.isArray(name) ? name : [name];
+    if (!names.includes(call.name)) return false;
+  }
+  if (since !== undefined && call.time < Number(since)) return false;
+  if (until !== undefined && call.time > Number(until)) return false;
+  if (callSite !== undefined) {
+    return typeof callSite === 'string'
+      ? call.callSite.includes(callSite)
+      : callSite.test(call.callSite);
+  }
+  return true;
+}
+
+/** Default maximum number of calls kept by a recorder */
+export const DEFAULT_CALL_LIMIT = 10000;
+
+/**
+ * Options for the call recorder of a runtime.
+ */
+export interface CallRecorderOptions {
+  /**
+   * Maximum number of calls to keep. Once it is reached, the oldest calls
+   * are forgotten (default: `DEFAULT_CALL_LIMIT`). Use `Infinity` to keep
+   * every call.
+   */
+  limit?: number;
+}
+
+/**
+ * Records the calls to the KoLmafia functions of a runtime, and holds the
+ * implementations that replace or wrap them.
+ */
+export class CallRecorder {
+  /** Recorded calls, in order, up to the limit */
+  readonly calls: CallRecord[] = [];
+  /** Maximum number of calls kept */
+  limit: number;
+  /** Number of calls recorded since the last `clear()` */
+  private count = 0;
+  /** Original implementations, keyed by function name */
+  private readonly defaults = new Map<string, AnyFunction>();
+  /** Implementations set by tests, keyed by function name */
+  private readonly overrides = new Map<string, AnyFunction>();
+
+  constructor(options: CallRecorderOptions = {}) {
+    this.limit =
+      options.limit === undefined ? DEFAULT_CALL_LIMIT : options.limit;
+  }
+
+  /**
+   * Returns functions that record their calls and use the implementations
+   * set by tests, falling back to the given functions.
+   * @param functions KoLmafia functions, keyed by name
+   */
+  instrument<T extends Partial<KolmafiaFunctions>>(functions: T): T {
+    const instrumented: Record<string, AnyFunction> = {};
+    for (const name of Object.keys(functions) as FunctionName[]) {
+      this.defaults.set(name, functions[name] as AnyFunction);
+      const recorded = (...args: unknown[]) =>
+        this.invoke(name, args, recorded);
+      instrumented[name] = recorded;
+    }
+    return instrumented as T;
+  }
+
+  /**
+   * Calls a KoLmafia function, and records the call.
+   * @param name Name of the function
+   * @param args
+   * @param caller Function that received the call from the code under test.
+   *    Its caller is recorded as the call site.
+   * @throws {Error} If the function does not exist
+   */
+  invoke(name: FunctionName, args: unknown[], caller: AnyFunction): unknown {
+    const implementation = this.getImplementation(name);
+    const call: CallRecord = {
+      name,
+      args,
+      index: this.count++,
+      time: Date.now(),
+      callSite: getCallSite(caller),
+    };
+    this.calls.push(call);
+    if (this.calls.length > this.limit) {
+      this.calls.splice(0, this.calls.length - this.limit);
+    }
+    try {
+      call.result = implementation(...args);
+      return call.result;
+    } catch (e) {
+      call.error = e;
+      throw e;
+    }
+  }
+
+  /**
+   * Returns the recorded calls that match a filter, in order.
+   * @param filter
+   */
+  getCalls(filter: CallFilter = {}): CallRecord[] {
+    return this.calls.filter(call => matchesFilter(call, filter));
+  }
+
+  /**
+   * Forgets all recorded calls.
+   */
+  clear(): void {
+    this.calls.length = 0;
+    this.count = 0;
+  }
+
+  /**
+   * Replaces the implementation of a function.
+   * @param name Name of the function
+   * @param implementation
+   */
+  replace<K extends FunctionName>(
+    name: K,
+    implementation: KolmafiaFunctions[K]
+  ): void {
+    this.overrides.set(name, (implementation as unknown) as AnyFunction);
+  }
+
+  /**
+   * Wraps the current implementation of a function. Wrapping a function
+   * several times nests the wrappers.
+   * @param name Name of the function
+   * @param wrapper Receives the current implementation, and returns the new
+   *    one
+   * @throws {Error} If the function does not exist
+   */
+  wrap<K extends FunctionName>(
+    name: K,
+    wrapper: (original: KolmafiaFunctions[K]) => KolmafiaFunctions[K]
+  ): void {
+    const original = this.getImplementation(name);
+    this.replace(name, wrapper((original as unknown) as KolmafiaFunctions[K]));
+  }
+
+  /**
+   * Restores the original implementation of a function.
+   * @param name Name of the function. If omitted, restores all functions.
+   */
+  restore(name?: FunctionName): void {
+    if (name === undefined) {
+      this.overrides.clear();
+    } else {
+      this.overrides.delete(name);
+    }
+  }
+
+  private getImplementation(name: FunctionName): AnyFunction {
+    const implementation = this.overrides.get(name) || this.defaults.get(name);
+    if (!implementation) throw new Error(`Unknown function: ${name}`);
+    return implementation;
+  }
+}
@@ -0,0 +1,382 @@
+/**
+ * @file Playback of recorded responses ("cassettes") for `visitUrl()`.
+ *
+ * A cassette is a list of entries, each of which describes a request (URL,
+ * and optionally method and form fields) and the response body that KoLmafia
+ * returned for it. When a script visits a URL, the player returns the body of
+ * the first matching entry that has not been played yet. Once all matching
+ * entries have been played, the last one is replayed, so that cassettes do
+ * not need to record every repeated visit to the same page.
+ */
+
+/** HTTP method of a request */
+export type RequestMethod = 'GET' | 'POST';
+
+/**
+ * Recorded request and the response to it.
+ * Each entry must specify exactly one of `url`, `glob` and `regex`.
+ */
+export interface CassetteEntry {
+  /** URL that must match exactly (excluding the scheme and host) */
+  url?: string;
+  /**
+   * Pattern that the URL must match, where `*` matches any sequence of
+   * characters. All other characters, including `?`, match themselves.
+   */
+  glob?: string;
+  /** Regular expression that must match part of the URL */
+  regex?: string | RegExp;
+  /** HTTP method that the request must use. If omitted, any method matches */
+  method?: RequestMethod;
+  /**
+   * Form fields that the request must contain. Other fields are ignored.
+   * Fields are taken from the query string of the URL.
+   */
+  fields?: Record<string, string>;
+  /** Response body returned by `visitUrl()` */
+  response: string;
+}
+
+/**
+ * List of recorded responses, usually loaded from a JSON file with
+ * `loadCassette()`.
+ */
+export interface Cassette {
+  /** Name used in error messages, e.g. the path of the cassette file */
+  name?: string;
+  entries: CassetteEntry[];
+}
+
+/**
+ * Options for a cassette inserted into a player.
+ */
+export interface CassetteOptions {
+  /**
+   * If true, `CassettePlayer.eject()` throws if any entry of this cassette
+   * has not been played.
+   */
+  strict?: boolean;
+}
+
+/**
+ * Request made by `visitUrl()`.
+ */
+export interface CassetteRequest {
+  /** URL without the scheme and host, e.g. `inventory.php?which=1` */
+  url: string;
+  method: RequestMethod;
+  /** Form fields parsed from the query string */
+  fields: Record<string, string>;
+}
+
+interface InsertedCassette {
+  cassette: Cassette;
+  options: CassetteOptions;
+  /** Number of times each entry has been played */
+  plays: number[];
+}
+
+/**
+ * Entry of an inserted cassette.
+ */
+interface EntryLocation {
+  inserted: InsertedCassette;
+  index: number;
+}
+
+/** Maximum number of entries listed by `CassetteMismatchError` */
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Thrown when no cassette entry matches a request.
+ */
+export class CassetteMismatchError extends Error {
+  /**
+   * @param request Request that did not match
+   * @param closest Descriptions of the closest entries, best first
+   */
+  constructor(readonly request: CassetteRequest, closest: string[]) {
+    super(
+      `No cassette entry matches ${describeRequest(request)}` +
+        (closest.length
+          ? '\nClosest entries:\n' + closest.map(e => `  ${e}`).join('\n')
+          : '\nNo cassettes are inserted')
+    );
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+/**
+ * Thrown when a strict cassette is ejected before all of its entries have
+ * been played.
+ */
+export class UnusedCassetteEntriesError extends Error {
+  /**
+   * @param unused Descriptions of the entries that were not played
+   */
+  constructor(readonly unused: string[]) {
+    super(
+      `${unused.length} cassette ${
+        unused.length === 1 ? 'entry was' : 'entries were'
+      } never played:\n` + unused.map(e => `  ${e}`).join('\n')
+    );
+    this.name = 'UnusedCassetteEntriesError';
+  }
+}
+
+/**
+ * Removes the scheme, host and leading slashes from a URL, so that
+ * `https://www.kingdomofloathing.com/main.php` and `main.php` are the same.
+ */
+export function normalizeUrl(url: string): string {
+  return url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '').replace(/^\/+/, '');
+}
+
+/**
+ * Parses the form fields in the query string of a URL.
+ * @param url
+ * @param encoded Whether the field values are URL-encoded
+ */
+export function parseFields(
+  url: string,
+  encoded: boolean
+): Record<string, string> {
+  const fields: Record<string, string> = {};
+  const queryStart = url.indexOf('?');
+  if (queryStart === -1) return fields;
+
+  for (const pair of url.slice(queryStart + 1).split('&')) {
+    if (pair === '') continue;
+    const separator = pair.indexOf('=');
+    const name = separator === -1 ? pair : pair.slice(0, separator);
+    const value = separator === -1 ? '' : pair.slice(separator + 1);
+    fields[name] = encoded ? decodeField(value) : value;
+  }
+  return fields;
+}
+
+function decodeField(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Converts a glob pattern to a regular expression that matches whole URLs.
+ */
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('*')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Returns the URL pattern of an entry as written in the cassette.
+ */
+function getPattern(entry: CassetteEntry): string {
+  if (entry.url !== undefined) return entry.url;
+  if (entry.glob !== undefined) return entry.glob;
+  return String(entry.regex);
+}
+
+function matchesUrl(entry: CassetteEntry, url: string): boolean {
+  if (entry.url !== undefined) return normalizeUrl(entry.url) === url;
+  if (entry.glob !== undefined) {
+    return globToRegExp(normalizeUrl(entry.glob)).test(url);
+  }
+  if (entry.regex !== undefined) {
+    return new RegExp(entry.regex as string | RegExp).test(url);
+  }
+  return false;
+}
+
+function matches(entry: CassetteEntry, request: CassetteRequest): boolean {
+  if (entry.method && entry.method !== request.method) return false;
+  if (entry.fields) {
+    for (const name of Object.keys(entry.fields)) {
+      if (request.fields[name] !== entry.fields[name]) return false;
+    }
+  }
+  return matchesUrl(entry, request.url);
+}
+
+function describeRequest(request: CassetteRequest): string {
+  return `${request.method} ${request.url}`;
+}
+
+function describeEntry({inserted, index}: EntryLocation): string {
+  const entry = inserted.cassette.entries[index];
+  const kind =
+    entry.url !== undefined
+      ? ''
+      : entry.glob !== undefined
+      ? 'glob '
+      : 'regex ';
+  const fields = entry.fields ? ' ' + JSON.stringify(entry.fields) : '';
+  const source = inserted.cassette.name
+    ? `${inserted.cassette.name} #${index}`
+    : `#${index}`;
+  return `${entry.method || '*'} ${kind}${getPattern(
+    entry
+  )}${fields} (${source})`;
+}
+
+/**
+ * Returns the edit distance between two strings.
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({length: b.length + 1}, (_, i) => i);
+  for (let i = 1; i <= a.length; ++i) {
+    const current = [i];
+    for (let j = 1; j <= b.length; ++j) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Checks that a cassette entry specifies exactly one URL pattern and a
+ * response.
+ * @param entry
+ * @param description Description of the entry used in error messages
+ * @throws {Error} If the entry is invalid
+ */
+export function validateCassetteEntry(
+  entry: CassetteEntry,
+  description: string
+): void {
+  const patterns = [entry.url, entry.glob, entry.regex].filter(
+    p => p !== undefined
+  );
+  if (patterns.length !== 1) {
+    throw new Error(
+      `Cassette entry ${description} must have exactly one of 'url', 'glob' and 'regex'`
+    );
+  }
+  if (typeof entry.response !== 'string') {
+    throw new Error(`Cassette entry ${description} must have a 'response'`);
+  }
+  if (entry.method !== undefined && !/^(GET|POST)$/.test(entry.method)) {
+    throw new Error(
+      `Cassette entry ${description} has unknown method '${entry.method}'`
+    );
+  }
+}
+
+/**
+ * Plays back the responses in the cassettes inserted into it.
+ */
+export class CassettePlayer {
+  private inserted: InsertedCassette[] = [];
+
+  /**
+   * Adds a cassette. Entries of cassettes inserted earlier take precedence.
+   * @param cassette
+   * @param options
+   * @throws {Error} If an entry of the cassette is invalid
+   */
+  insert(cassette: Cassette, options: CassetteOptions = {}): void {
+    cassette.entries.forEach((entry, index) =>
+      validateCassetteEntry(
+        entry,
+        cassette.name ? `#${index} in ${cassette.name}` : `#${index}`
+      )
+    );
+    this.inserted.push({
+      cassette,
+      options,
+      plays: cassette.entries.map(() => 0),
+    });
+  }
+
+  /**
+   * Returns the response to a request.
+   * @param request
+   * @throws {CassetteMismatchError} If no entry matches the request
+   */
+  play(request: CassetteRequest): string {
+    let lastMatch: EntryLocation | undefined;
+    for (const location of this.getEntries()) {
+      const {inserted, index} = location;
+      if (!matches(inserted.cassette.entries[index], request)) continue;
+      if (inserted.plays[index] === 0) {
+        return this.playEntry(location);
+      }
+      lastMatch = location;
+    }
+    if (lastMatch) return this.playEntry(lastMatch);
+
+    throw new CassetteMismatchError(request, this.findClosest(request));
+  }
+
+  /**
+   * Returns descriptions of the entries that have not been played yet.
+   * @param strictOnly Whether to only check cassettes inserted in strict mode
+   */
+  getUnusedEntries(strictOnly = false): string[] {
+    return this.getEntries()
+      .filter(
+        ({inserted, index}) =>
+          inserted.plays[index] === 0 &&
+          (!strictOnly || inserted.options.strict)
+      )
+      .map(describeEntry);
+  }
+
+  /**
+   * Removes all cassettes.
+   * @throws {UnusedCassetteEntriesError} If a cassette was inserted in strict
+   *    mode and some of its entries were not played. The cassettes are
+   *    removed anyway.
+   */
+  eject(): void {
+    const unused = this.getUnusedEntries(true);
+    this.inserted = [];
+    if (unused.length) throw new UnusedCassetteEntriesError(unused);
+  }
+
+  private getEntries(): EntryLocation[] {
+    const entries: EntryLocation[] = [];
+    for (const inserted of this.inserted) {
+      inserted.cassette.entries.forEach((_, index) =>
+        entries.push({inserted, index})
+      );
+    }
+    return entries;
+  }
+
+  private playEntry({inserted, index}: EntryLocation): string {
+    ++inserted.plays[index];
+    return inserted.cassette.entries[index].response;
+  }
+
+  /**
+   * Returns descriptions of the entries whose URL patterns are most similar
+   * to the URL of a request.
+   */
+  private findClosest(request: CassetteRequest): string[] {
+    return this.getEntries()
+      .map(location => ({
+        location,
+        distance: levenshtein(
+          normalizeUrl(
+            getPattern(location.inserted.cassette.entries[location.index])
+          ),
+          request.url
+        ),
+      }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(({location}) => describeEntry(location));
+  }
+}
@@ -0,0 +1,423 @@
+/**
+ * @file Model of the current character, and the KoLmafia functions that read
+ * it (e.g. `myHp()`, `myLevel()`).
+ *
+ * Derived values are computed the way KoL computes them, so they stay
+ * consistent when other values change:
+ * - Stats are stored as substats. The base value of a stat is the square root
+ *   of its substats, rounded down.
+ * - The level depends on the base value of the character's primestat.
+ * - Buffed stats are base stats plus bonuses.
+ * - Maximum HP and MP are derived from buffed Muscle and Mysticality, unless
+ *   they are set explicitly.
+ */
+
+import type {GameData} from './game-data';
+import {Class, Effect, Familiar, getEntity, Stat} from './game-types';
+import type {RuntimeState} from './runtime';
+
+/** Names of the three stats */
+export type StatName = 'Muscle' | 'Mysticality' | 'Moxie';
+
+const STAT_NAMES: readonly StatName[] = ['Muscle', 'Mysticality', 'Moxie'];
+
+/**
+ * Values used to create or update a character. Omitted values are left
+ * unchanged, or take their defaults when the character is created.
+ */
+export interface CharacterOptions {
+  /** Name of the character (default: `""`) */
+  name?: string;
+  /** Player id (default: `1`) */
+  id?: number;
+  /** Name of the character's class (default: `"Seal Clubber"`) */
+  class?: string;
+  /** Name of the current path (default: `"None"`) */
+  path?: string;
+  /** Whether the character is in hardcore (default: `false`) */
+  hardcore?: boolean;
+  /**
+   * Level of the character (default: `1`). Sets the base value of the
+   * primestat to the minimum for this level, unless it is already in range.
+   * Applied before `baseStats` and `substats`.
+   */
+  level?: number;
+  /**
+   * Base stats. By default, all stats have the minimum base value of the
+   * primestat for the character's level.
+   */
+  baseStats?: Partial<Record<StatName, number>>;
+  /** Substats, which take precedence over `baseStats` */
+  substats?: Partial<Record<StatName, number>>;
+  /** Bonuses added to base stats to obtain buffed stats (default: `0`) */
+  statBonuses?: Partial<Record<StatName, number>>;
+  /** Current HP (default: maximum HP) */
+  hp?: number;
+  /** Maximum HP, or `null` to derive it from buffed Muscle */
+  maxhp?: number | null;
+  /** Current MP (default: maximum MP) */
+  mp?: number;
+  /** Maximum MP, or `null` to derive it from buffed Mysticality */
+  maxmp?: number | null;
+  meat?: number;
+  /** Adventures remaining */
+  adventures?: number;
+  fullness?: number;
+  inebriety?: number;
+  spleenUse?: number;
+  /** Maximum fullness (default: `15`) */
+  fullnessLimit?: number;
+  /** Maximum inebriety without being overdrunk (default: `14`) */
+  inebrietyLimit?: number;
+  /** Maximum spleen use (default: `15`) */
+  spleenLimit?: number;
+  /** Turns played in the current ascension */
+  turncount?: number;
+  /** Days spent in the current ascension (default: `1`) */
+  daycount?: number;
+  /** Number of ascensions */
+  ascensions?: number;
+  /** Name of the current familiar (default: `"none"`) */
+  familiar?: string;
+  /**
+   * Turns remaining of active effects, keyed by name. Effects set to 0 turns
+   * are removed.
+   */
+  effects?: Record<string, number>;
+}
+
+/**
+ * Returns the minimum base value of the primestat for a level.
+ */
+function minimumPrimestat(level: number): number {
+  return (level - 1) ** 2 + 4;
+}
+
+/**
+ * Stores the state of the character of a runtime.
+ */
+export class CharacterState {
+  name = '';
+  id = 1;
+  path = 'None';
+  hardcore = false;
+  meat = 0;
+  adventures = 0;
+  fullness = 0;
+  inebriety = 0;
+  spleenUse = 0;
+  fullnessLimit = 15;
+  inebrietyLimit = 14;
+  spleenLimit = 15;
+  turncount = 0;
+  daycount = 1;
+  ascensions = 0;
+  familiar = 'none';
+  /** Bonuses added to base stats to obtain buffed stats */
+  readonly statBonuses: Record<StatName, number> = {
+    Muscle: 0,
+    Mysticality: 0,
+    Moxie: 0,
+  };
+  private className = 'Seal Clubber';
+  private readonly substats: Record<StatName, number> = {
+    Muscle: 0,
+    Mysticality: 0,
+    Moxie: 0,
+  };
+  /** Current HP and MP, or `null` if full */
+  private currentHp: number | null = null;
+  private currentMp: number | null = null;
+  private maxhpOverride: number | null = null;
+  private maxmpOverride: number | null = null;
+  /** Turns remaining of active effects, keyed by name */
+  private readonly effects = new Map<string, number>();
+
+  /**
+   * @param gameData Game data used to look up classes and familiars
+   * @param options
+   * @throws {Error} If the class or familiar does not exist
+   */
+  constructor(
+    private readonly gameData: GameData,
+    options: CharacterOptions = {}
+  ) {
+    const level = options.level || 1;
+    for (const stat of STAT_NAMES) {
+      this.substats[stat] = minimumPrimestat(level) ** 2;
+    }
+    this.update(options);
+  }
+
+  /**
+   * Changes some values of the character.
+   * @param options
+   * @throws {Error} If the class or familiar does not exist
+   */
+  update(options: CharacterOptions): void {
+    if (options.class !== undefined) {
+      this.className = getEntity(Class, this.gameData, options.class).name;
+    }
+    if (options.familiar !== undefined) {
+      this.familiar = getEntity(Familiar, this.gameData, options.familiar).name;
+    }
+    if (options.level !== undefined && options.level !== this.level) {
+      this.setBaseStat(this.primestat, minimumPrimestat(options.level));
+    }
+    for (const stat of STAT_NAMES) {
+      const base = options.baseStats && options.baseStats[stat];
+      if (base !== undefined) this.setBaseStat(stat, base);
+      const substats = options.substats && options.substats[stat];
+      if (substats !== undefined) this.substats[stat] = substats;
+      const bonus = options.statBonuses && options.statBonuses[stat];
+      if (bonus !== undefined) this.statBonuses[stat] = bonus;
+    }
+    if (options.maxhp !== undefined) this.maxhpOverride = options.maxhp;
+    if (options.maxmp !== undefined) this.maxmpOverride = options.maxmp;
+    if (options.hp !== undefined) this.hp = options.hp;
+    if (options.mp !== undefined) this.mp = options.mp;
+
+    const {name, id, path, hardcore, meat, adventures} = options;
+    if (name !== undefined) this.name = name;
+    if (id !== undefined) this.id = id;
+    if (path !== undefined) this.path = path;
+    if (hardcore !== undefined) this.hardcore = hardcore;
+    if (meat !== undefined) this.meat = meat;
+    if (adventures !== undefined) this.adventures = adventures;
+    const {fullness, inebriety, spleenUse} = options;
+    if (fullness !== undefined) this.fullness = fullness;
+    if (inebriety !== undefined) this.inebriety = inebriety;
+    if (spleenUse !== undefined) this.spleenUse = spleenUse;
+    const {fullnessLimit, inebrietyLimit, spleenLimit} = options;
+    if (fullnessLimit !== undefined) this.fullnessLimit = fullnessLimit;
+    if (inebrietyLimit !== undefined) this.inebrietyLimit = inebrietyLimit;
+    if (spleenLimit !== undefined) this.spleenLimit = spleenLimit;
+    const {turncount, daycount, ascensions} = options;
+    if (turncount !== undefined) this.turncount = turncount;
+    if (daycount !== undefined) this.daycount = daycount;
+    if (ascensions !== undefined) this.ascensions = ascensions;
+    const effects = options.effects || {};
+    for (const name of Object.keys(effects)) {
+      this.setEffectTurns(name, effects[name]);
+    }
+  }
+
+  /**
+   * Returns the number of turns remaining of an effect, or 0 if it is not
+   * active.
+   * @param effect Effect, or its name or id
+   */
+  getEffectTurns(effect: Effect | string | number): number {
+    const {name} = this.toEffect(effect);
+    return this.effects.get(name) || 0;
+  }
+
+  /**
+   * Sets the number of turns remaining of an effect.
+   * @param effect Effect, or its name or id
+   * @param turns Number of turns, or 0 to remove the effect
+   * @throws {Error} If the effect does not exist
+   */
+  setEffectTurns(effect: Effect | string | number, turns: number): void {
+    const {name} = this.toEffect(effect);
+    if (turns > 0) this.effects.set(name, turns);
+    else this.effects.delete(name);
+  }
+
+  /**
+   * Returns the turns remaining of all active effects, keyed by name.
+   */
+  getEffects(): Record<string, number> {
+    const effects: Record<string, number> = {};
+    for (const [name, turns] of this.effects) effects[name] = turns;
+    return effects;
+  }
+
+  /**
+   * Spends a turn: reduces the turns remaining of every effect by 1, and
+   * increases the turn count.
+   */
+  spendTurn(): void {
+    for (const [name, turns] of this.effects) {
+      this.setEffectTurns(name, turns - 1);
+    }
+    --this.adventures;
+    ++this.turncount;
+  }
+
+  /** Name of the character's class */
+  get class(): string {
+    return this.className;
+  }
+
+  /** Primestat of the character's class */
+  get primestat(): StatName {
+    const record = this.gameData.classes.byName.get(
+      this.className.toLowerCase()
+    );
+    return record ? (record.primestat as StatName) : 'Muscle';
+  }
+
+  /** Level, derived from the base value of the primestat */
+  get level(): number {
+    const base = this.getBaseStat(this.primestat);
+    return Math.floor(Math.sqrt(Math.max(base - 4, 0))) + 1;
+  }
+
+  /**
+   * Returns the substats of a stat.
+   * @param stat
+   */
+  getSubstats(stat: StatName): number {
+    return this.substats[stat];
+  }
+
+  /**
+   * Returns the base value of a stat.
+   * @param stat
+   */
+  getBaseStat(stat: StatName): number {
+    return Math.floor(Math.sqrt(this.substats[stat]));
+  }
+
+  /**
+   * Sets the base value of a stat, and its substats to the minimum for that
+   * value.
+   * @param stat
+   * @param value
+   */
+  setBaseStat(stat: StatName, value: number): void {
+    this.substats[stat] = value ** 2;
+  }
+
+  /**
+   * Returns the buffed value of a stat.
+   * @param stat
+   */
+  getBuffedStat(stat: StatName): number {
+    return Math.max(this.getBaseStat(stat) + this.statBonuses[stat], 1);
+  }
+
+  /** Maximum HP, unless set with `update()` */
+  get maxhp(): number {
+    if (this.maxhpOverride !== null) return this.maxhpOverride;
+    const multiplier = this.primestat === 'Muscle' ? 1.5 : 1;
+    return Math.floor(this.getBuffedStat('Muscle') * multiplier) + 3;
+  }
+
+  /** Maximum MP, unless set with `update()` */
+  get maxmp(): number {
+    if (this.maxmpOverride !== null) return this.maxmpOverride;
+    const multiplier = this.primestat === 'Mysticality' ? 1.5 : 1;
+    return Math.floor(this.getBuffedStat('Mysticality') * multiplier);
+  }
+
+  /** Current HP, which never exceeds maximum HP */
+  get hp(): number {
+    const max = this.maxhp;
+    return this.currentHp === null ? max : Math.min(this.currentHp, max);
+  }
+  set hp(value: number) {
+    this.currentHp = Math.max(value, 0);
+  }
+
+  /** Current MP, which never exceeds maximum MP */
+  get mp(): number {
+    const max = this.maxmp;
+    return this.currentMp === null ? max : Math.min(this.currentMp, max);
+  }
+  set mp(value: number) {
+    this.currentMp = Math.max(value, 0);
+  }
+
+  private toEffect(effect: Effect | string | number): Effect {
+    return getEntity(
+      Effect,
+      this.gameData,
+      effect instanceof Effect ? effect.id : effect
+    );
+  }
+}
+
+export interface CharacterFunctions {
+  myName(): string;
+  myId(): string;
+  myClass(): Class;
+  myPath(): string;
+  inHardcore(): boolean;
+  myLevel(): number;
+  myPrimestat(): Stat;
+  myBasestat(stat: Stat): number;
+  myBuffedstat(stat: Stat): number;
+  myHp(): number;
+  myMaxhp(): number;
+  myMp(): number;
+  myMaxmp(): number;
+  myMeat(): number;
+  myAdventures(): number;
+  myFullness(): number;
+  myInebriety(): number;
+  mySpleenUse(): number;
+  fullnessLimit(): number;
+  inebrietyLimit(): number;
+  spleenLimit(): number;
+  myTurncount(): number;
+  myDaycount(): number;
+  myAscensions(): number;
+  myFamiliar(): Familiar;
+  haveEffect(effect: Effect): number;
+}
+
+/**
+ * Splits a `Stat` into a stat name and whether it refers to substats.
+ * @return `null` for `$stat\`none\``
+ */
+function parseStat(stat: Stat): [StatName, boolean] | null {
+  const match = /^(Sub)?(Muscle|Mysticality|Moxie)$/.exec(String(stat));
+  return match ? [match[2] as StatName, match[1] !== undefined] : null;
+}
+
+export function createCharacterFunctions(
+  state: RuntimeState
+): CharacterFunctions {
+  const {character, gameData} = state;
+
+  return {
+    myName: () => character.name,
+    myId: () => String(character.id),
+    myClass: () => getEntity(Class, gameData, character.class),
+    myPath: () => character.path,
+    inHardcore: () => character.hardcore,
+    myLevel: () => character.level,
+    myPrimestat: () => getEntity(Stat, gameData, character.primestat),
+    myBasestat: stat => {
+      const parsed = parseStat(stat);
+      if (!parsed) return 0;
+      const [name, sub] = parsed;
+      return sub ? character.getSubstats(name) : character.getBaseStat(name);
+    },
+    myBuffedstat: stat => {
+      const parsed = parseStat(stat);
+      if (!parsed) return 0;
+      const [name, sub] = parsed;
+      return sub ? character.getSubstats(name) : character.getBuffedStat(name);
+    },
+    myHp: () => character.hp,
+    myMaxhp: () => character.maxhp,
+    myMp: () => character.mp,
+    myMaxmp: () => character.maxmp,
+    myMeat: () => character.meat,
+    myAdventures: () => character.adventures,
+    myFullness: () => character.fullness,
+    myInebriety: () => character.inebriety,
+    mySpleenUse: () => character.spleenUse,
+    fullnessLimit: () => character.fullnessLimit,
+    inebrietyLimit: () => character.inebrietyLimit,
+    spleenLimit: () => character.spleenLimit,
+    myTurncount: () => character.turncount,
+    myDaycount: () => character.daycount,
+    myAscensions: () => character.ascensions,
+    myFamiliar: () => getEntity(Familiar, gameData, character.familiar),
+    haveEffect: effect => character.getEffectTurns(effect),
+  };
+}
@@ -0,0 +1,294 @@
+/**
+ * @file Choice adventures, and the KoLmafia functions that inspect and make
+ * choices (e.g. `availableChoiceOptions()`, `runChoice()`).
+ *
+ * A choice is either defined by its options, or by a recorded `choice.php`
+ * page. In both cases, the available options are extracted from the forms on
+ * the page with `xpath()`, as KoLmafia does. Options can lead to another
+ * choice, a fight, or rewards that end the encounter.
+ *
+ * When adventuring with `adv1()` or `adventure()`, choices are made
+ * according to the `choiceAdventure<N>` preferences.
+ */
+
+import type {Encounter} from './combat';
+import {endEncounter, startFight} from './combat';
+import {escapeHtml} from './output';
+import type {RuntimeState} from './runtime';
+import {createXPathFunctions} from './xpath';
+
+/**
+ * Option of a choice adventure.
+ */
+export interface ChoiceOption {
+  /** Text of the option's button (default: the text on the recorded page) */
+  text?: string;
+  /** Choice adventure that follows */
+  choice?: Choice;
+  /**
+   * Fight that follows. Its `monster` is required. It is free if the choice
+   * is free, unless it sets `free` itself.
+   */
+  fight?: Encounter;
+  /** Items gained by choosing this option, keyed by name */
+  drops?: Record<string, number>;
+  /** Meat gained by choosing this option */
+  meat?: number;
+  /**
+   * Whether choosing this option does not cost a turn (default: whether the
+   * encounter is free)
+   */
+  free?: boolean;
+}
+
+/**
+ * Choice adventure scripted by a test.
+ */
+export interface Choice {
+  /** Choice adventure number, as used by `choiceAdventure<N>` preferences */
+  id: number;
+  /** Name of the choice adventure */
+  name?: string;
+  /**
+   * Recorded `choice.php` page. If given, only the options on this page are
+   * available.
+   */
+  html?: string;
+  /** Outcomes (and texts) of options, keyed by option number */
+  options?: Record<number, ChoiceOption>;
+}
+
+/**
+ * Choice adventure that the character is in.
+ */
+export interface PendingChoice {
+  /** Name of the location */
+  location: string;
+  choice: Choice;
+  /** Whether the choice follows a fight, and has not been shown yet */
+  followsFight: boolean;
+  /** Whether the encounter does not cost a turn */
+  free: boolean;
+}
+
+/**
+ * Option chosen in a choice adventure.
+ */
+export interface ChoiceDecision {
+  /** Choice adventure number */
+  choice: number;
+  option: number;
+}
+
+/**
+ * Stores the choice adventure in progress and past decisions of a runtime.
+ */
+export class ChoiceState {
+  /** Every option chosen, in order */
+  readonly decisions: ChoiceDecision[] = [];
+  /** Choice adventure in progress, or `null` */
+  current: PendingChoice | null = null;
+  /** Number of the last choice adventure shown */
+  lastChoice = 0;
+  /** Last option chosen */
+  lastDecision = 0;
+
+  /**
+   * Starts a choice adventure.
+   * @param location Name of the location
+   * @param choice
+   * @param followsFight Whether the choice follows a fight, and is not shown
+   *    until `choice.php` is visited
+   * @param free Whether the encounter does not cost a turn
+   */
+  begin(
+    location: string,
+    choice: Choice,
+    followsFight: boolean,
+    free: boolean
+  ): void {
+    this.current = {location, choice, followsFight, free};
+    if (!followsFight) this.lastChoice = choice.id;
+  }
+
+  /**
+   * Shows a choice adventure that follows a fight.
+   */
+  show(): void {
+    if (this.current && this.current.followsFight) {
+      this.current.followsFight = false;
+      this.lastChoice = this.current.choice.id;
+    }
+  }
+}
+
+/**
+ * Returns the `choice.php` page of a choice adventure.
+ */
+export function renderChoicePage(choice: Choice): string {
+  if (choice.html !== undefined) return choice.html;
+  const options = choice.options || {};
+  return (
+    '<html><body>' +
+    `<b>${escapeHtml(choice.name || `Choice ${choice.id}`)}</b>` +
+    Object.keys(options)
+      .map(
+        option =>
+          '<form action="choice.php" method="post">' +
+          `<input type="hidden" name="whichchoice" value="${choice.id}">` +
+          `<input type="hidden" name="option" value="${option}">` +
+          '<input class="button" type="submit" value="' +
+          escapeHtml(options[Number(option)].text || `Option ${option}`) +
+          '"></form>'
+      )
+      .join('') +
+    '</body></html>'
+  );
+}
+
+/**
+ * Extracts the options of a choice adventure from the forms on its page.
+ * @return Texts of the options, keyed by option number
+ */
+function parseChoiceOptions(
+  state: RuntimeState,
+  html: string
+): Record<number, string> {
+  const {xpath} = createXPathFunctions(state);
+  const forms = '//form[.//input[@name="option"]]';
+  const options: Record<number, string> = {};
+  const count = xpath(html, forms).length;
+  for (let index = 1; index <= count; ++index) {
+    const form = `(${forms})[${index}]`;
+    const [option] = xpath(html, `${form}//input[@name="option"]/@value`);
+    const [text] = xpath(html, `${form}//input[@type="submit"]/@value`);
+    options[Number(option)] = text === undefined ? '' : text;
+  }
+  return options;
+}
+
+/**
+ * Returns the options of the choice adventure that is shown.
+ * @return Texts of the options, keyed by option number
+ */
+function getAvailableOptions(state: RuntimeState): Record<number, string> {
+  const {current} = state.choices;
+  if (!current || current.followsFight) return {};
+  return parseChoiceOptions(state, renderChoicePage(current.choice));
+}
+
+/**
+ * Returns the option selected by the `choiceAdventure<N>` preference of the
+ * current choice adventure.
+ * @return Option number, or 0 if the preference does not select an
+ *    available option
+ */
+export function getPreferredOption(state: RuntimeState): number {
+  const {current} = state.choices;
+  if (!current) return 0;
+  const option = state.preferences.getNumber(
+    `choiceAdventure${current.choice.id}`
+  );
+  state.choices.show();
+  return option in getAvailableOptions(state) ? option : 0;
+}
+
+/**
+ * Chooses an option of the current choice adventure.
+ * @return Page shown after the choice
+ * @throws {KoLmafiaAbortError} If the character is not in a choice adventure,
+ *    or the option is not available
+ */
+export function chooseOption(state: RuntimeState, option: number): string {
+  const {choices, output} = state;
+  const {current} = choices;
+  if (!current) return output.abort("You're not in a choice adventure.");
+  choices.show();
+  const {location, choice, free} = current;
+  if (!(option in getAvailableOptions(state))) {
+    output.abort(`Choice ${choice.id} has no option ${option}.`);
+  }
+
+  choices.current = null;
+  choices.lastDecision = option;
+  choices.decisions.push({choice: choice.id, option});
+  const outcome = (choice.options || {})[option] || {};
+  const optionFree = outcome.free === undefined ? free : outcome.free;
+  if (outcome.choice) {
+    choices.begin(location, outcome.choice, false, optionFree);
+    return renderChoicePage(outcome.choice);
+  }
+  if (outcome.fight) {
+    const {fight} = outcome;
+    return startFight(state, location, {
+      ...fight,
+      free: fight.free === undefined ? optionFree : fight.free,
+    });
+  }
+  return endEncounter(
+    state,
+    location,
+    {
+      name: choice.name || `Choice ${choice.id}`,
+      drops: outcome.drops,
+      meat: outcome.meat,
+      free: optionFree,
+    },
+    'noncombat',
+    [],
+    0
+  );
+}
+
+/**
+ * Handles requests for `choice.php`, so that scripts can make choices with
+ * `visitUrl()`.
+ * @param state
+ * @param fields Form fields of the request
+ * @return Page shown, or `null` if the character is not in a choice
+ *    adventure
+ */
+export function visitChoiceUrl(
+  state: RuntimeState,
+  fields: Record<string, string>
+): string | null {
+  const {current} = state.choices;
+  if (!current) return null;
+  if (fields.option) return chooseOption(state, Number(fields.option));
+  state.choices.show();
+  return renderChoicePage(current.choice);
+}
+
+export interface ChoiceFunctions {
+  availableChoiceOptions(spoilers?: boolean): {[option: number]: string};
+  runChoice(decision: number, extra?: string): string;
+  lastChoice(): number;
+  lastDecision(): number;
+  handlingChoice(): boolean;
+  choiceFollowsFight(): boolean;
+}
+
+export function createChoiceFunctions(state: RuntimeState): ChoiceFunctions {
+  const {choices} = state;
+
+  return {
+    // Spoilers for option outcomes are not available
+    availableChoiceOptions: () => getAvailableOptions(state),
+    runChoice: decision => {
+      if (decision === -1 && choices.current) {
+        const {id} = choices.current.choice;
+        decision = getPreferredOption(state);
+        if (!decision) {
+          state.output.abort(`No setting for choice adventure ${id}.`);
+        }
+      }
+      return chooseOption(state, decision);
+    },
+    lastChoice: () => choices.lastChoice,
+    lastDecision: () => choices.lastDecision,
+    handlingChoice: () =>
+      choices.current !== null && !choices.current.followsFight,
+    choiceFollowsFight: () =>
+      choices.current !== null && choices.current.followsFight,
+  };
+}
@@ -0,0 +1,336 @@
+/**
+ * @file Registry of gCLI commands, and `cliExecute()`, which parses command
+ * lines and sends each command to its handler.
+ *
+ * Like KoLmafia, a command line may contain several commands separated by
+ * semicolons. The first word of each command is its name, which is
+ * case-insensitive. If no handler is registered for a name that ends with
+ * `q` (e.g. `setq`), the handler for the name without the `q` is called in
+ * quiet mode.
+ */
+
+import {createCombatFunctions} from './combat';
+import {Familiar, getEntity, Item, MafiaClass, Skill} from './game-types';
+import {createInventoryFunctions} from './inventory';
+import type {RuntimeState} from './runtime';
+
+/**
+ * Command passed to a handler.
+ */
+export interface CliInvocation {
+  /** Name of the command, in lowercase and without the quiet suffix */
+  command: string;
+  /** Rest of the command, without surrounding whitespace */
+  parameters: string;
+  /** Whether the command should not print anything */
+  quiet: boolean;
+}
+
+/**
+ * Handles a gCLI command.
+ * @return `false` if the command failed. Returning nothing means success
+ */
+export type CliHandler = (
+  invocation: CliInvocation,
+  state: RuntimeState
+) => boolean | void;
+
+/**
+ * Command executed by `cliExecute()`.
+ */
+export interface CliHistoryEntry extends CliInvocation {
+  /** Whether a handler was registered for the command */
+  handled: boolean;
+  /** Whether the command succeeded */
+  success: boolean;
+}
+
+/**
+ * Options for the gCLI command registry of a runtime.
+ */
+export interface CliOptions {
+  /**
+   * If true, unknown commands make `cliExecute()` throw an
+   * `UnknownCliCommandError`. Otherwise, `cliExecute()` returns `false`, like
+   * KoLmafia.
+   */
+  strict?: boolean;
+  /**
+   * Handlers to register in addition to (or instead of) the default ones,
+   * keyed by command name
+   */
+  handlers?: Record<string, CliHandler>;
+  /**
+   * Moods run by `mood execute`, keyed by name. Each mood maps effect names
+   * to the command that restores the effect when it runs out.
+   */
+  moods?: Record<string, Record<string, string>>;
+}
+
+/**
+ * Thrown by `cliExecute()` in strict mode when no handler is registered for
+ * a command.
+ */
+export class UnknownCliCommandError extends Error {
+  /**
+   * @param command Name of the command
+   * @param line Command as written in the command line
+   */
+  constructor(readonly command: string, readonly line: string) {
+    super(`Unknown gCLI command '${command}' in: ${line}`);
+    this.name = 'UnknownCliCommandError';
+  }
+}
+
+/**
+ * Splits a command line into commands.
+ * @param line
+ * @return Commands without surrounding whitespace. Empty commands are omitted
+ */
+export function splitCommandLine(line: string): string[] {
+  return line
+    .split(';')
+    .map(command => command.trim())
+    .filter(command => command !== '');
+}
+
+/**
+ * Looks up the entity named by a command, and prints KoLmafia's message if
+ * there is none.
+ * @return The entity, or `null` if there is none
+ */
+function findEntity<T extends MafiaClass>(
+  type: {prototype: T},
+  name: string,
+  {gameData, output}: RuntimeState
+): T | null {
+  try {
+    return getEntity(type, gameData, name);
+  } catch {
+    output.addText('print', `[${name}] has no matches.`);
+    return null;
+  }
+}
+
+/**
+ * Splits the parameters of a command such as `acquire 3 seal tooth` into a
+ * count (default: 1) and a name.
+ */
+function countAndName(parameters: string): [number, string] {
+  const match = /^(\d+)\s+(.*)$/.exec(parameters);
+  return match ? [Number(match[1]), match[2]] : [1, parameters];
+}
+
+/**
+ * Equips the items of a custom outfit, taking them from the inventory.
+ * Items that are already equipped in the right slot are kept.
+ * @return Whether the outfit was worn
+ */
+function wearOutfit(name: string, state: RuntimeState): boolean {
+  const {gameData, inventory, output} = state;
+  const outfit = inventory.getOutfit(name);
+  if (!outfit) {
+    output.addText('print', `No outfit found matching: ${name}`);
+    return false;
+  }
+  const changes: Array<[string, Item]> = [];
+  for (const slot of Object.keys(outfit)) {
+    const item = getEntity(Item, gameData, outfit[slot]);
+    if (inventory.getEquipped(slot) === item) continue;
+    if (inventory.getAmount('inventory', item) < 1) {
+      output.addText('print', `You don't have the ${item.name}.`);
+      return false;
+    }
+    changes.push([slot, item]);
+  }
+  for (const [slot, item] of changes) {
+    const previous = inventory.getEquipped(slot);
+    if (previous !== Item.none) inventory.add('inventory', previous, 1);
+    inventory.add('inventory', item, -1);
+    inventory.equip(slot, item);
+  }
+  return true;
+}
+
+/**
+ * Runs the commands of the current mood (the `currentMood` preference) for
+ * the effects that have run out.
+ * @return Whether every command of the mood succeeded
+ */
+function executeMood(state: RuntimeState): boolean {
+  const {character, cli, output, preferences} = state;
+  const name = preferences.get('currentMood');
+  const mood = cli.moods.get(name.toLowerCase());
+  if (!mood) {
+    output.addText('print', `No mood found matching: ${name}`);
+    return false;
+  }
+  return Object.keys(mood).every(
+    effect =>
+      character.getEffectTurns(effect) > 0 || cli.execute(mood[effect], state)
+  );
+}
+
+/**
+ * Handlers for commands that act on the state of a runtime.
+ */
+const DEFAULT_HANDLERS: Record<string, CliHandler> = {
+  abort: ({parameters}, {output}) => output.abort(parameters || undefined),
+  acquire: ({parameters}, state) => {
+    const [count, name] = countAndName(parameters);
+    const item = findEntity(Item, name, state);
+    if (!item) return false;
+    return createInventoryFunctions(state).retrieveItem(item, count);
+  },
+  cast: ({parameters}, state) => {
+    const [count, name] = countAndName(parameters);
+    const skill = findEntity(Skill, name, state);
+    if (!skill) return false;
+    return createCombatFunctions(state).useSkill(count, skill);
+  },
+  echo: ({parameters}, {output}) => {
+    output.addText('print', parameters);
+  },
+  familiar: ({parameters}, state) => {
+    const familiar = findEntity(Familiar, parameters, state);
+    if (!familiar) return false;
+    state.character.familiar = familiar.name;
+    return true;
+  },
+  get: ({parameters, quiet}, {output, preferences}) => {
+    if (!quiet) output.addText('print', preferences.get(parameters));
+  },
+  mood: ({parameters}, state) => {
+    if (parameters.toLowerCase() === 'execute') return executeMood(state);
+    state.preferences.set('currentMood', parameters);
+    return true;
+  },
+  outfit: ({parameters}, state) => wearOutfit(parameters, state),
+  set: ({parameters, quiet}, {output, preferences}) => {
+    const separator = parameters.indexOf('=');
+    if (separator === -1) return false;
+    const name = parameters.slice(0, separator).trim();
+    const value = parameters.slice(separator + 1).trim();
+    preferences.set(name, value);
+    if (!quiet) output.addText('print', `${name} => ${value}`);
+    return true;
+  },
+};
+DEFAULT_HANDLERS.print = DEFAULT_HANDLERS.echo;
+
+/**
+ * Stores the gCLI command handlers of a runtime, and the commands executed.
+ */
+export class CliRegistry {
+  /** Every command executed, in order */
+  readonly history: CliHistoryEntry[] = [];
+  /** Moods run by `mood execute`, keyed by lowercase name */
+  readonly moods = new Map<string, Record<string, string>>();
+  /** Whether unknown commands throw instead of failing */
+  strict: boolean;
+  private readonly handlers = new Map<string, CliHandler>();
+
+  constructor(options: CliOptions = {}) {
+    this.strict = options.strict || false;
+    const handlers = {...DEFAULT_HANDLERS, ...options.handlers};
+    for (const name of Object.keys(handlers)) {
+      this.register(name, handlers[name]);
+    }
+    const moods = options.moods || {};
+    for (const name of Object.keys(moods)) {
+      this.moods.set(name.toLowerCase(), moods[name]);
+    }
+  }
+
+  /**
+   * Registers a handler, replacing any handler with the same name.
+   * @param names Command name, or list of aliases (case-insensitive)
+   * @param handler
+   */
+  register(names: string | string[], handler: CliHandler): void {
+    for (const name of typeof names === 'string' ? [names] : names) {
+      this.handlers.set(name.toLowerCase(), handler);
+    }
+  }
+
+  /**
+   * Removes the handler for a command.
+   * @param name Command name (case-insensitive)
+   */
+  unregister(name: string): void {
+    this.handlers.delete(name.toLowerCase());
+  }
+
+  /**
+   * @param name Command name (case-insensitive)
+   * @return Whether a handler is registered for the command
+   */
+  has(name: string): boolean {
+    return this.handlers.has(name.toLowerCase());
+  }
+
+  /**
+   * Executes a command line. Execution stops at the first command that fails.
+   * @param line Command line
+   * @param state State of the runtime that executes the command
+   * @return Whether all commands succeeded
+   * @throws {UnknownCliCommandError} In strict mode, if a command is unknown
+   */
+  execute(line: string, state: RuntimeState): boolean {
+    for (const command of splitCommandLine(line)) {
+      const invocation = this.parse(command);
+      const handler = this.handlers.get(invocation.command);
+      const entry: CliHistoryEntry = {
+        ...invocation,
+        handled: handler !== undefined,
+        success: false,
+      };
+      this.history.push(entry);
+
+      if (!handler) {
+        if (this.strict) {
+          throw new UnknownCliCommandError(invocation.command, command);
+        }
+        return false;
+      }
+      entry.success = handler(invocation, state) !== false;
+      if (!entry.success) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Splits a command into its name and parameters, and detects the quiet
+   * suffix.
+   */
+  private parse(command: string): CliInvocation {
+    const match = /^(\S+)\s*(.*)$/s.exec(command)!;
+    let name = match[1].toLowerCase();
+    let quiet = false;
+    if (!this.handlers.has(name) && name.endsWith('q')) {
+      const unquiet = name.slice(0, -1);
+      if (this.handlers.has(unquiet)) {
+        name = unquiet;
+        quiet = true;
+      }
+    }
+    return {command: name, parameters: match[2].trim(), quiet};
+  }
+}
+
+export interface CliFunctions {
+  /**
+   * Implementation of KoLmafia's `cliExecute()` function, which executes a
+   * gCLI command line using the runtime's command handlers.
+   * @param command Command line, possibly containing several commands
+   *    separated by semicolons
+   * @return Whether all commands succeeded
+   */
+  cliExecute(command: string): boolean;
+}
+
+export function createCliFunctions(state: RuntimeState): CliFunctions {
+  return {
+    cliExecute: command => state.cli.execute(String(command), state),
+  };
+}
@@ -0,0 +1,443 @@
+/**
+ * @file Scripted encounters, and the KoLmafia functions that fight (e.g.
+ * `runCombat()`, `useSkill()`). Adventuring is in `adventure.ts`.
+ *
+ * Tests queue the encounters that happen next at each location, e.g. "the
+ * next adventure in the Spooky Forest is a spooky vampire, which dies after
+ * two attacks and drops a seal tooth". Adventuring at a location without a
+ * queued encounter throws an `UnscriptedEncounterError`.
+ *
+ * Fights are simplified: each attack or combat skill counts as one hit, and
+ * the monster deals a fixed amount of damage each round that it survives.
+ * When an encounter ends, the character gains its drops and meat, and
+ * (unless the encounter is free) spends a turn, which also ticks down
+ * effects. Losing a fight leaves the character with 0 HP and Beaten Up.
+ */
+
+import type {Choice} from './choices';
+import type {GameData} from './game-data';
+import {getEntity, Item, Location, Monster, Skill} from './game-types';
+import {escapeHtml} from './output';
+import type {RuntimeState} from './runtime';
+
+/**
+ * Encounter scripted by a test.
+ */
+export interface Encounter {
+  /** Name of the monster to fight. Omit for a noncombat adventure. */
+  monster?: string;
+  /** Name of a noncombat adventure (default: the name of the monster) */
+  name?: string;
+  /**
+   * Number of attacks or combat skills needed to defeat the monster
+   * (default: `1`)
+   */
+  hits?: number;
+  /** Damage that the monster deals each round it survives (default: `0`) */
+  damage?: number;
+  /** Items gained by winning the encounter, keyed by name */
+  drops?: Record<string, number>;
+  /** Meat gained by winning the encounter */
+  meat?: number;
+  /** Whether the encounter does not cost a turn (default: `false`) */
+  free?: boolean;
+  /**
+   * Choice adventure. Without a monster, the encounter is the choice
+   * adventure. With a monster, the choice follows a won fight.
+   */
+  choice?: Choice;
+}
+
+/** Outcome of an encounter */
+export type EncounterResult = 'win' | 'lose' | 'noncombat';
+
+/**
+ * Encounter that has finished.
+ */
+export interface EncounterRecord {
+  /** Name of the location */
+  location: string;
+  /** Name of the encounter */
+  encounter: string;
+  /** Name of the monster, or `"none"` for noncombat adventures */
+  monster: string;
+  result: EncounterResult;
+  /** Number of combat rounds */
+  rounds: number;
+}
+
+/**
+ * Fight in progress.
+ */
+export interface Fight {
+  /** Name of the location */
+  location: string;
+  encounter: Encounter;
+  /** Name of the monster */
+  monster: string;
+  /** Number of rounds played so far */
+  round: number;
+  /** Number of hits needed to defeat the monster */
+  hitsLeft: number;
+}
+
+/**
+ * Thrown when a script adventures at a location without queued encounters.
+ */
+export class UnscriptedEncounterError extends Error {
+  /**
+   * @param location Name of the location
+   */
+  constructor(readonly location: string) {
+    super(`No encounter is queued for ${location}`);
+    this.name = 'UnscriptedEncounterError';
+  }
+}
+
+/** Turns of Beaten Up gained by losing a fight */
+const BEATEN_UP_TURNS = 3;
+
+/**
+ * Stores the scripted encounters and the current fight of a runtime.
+ */
+export class CombatState {
+  /** Every encounter that has finished, in order */
+  readonly history: EncounterRecord[] = [];
+  /** Current fight, or `null` if the character is not in combat */
+  fight: Fight | null = null;
+  /** Last page shown by an encounter */
+  page = '';
+  /** Queued encounters, keyed by location name */
+  private readonly queues = new Map<string, Encounter[]>();
+
+  /**
+   * @param gameData Game data used to look up locations, monsters and items
+   * @param encounters Encounters to queue, keyed by location name
+   * @throws {Error} If a location, monster or item does not exist
+   */
+  constructor(
+    private readonly gameData: GameData,
+    encounters: Record<string, Encounter[]> = {}
+  ) {
+    for (const location of Object.keys(encounters)) {
+      this.queue(location, ...encounters[location]);
+    }
+  }
+
+  /**
+   * Adds encounters to the end of the queue of a location.
+   * @param location Location, or its name
+   * @param encounters
+   * @throws {Error} If the location, a monster or an item does not exist
+   */
+  queue(location: Location | string, ...encounters: Encounter[]): void {
+    const name = this.toLocationName(location);
+    encounters.forEach(encounter => this.validate(encounter));
+    const queue = this.queues.get(name) || [];
+    queue.push(...encounters);
+    this.queues.set(name, queue);
+  }
+
+  /**
+   * Returns the encounters queued for a location.
+   * @param location Location, or its name
+   */
+  getQueued(location: Location | string): readonly Encounter[] {
+    return this.queues.get(this.toLocationName(location)) || [];
+  }
+
+  /**
+   * Removes the next encounter from the queue of a location.
+   * @param location Location, or its name
+   * @throws {UnscriptedEncounterError} If no encounter is queued
+   */
+  take(location: Location | string): Encounter {
+    const name = this.toLocationName(location);
+    const encounter = (this.queues.get(name) || []).shift();
+    if (!encounter) throw new UnscriptedEncounterError(name);
+    return encounter;
+  }
+
+  /**
+   * Checks that the monsters and items of an encounter, and of the choices
+   * and fights that follow it, exist.
+   */
+  private validate(encounter: Encounter): void {
+    if (encounter.monster !== undefined) {
+      getEntity(Monster, this.gameData, encounter.monster);
+    }
+    for (const item of Object.keys(encounter.drops || {})) {
+      getEntity(Item, this.gameData, item);
+    }
+    const options = (encounter.choice && encounter.choice.options) || {};
+    for (const option of Object.keys(options)) {
+      const {choice, fight, drops} = options[Number(option)];
+      if (fight) this.validate(fight);
+      this.validate({drops, choice});
+    }
+  }
+
+  private toLocationName(location: Location | string): string {
+    return getEntity(Location, this.gameData, String(location)).name;
+  }
+}
+
+export function renderPage(
+  title: string,
+  messages: string[],
+  won: boolean
+): string {
+  return (
+    '<html><body>' +
+    `<span id="monname">${escapeHtml(title)}</span>` +
+    messages.map(message => `<p>${escapeHtml(message)}</p>`).join('') +
+    (won ? '<!--WINWINWIN-->' : '') +
+    '</body></html>'
+  );
+}
+
+/**
+ * Ends the current encounter, and returns the page that shows its outcome.
+ */
+export function endEncounter(
+  state: RuntimeState,
+  location: string,
+  encounter: Encounter,
+  result: EncounterResult,
+  messages: string[],
+  rounds: number
+): string {
+  const {character, combat, gameData, inventory, preferences} = state;
+  const monster = encounter.monster
+    ? getEntity(Monster, gameData, encounter.monster).name
+    : 'none';
+  const name = encounter.name || monster;
+
+  if (result !== 'lose') {
+    const drops = encounter.drops || {};
+    for (const item of Object.keys(drops)) {
+      inventory.add('inventory', item, drops[item]);
+      messages.push(`You acquire an item: ${item} (${drops[item]})`);
+    }
+    if (encounter.meat) {
+      character.meat += encounter.meat;
+      messages.push(`You gain ${encounter.meat} Meat.`);
+    }
+  }
+  if (!encounter.free) character.spendTurn();
+  if (result === 'lose') {
+    character.hp = 0;
+    character.setEffectTurns('Beaten Up', BEATEN_UP_TURNS);
+    messages.push('You lose. You slink away, dejected and defeated.');
+  }
+
+  combat.fight = null;
+  combat.history.push({location, encounter: name, monster, result, rounds});
+  preferences.set('lastAdventure', location);
+  preferences.set('lastEncounter', name);
+  combat.page = renderPage(name, messages, result === 'win');
+  return combat.page;
+}
+
+/**
+ * Starts a fight with the monster of an encounter.
+ * @param state
+ * @param location Name of the location
+ * @param encounter Encounter with a monster
+ * @return Page shown by the fight
+ */
+export function startFight(
+  state: RuntimeState,
+  location: string,
+  encounter: Encounter
+): string {
+  const monster = getEntity(Monster, state.gameData, String(encounter.monster))
+    .name;
+  state.combat.fight = {
+    location,
+    encounter,
+    monster,
+    round: 0,
+    hitsLeft: encounter.hits === undefined ? 1 : encounter.hits,
+  };
+  state.combat.page = renderPage(
+    monster,
+    [`You're fighting ${monster}.`],
+    false
+  );
+  return state.combat.page;
+}
+
+/**
+ * Plays a round of the current fight, in which the character hits the
+ * monster once.
+ * @return Page shown after the round
+ */
+function playRound(state: RuntimeState, fight: Fight, action: string): string {
+  const {character} = state;
+  const {encounter, monster} = fight;
+  const messages = [action];
+  ++fight.round;
+  if (--fight.hitsLeft <= 0) {
+    messages.push(`You defeat ${monster}.`, 'You win the fight!');
+    const page = endEncounter(
+      state,
+      fight.location,
+      encounter,
+      'win',
+      messages,
+      fight.round
+    );
+    if (encounter.choice) {
+      state.choices.begin(fight.location, encounter.choice, true, true);
+    }
+    return page;
+  }
+
+  const damage = encounter.damage || 0;
+  if (damage > 0) {
+    character.hp -= damage;
+    messages.push(`${monster} hits you for ${damage} damage.`);
+  }
+  if (character.hp <= 0) {
+    return endEncounter(
+      state,
+      fight.location,
+      encounter,
+      'lose',
+      messages,
+      fight.round
+    );
+  }
+  state.combat.page = renderPage(monster, messages, false);
+  return state.combat.page;
+}
+
+/**
+ * Uses a combat skill in the current fight.
+ * @return Page shown after the round, or the current page if the skill
+ *    cannot be used
+ */
+function useCombatSkill(
+  state: RuntimeState,
+  fight: Fight,
+  skill: Skill
+): string {
+  const cost = getMpCost(state, skill);
+  if (!skill.combat || state.character.mp < cost) return state.combat.page;
+  state.character.mp -= cost;
+  return playRound(state, fight, `You use ${skill.name}.`);
+}
+
+/**
+ * Attacks until the current fight ends.
+ * @return Page that shows the outcome of the fight
+ */
+export function finishFight(state: RuntimeState): string {
+  let fight;
+  while ((fight = state.combat.fight)) {
+    playRound(state, fight, 'You attack.');
+  }
+  return state.combat.page;
+}
+
+function getMpCost(state: RuntimeState, skill: Skill): number {
+  const record = state.gameData.skills.byId.get(skill.id);
+  return record ? record.mpCost : 0;
+}
+
+/**
+ * Returns the effect granted by casting a skill, and its duration in turns.
+ * Like KoLmafia, the effect is the one whose default action casts the skill,
+ * or else the one with the same name as the skill.
+ * @return Name of the effect and duration, or `null` if the skill does not
+ *    grant an effect
+ */
+function getSkillEffect(
+  state: RuntimeState,
+  skill: Skill
+): [string, number] | null {
+  const {effects, skills} = state.gameData;
+  const record = skills.byId.get(skill.id);
+  if (!record || record.duration <= 0) return null;
+  const action = `cast 1 ${skill.name}`.toLowerCase();
+  const effect =
+    effects.records.find(e => e.defaultAction.toLowerCase() === action) ||
+    effects.byName.get(skill.name.toLowerCase());
+  return effect ? [effect.name, record.duration] : null;
+}
+
+/**
+ * Handles requests for `fight.php`, so that scripts can fight with
+ * `visitUrl()`.
+ * @param state
+ * @param fields Form fields of the request
+ * @return Page shown by the fight, or `null` if there is no fight in
+ *    progress, so that the request is left to cassettes
+ */
+export function visitFightUrl(
+  state: RuntimeState,
+  fields: Record<string, string>
+): string | null {
+  const {combat, gameData} = state;
+  const {fight} = combat;
+  if (!fight) return null;
+  if (fields.action === 'attack') {
+    return playRound(state, fight, 'You attack.');
+  }
+  if (fields.action === 'skill' && fields.whichskill) {
+    const skill = getEntity(Skill, gameData, Number(fields.whichskill));
+    return useCombatSkill(state, fight, skill);
+  }
+  return combat.page;
+}
+
+export interface CombatFunctions {
+  runCombat(filter?: string): string;
+  useSkill(skill: Skill): string;
+  useSkill(skill: Skill, count: number, target?: string): boolean;
+  useSkill(count: number, skill: Skill, target?: string): boolean;
+  lastMonster(): Monster;
+}
+
+export function createCombatFunctions(state: RuntimeState): CombatFunctions {
+  const {character, combat, gameData} = state;
+
+  /** Casts a skill outside of combat, and gains the effect it grants. */
+  const cast = (skill: Skill, count: number) => {
+    const cost = getMpCost(state, skill) * count;
+    if (skill.passive || skill.combat || character.mp < cost) return false;
+    character.mp -= cost;
+    const effect = getSkillEffect(state, skill);
+    if (effect) {
+      const [name, duration] = effect;
+      character.setEffectTurns(
+        name,
+        character.getEffectTurns(name) + duration * count
+      );
+    }
+    return true;
+  };
+
+  return {
+    runCombat: () => (combat.fight ? finishFight(state) : combat.page),
+    useSkill: ((arg1: Skill | number, arg2?: Skill | number) => {
+      if (arg1 instanceof Skill && arg2 === undefined) {
+        if (combat.fight) return useCombatSkill(state, combat.fight, arg1);
+        cast(arg1, 1);
+        return '';
+      }
+      const [skill, count] =
+        arg1 instanceof Skill
+          ? [arg1, arg2 as number]
+          : [arg2 as Skill, arg1 as number];
+      return cast(skill, count);
+    }) as CombatFunctions['useSkill'],
+    lastMonster: () => {
+      const last = combat.history
+        .filter(record => record.monster !== 'none')
+        .pop();
+      return getEntity(Monster, gameData, last ? last.monster : 'none');
+    },
+  };
+}
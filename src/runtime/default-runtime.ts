@@ -0,0 +1,66 @@
+/**
+ * @file The runtime used by the functions exported from `src/kolmafia/`, and
+ * hence by the `kolmafia` module installed by `installKolmafiaStubs()`.
+ *
+ * The test helpers in `src/lib/` (e.g. `snapshotProperties()` or
+ * `getCalls()`) take an optional runtime as their last argument, and resolve
+ * it with `resolveRuntime()`. A helper called without a runtime therefore
+ * inspects the same state that the `kolmafia` module changes.
+ */
+
+import {createRuntime, KolmafiaFunctions, KolmafiaRuntime} from './runtime';
+
+let defaultRuntime: KolmafiaRuntime | null = null;
+
+/**
+ * Returns the default runtime, creating it if necessary.
+ */
+export function getDefaultRuntime(): KolmafiaRuntime {
+  if (!defaultRuntime) {
+    defaultRuntime = createRuntime();
+  }
+  return defaultRuntime;
+}
+
+/**
+ * Returns the runtime that a test helper should use: the given runtime, or
+ * the default runtime at the time of the call. Resolving it on each call
+ * (rather than once per module) keeps helpers working after
+ * `setDefaultRuntime()` or `resetDefaultRuntime()`.
+ * @param runtime Runtime passed to the helper, if any
+ */
+export function resolveRuntime(runtime?: KolmafiaRuntime): KolmafiaRuntime {
+  return runtime || getDefaultRuntime();
+}
+
+/**
+ * Makes the module-level KoLmafia functions use the given runtime.
+ * @param runtime
+ */
+export function setDefaultRuntime(runtime: KolmafiaRuntime): void {
+  defaultRuntime = runtime;
+}
+
+/**
+ * Replaces the default runtime with a new one, discarding all of its state.
+ * The calls recorded by the old runtime are cleared, in case a test still
+ * holds a reference to it.
+ */
+export function resetDefaultRuntime(): void {
+  if (defaultRuntime) defaultRuntime.state.calls.clear();
+  defaultRuntime = null;
+}
+
+/**
+ * Creates a function that calls the function with the same name in whichever
+ * runtime is the default at the time of the call. The call is recorded by the
+ * runtime, with the caller of the returned function as its call site.
+ * @param name Name of the KoLmafia function
+ */
+export function delegate<K extends keyof KolmafiaFunctions>(
+  name: K
+): KolmafiaFunctions[K] {
+  const fn = (...args: unknown[]): unknown =>
+    getDefaultRuntime().state.calls.invoke(name, args, fn);
+  return fn as KolmafiaFunctions[K];
+}
@@ -0,0 +1,214 @@
+/**
+ * @file In-memory file system for the KoLmafia functions that read and write
+ * files, e.g. `fileToBuffer()` and `mapToFile()`.
+ *
+ * Like KoLmafia, file names are relative to the `scripts/`, `relay/` and
+ * `data/` directories, which are searched in that order. Files that do not
+ * exist yet are created in `data/`. File names that point outside these
+ * directories are rejected.
+ *
+ * Files are only kept in memory, unless a passthrough directory is given. In
+ * passthrough mode, files that are not in memory are read from the directory,
+ * and writes are also saved to it.
+ */
+
+import {existsSync, mkdirSync, readFileSync, writeFileSync} from 'fs';
+import {dirname, join} from 'path';
+
+import {MapFileObject, parseMap, serializeMap} from '../lib/map-file';
+import type {RuntimeState} from './runtime';
+
+/** Directories searched for files, in order */
+const SEARCH_DIRECTORIES = ['scripts', 'relay', 'data'];
+
+/** Directory in which new files are created */
+const DEFAULT_DIRECTORY = 'data';
+
+/**
+ * Write made to the virtual file system.
+ */
+export interface FileWrite {
+  /** Path of the file, e.g. `data/foo.txt` */
+  path: string;
+  contents: string;
+}
+
+/**
+ * Options for the virtual file system of a runtime.
+ */
+export interface FileSystemOptions {
+  /**
+   * Initial files, keyed by path relative to the KoLmafia directory (e.g.
+   * `{'data/foo.txt': '...'}`)
+   */
+  files?: Record<string, string>;
+  /**
+   * KoLmafia directory on disk. If given, files that are not in memory are
+   * read from this directory, and writes are saved to it.
+   */
+  passthrough?: string;
+}
+
+/**
+ * Normalizes a file name given to a KoLmafia function.
+ * @return Normalized path, or `null` if the file name points outside the
+ *    directory it is relative to
+ */
+function normalizePath(name: string): string | null {
+  const parts: string[] = [];
+  for (const part of name.replace(/\\/g, '/').split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') {
+      if (parts.length === 0) return null;
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  if (/^\//.test(name) || /^[a-z]:/i.test(name) || parts.length === 0) {
+    return null;
+  }
+  return parts.join('/');
+}
+
+/**
+ * Stores the files of a runtime.
+ */
+export class VirtualFileSystem {
+  /** Every write made to the file system, in order */
+  readonly writes: FileWrite[] = [];
+  /** KoLmafia directory on disk, or `null` if files are only kept in memory */
+  passthrough: string | null;
+  private readonly files = new Map<string, string>();
+
+  constructor(options: FileSystemOptions = {}) {
+    this.passthrough = options.passthrough || null;
+    if (options.files) {
+      for (const path of Object.keys(options.files)) {
+        this.seed(path, options.files[path]);
+      }
+    }
+  }
+
+  /**
+   * Adds a file without recording a write.
+   * @param path Path relative to the KoLmafia directory, e.g. `data/foo.txt`
+   * @param contents
+   * @throws {Error} If the path is invalid
+   */
+  seed(path: string, contents: string): void {
+    const normalized = normalizePath(path);
+    if (normalized === null) throw new Error(`Invalid file path: ${path}`);
+    this.files.set(normalized, contents);
+  }
+
+  /**
+   * Returns the path of a file, as KoLmafia resolves it.
+   * @param name File name given to a KoLmafia function
+   * @return Path relative to the KoLmafia directory (e.g. `data/foo.txt`), or
+   *    `null` if the file name is not allowed
+   */
+  resolve(name: string): string | null {
+    const normalized = normalizePath(name);
+    if (normalized === null) return null;
+    for (const directory of SEARCH_DIRECTORIES) {
+      const path = `${directory}/${normalized}`;
+      if (this.exists(path)) return path;
+    }
+    return `${DEFAULT_DIRECTORY}/${normalized}`;
+  }
+
+  /**
+   * @param path Path relative to the KoLmafia directory
+   * @return Whether the file exists
+   */
+  exists(path: string): boolean {
+    return (
+      this.files.has(path) ||
+      (this.passthrough !== null && existsSync(join(this.passthrough, path)))
+    );
+  }
+
+  /**
+   * Reads a file.
+   * @param path Path relative to the KoLmafia directory
+   * @return Contents of the file, or `undefined` if it does not exist
+   */
+  read(path: string): string | undefined {
+    const contents = this.files.get(path);
+    if (contents !== undefined || this.passthrough === null) return contents;
+    const diskPath = join(this.passthrough, path);
+    return existsSync(diskPath) ? readFileSync(diskPath, 'utf8') : undefined;
+  }
+
+  /**
+   * Writes a file.
+   * @param path Path relative to the KoLmafia directory
+   * @param contents
+   */
+  write(path: string, contents: string): void {
+    this.files.set(path, contents);
+    this.writes.push({path, contents});
+    if (this.passthrough !== null) {
+      const diskPath = join(this.passthrough, path);
+      mkdirSync(dirname(diskPath), {recursive: true});
+      writeFileSync(diskPath, contents);
+    }
+  }
+
+  /**
+   * Returns the paths of all files in memory.
+   */
+  list(): string[] {
+    return [...this.files.keys()].sort();
+  }
+}
+
+export interface FileFunctions {
+  fileToBuffer(fileName: string): string;
+  bufferToFile(buffer: string, fileName: string): boolean;
+  fileToArray(fileName: string): {[line: number]: string};
+  fileToMap(fileName: string, map: MapFileObject, compact?: boolean): boolean;
+  mapToFile(map: MapFileObject, fileName: string, compact?: boolean): boolean;
+}
+
+export function createFileFunctions(state: RuntimeState): FileFunctions {
+  const {files} = state;
+  const read = (fileName: string) => {
+    const path = files.resolve(fileName);
+    return path === null ? undefined : files.read(path);
+  };
+  const write = (fileName: string, contents: string) => {
+    const path = files.resolve(fileName);
+    if (path === null) return false;
+    files.write(path, contents);
+    return true;
+  };
+
+  return {
+    fileToBuffer: fileName => read(fileName) || '',
+    bufferToFile: (buffer, fileName) => write(fileName, String(buffer)),
+    fileToArray: fileName => {
+      const lines: {[line: number]: string} = {};
+      const contents = read(fileName);
+      if (contents) {
+        // KoLmafia numbers lines starting from 1
+        contents
+          .replace(/\r?\n$/, '')
+          .split(/\r?\n/)
+          .forEach((line, index) => (lines[index + 1] = line));
+      }
+      return lines;
+    },
+    // The compact flag only affects how records are written, and the shape of
+    // the values is taken from the map itself; see map-file.ts
+    fileToMap: (fileName, map) => {
+      const contents = read(fileName);
+      if (contents === undefined) return false;
+      parseMap(contents, map);
+      return true;
+    },
+    mapToFile: (map, fileName, compact = true) =>
+      write(fileName, serializeMap(map, compact)),
+  };
+}
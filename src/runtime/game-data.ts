@@ -0,0 +1,504 @@
+/**
+ * @file Tables of game data (items, effects, skills, ...), parsed from files
+ * in the formats of KoLmafia's data files.
+ *
+ * This package bundles excerpts of these files in `data/`. Tests that need
+ * other entries can load trimmed copies of KoLmafia's own files with
+ * `loadGameData()`. The files are parsed by `parseDataFile()`, using the
+ * formats in `GAME_DATA_SCHEMAS`.
+ */
+
+import {DataFileOptions, DataRecord, loadDataFile} from '../lib/data-file';
+
+/** Names of the data files that game data is parsed from */
+export type GameDataFile =
+  | 'adventures.txt'
+  | 'classskills.txt'
+  | 'familiars.txt'
+  | 'fullness.txt'
+  | 'inebriety.txt'
+  | 'items.txt'
+  | 'monsters.txt'
+  | 'spleenhit.txt'
+  | 'statuseffects.txt';
+
+const GAME_DATA_FILES: readonly GameDataFile[] = [
+  'adventures.txt',
+  'classskills.txt',
+  'familiars.txt',
+  'fullness.txt',
+  'inebriety.txt',
+  'items.txt',
+  'monsters.txt',
+  'spleenhit.txt',
+  'statuseffects.txt',
+];
+
+/**
+ * Record that can be looked up by id and name.
+ */
+export interface GameRecord {
+  id: number;
+  name: string;
+}
+
+/**
+ * Consumption data of an item, from `fullness.txt`, `inebriety.txt` or
+ * `spleenhit.txt`.
+ */
+export interface ConsumableRecord {
+  /** Fullness, inebriety or spleen used */
+  size: number;
+  levelreq: number;
+  quality: string;
+  /** Adventures gained, e.g. `"2-3"` */
+  adventures: string;
+  muscle: string;
+  mysticality: string;
+  moxie: string;
+  notes: string;
+}
+
+export interface ItemRecord extends GameRecord {
+  descid: string;
+  image: string;
+  /** Primary and secondary uses, e.g. `["food"]` or `["none", "paste"]` */
+  uses: string[];
+  /** Access flags, e.g. `["t", "d"]` */
+  access: string[];
+  autosell: number;
+  plural: string;
+  fullness?: ConsumableRecord;
+  inebriety?: ConsumableRecord;
+  spleen?: ConsumableRecord;
+}
+
+export interface EffectRecord extends GameRecord {
+  image: string;
+  descid: string;
+  quality: string;
+  attributes: string[];
+  defaultAction: string;
+}
+
+export interface SkillRecord extends GameRecord {
+  image: string;
+  /** Skill type, as a number used by KoLmafia's `classskills.txt` */
+  type: number;
+  mpCost: number;
+  duration: number;
+  level: number;
+}
+
+export interface FamiliarRecord extends GameRecord {
+  image: string;
+  /** Abilities, e.g. `["combat0", "hp0"]` */
+  types: string[];
+  /** Name of the item that hatches into the familiar */
+  larva: string;
+  /** Name of the familiar-specific equipment */
+  equipment: string;
+  attributes: string[];
+}
+
+export interface LocationRecord extends GameRecord {
+  zone: string;
+  url: string;
+  difficultyLevel: string;
+  environment: string;
+  recommendedStat: number;
+}
+
+/**
+ * Item dropped by a monster.
+ */
+export interface MonsterDrop {
+  /** Name of the item */
+  item: string;
+  /** Drop rate, as a percentage (0 if unknown) */
+  rate: number;
+  /** Drop flag (e.g. `p`, `n`, `c`), or `""` if none */
+  type: string;
+}
+
+export interface MonsterRecord extends GameRecord {
+  image: string;
+  /** Values in the attributes column, e.g. `{HP: "3", P: "beast"}` */
+  attributes: Record<string, string>;
+  drops: MonsterDrop[];
+}
+
+export interface ClassRecord extends GameRecord {
+  primestat: string;
+}
+
+export type SlotRecord = GameRecord;
+
+export type StatRecord = GameRecord;
+
+/**
+ * Records of one type, indexed by id and by lowercase name.
+ */
+export class RecordTable<R extends GameRecord> {
+  readonly byId = new Map<number, R>();
+  readonly byName = new Map<string, R>();
+
+  constructor(readonly records: readonly R[]) {
+    for (const record of records) {
+      this.byId.set(record.id, record);
+      const key = record.name.toLowerCase();
+      if (!this.byName.has(key)) this.byName.set(key, record);
+    }
+  }
+}
+
+/**
+ * Classes, which KoLmafia does not read from a data file.
+ */
+const CLASSES: readonly ClassRecord[] = [
+  {id: 1, name: 'Seal Clubber', primestat: 'Muscle'},
+  {id: 2, name: 'Turtle Tamer', primestat: 'Muscle'},
+  {id: 3, name: 'Pastamancer', primestat: 'Mysticality'},
+  {id: 4, name: 'Sauceror', primestat: 'Mysticality'},
+  {id: 5, name: 'Disco Bandit', primestat: 'Moxie'},
+  {id: 6, name: 'Accordion Thief', primestat: 'Moxie'},
+];
+
+/**
+ * Equipment slots, which KoLmafia does not read from a data file.
+ */
+const SLOTS: readonly SlotRecord[] = [
+  'hat',
+  'weapon',
+  'holster',
+  'off-hand',
+  'back',
+  'shirt',
+  'pants',
+  'acc1',
+  'acc2',
+  'acc3',
+  'familiar',
+  'crown-of-thrones',
+  'sticker1',
+  'sticker2',
+  'sticker3',
+  'card-sleeve',
+  'folder1',
+  'folder2',
+  'folder3',
+  'folder4',
+  'folder5',
+  'bootskin',
+  'bootspur',
+  'fakehand',
+  'buddy-bjorn',
+].map((name, id) => ({id, name}));
+
+/**
+ * Stats and substats, which KoLmafia does not read from a data file.
+ */
+const STATS: readonly StatRecord[] = [
+  'Muscle',
+  'Mysticality',
+  'Moxie',
+  'SubMuscle',
+  'SubMysticality',
+  'SubMoxie',
+].map((name, id) => ({id, name}));
+
+/**
+ * Parses "Key: value" pairs and flags, e.g. `DiffLevel: low Env: outdoor`.
+ * Flags without values are mapped to `""`.
+ */
+function parseSettings(text: string | undefined): Record<string, string> {
+  const settings: Record<string, string> = {};
+  const pattern = /(\S+?):\s*("[^"]*"|\S+)|(\S+)/g;
+  let match;
+  while ((match = pattern.exec(text || ''))) {
+    if (match[1] !== undefined) {
+      settings[match[1]] = match[2].replace(/^"|"$/g, '');
+    } else {
+      settings[match[3]] = '';
+    }
+  }
+  return settings;
+}
+
+/**
+ * Returns the format of `fullness.txt`, `inebriety.txt` or `spleenhit.txt`.
+ */
+function consumableSchema<F extends GameDataFile>(file: F) {
+  return {
+    file,
+    version: 2,
+    columns: [
+      {name: 'name', type: 'string'},
+      {name: 'size', type: 'int'},
+      {name: 'levelreq', type: 'int'},
+      {name: 'quality', type: 'string'},
+      {name: 'adventures', type: 'string'},
+      {name: 'muscle', type: 'string'},
+      {name: 'mysticality', type: 'string'},
+      {name: 'moxie', type: 'string'},
+      {name: 'notes', type: 'string', optional: true},
+    ],
+  } as const;
+}
+
+/**
+ * Formats of the data files that game data is parsed from.
+ */
+export const GAME_DATA_SCHEMAS = {
+  'adventures.txt': {
+    file: 'adventures.txt',
+    version: 6,
+    columns: [
+      {name: 'zone', type: 'string'},
+      {name: 'url', type: 'string'},
+      {name: 'settings', type: 'string'},
+      {name: 'name', type: 'string'},
+    ],
+  },
+  'classskills.txt': {
+    file: 'classskills.txt',
+    version: 3,
+    columns: [
+      {name: 'id', type: 'int'},
+      {name: 'name', type: 'string'},
+      {name: 'image', type: 'string'},
+      {name: 'type', type: 'int'},
+      {name: 'mpCost', type: 'int'},
+      {name: 'duration', type: 'int'},
+      {name: 'level', type: 'int', optional: true},
+    ],
+  },
+  'familiars.txt': {
+    file: 'familiars.txt',
+    version: 4,
+    columns: [
+      {name: 'id', type: 'int'},
+      {name: 'name', type: 'string'},
+      {name: 'image', type: 'string'},
+      {name: 'types', type: 'list'},
+      {name: 'larva', type: 'string'},
+      {name: 'equipment', type: 'string'},
+      {name: 'cageMatch', type: 'int'},
+      {name: 'scavengerHunt', type: 'int'},
+      {name: 'obstacleCourse', type: 'int'},
+      {name: 'hideAndSeek', type: 'int'},
+      {name: 'attributes', type: 'list', optional: true},
+    ],
+  },
+  'fullness.txt': consumableSchema('fullness.txt'),
+  'inebriety.txt': consumableSchema('inebriety.txt'),
+  'items.txt': {
+    file: 'items.txt',
+    version: 1,
+    columns: [
+      {name: 'id', type: 'int'},
+      {name: 'name', type: 'string'},
+      {name: 'descid', type: 'string'},
+      {name: 'image', type: 'string'},
+      {name: 'uses', type: 'list'},
+      {name: 'access', type: 'list'},
+      {name: 'autosell', type: 'int'},
+      {name: 'plural', type: 'string', optional: true},
+    ],
+  },
+  'monsters.txt': {
+    file: 'monsters.txt',
+    version: 4,
+    // Drops are in the remaining columns
+    columns: [
+      {name: 'name', type: 'string'},
+      {name: 'id', type: 'int'},
+      {name: 'image', type: 'string'},
+      {name: 'attributes', type: 'string'},
+    ],
+  },
+  'spleenhit.txt': consumableSchema('spleenhit.txt'),
+  'statuseffects.txt': {
+    file: 'statuseffects.txt',
+    version: 3,
+    columns: [
+      {name: 'id', type: 'int'},
+      {name: 'name', type: 'string'},
+      {name: 'image', type: 'string'},
+      {name: 'descid', type: 'string'},
+      {name: 'quality', type: 'string'},
+      {name: 'attributes', type: 'list'},
+      {name: 'defaultAction', type: 'string', optional: true},
+    ],
+  },
+} as const;
+
+/**
+ * Records parsed from each data file.
+ */
+export type GameDataRecords = {
+  [F in GameDataFile]: DataRecord<typeof GAME_DATA_SCHEMAS[F]>[];
+};
+
+function indexConsumables(
+  records: GameDataRecords['fullness.txt']
+): Map<string, ConsumableRecord> {
+  return new Map(
+    records.map(record => [
+      record.name.toLowerCase(),
+      {
+        size: record.size,
+        levelreq: record.levelreq,
+        quality: record.quality,
+        adventures: record.adventures,
+        muscle: record.muscle,
+        mysticality: record.mysticality,
+        moxie: record.moxie,
+        notes: record.notes,
+      },
+    ])
+  );
+}
+
+function createItems(records: GameDataRecords): ItemRecord[] {
+  const fullness = indexConsumables(records['fullness.txt']);
+  const inebriety = indexConsumables(records['inebriety.txt']);
+  const spleen = indexConsumables(records['spleenhit.txt']);
+
+  return records['items.txt'].map(record => {
+    const key = record.name.toLowerCase();
+    return {
+      id: record.id,
+      name: record.name,
+      descid: record.descid,
+      image: record.image,
+      uses: record.uses,
+      access: record.access,
+      autosell: record.autosell,
+      plural: record.plural || `${record.name}s`,
+      fullness: fullness.get(key),
+      inebriety: inebriety.get(key),
+      spleen: spleen.get(key),
+    };
+  });
+}
+
+function createLocations(records: GameDataRecords): LocationRecord[] {
+  return records['adventures.txt'].map(({zone, url, settings, name}) => {
+    const parsed = parseSettings(settings);
+    const snarfblat = /[?&]snarfblat=(\d+)/.exec(url);
+    return {
+      id: snarfblat ? Number(snarfblat[1]) : -1,
+      name,
+      zone,
+      url,
+      difficultyLevel: parsed.DiffLevel || 'unknown',
+      environment: parsed.Env || 'none',
+      recommendedStat: Number(parsed.Stat) || 0,
+    };
+  });
+}
+
+function createMonsters(records: GameDataRecords): MonsterRecord[] {
+  return records['monsters.txt'].map(record => ({
+    id: record.id,
+    name: record.name,
+    image: record.image,
+    attributes: parseSettings(record.attributes),
+    drops: record.rest
+      .map(drop => /^(.*?)\s*\(([a-z]*)(\d*)\)$/.exec(drop))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(([, item, type, rate]) => ({item, rate: Number(rate) || 0, type})),
+  }));
+}
+
+/**
+ * Tables of game data used by a runtime.
+ */
+export class GameData {
+  readonly items: RecordTable<ItemRecord>;
+  readonly effects: RecordTable<EffectRecord>;
+  readonly skills: RecordTable<SkillRecord>;
+  readonly familiars: RecordTable<FamiliarRecord>;
+  readonly locations: RecordTable<LocationRecord>;
+  readonly monsters: RecordTable<MonsterRecord>;
+  readonly classes = new RecordTable(CLASSES);
+  readonly slots = new RecordTable(SLOTS);
+  readonly stats = new RecordTable(STATS);
+
+  /**
+   * @param records Records parsed from each data file
+   */
+  constructor(records: GameDataRecords) {
+    this.items = new RecordTable(createItems(records));
+    this.effects = new RecordTable(
+      records['statuseffects.txt'].map(record => ({
+        id: record.id,
+        name: record.name,
+        image: record.image,
+        descid: record.descid,
+        quality: record.quality,
+        attributes: record.attributes,
+        defaultAction: record.defaultAction,
+      }))
+    );
+    this.skills = new RecordTable(
+      records['classskills.txt'].map(record => ({
+        id: record.id,
+        name: record.name,
+        image: record.image,
+        type: record.type,
+        mpCost: record.mpCost,
+        duration: record.duration,
+        level: record.level,
+      }))
+    );
+    this.familiars = new RecordTable(
+      records['familiars.txt'].map(record => ({
+        id: record.id,
+        name: record.name,
+        image: record.image,
+        types: record.types,
+        larva: record.larva,
+        equipment: record.equipment,
+        attributes: record.attributes,
+      }))
+    );
+    this.locations = new RecordTable(createLocations(records));
+    this.monsters = new RecordTable(createMonsters(records));
+  }
+}
+
+/**
+ * Options for `loadGameData()`.
+ */
+export interface GameDataOptions extends DataFileOptions {
+  files?: Partial<Record<GameDataFile, string>>;
+}
+
+let bundledGameData: GameData | null = null;
+
+/**
+ * Loads game data from the bundled data files, and from files on disk that
+ * replace them (e.g. trimmed copies of KoLmafia's data files used as test
+ * fixtures, or the files of a specific KoLmafia revision).
+ * @param options
+ * @throws {DataFileError} If a data file does not match its format
+ */
+export function loadGameData(options: GameDataOptions = {}): GameData {
+  const records: Partial<Record<GameDataFile, unknown>> = {};
+  for (const file of GAME_DATA_FILES) {
+    records[file] = loadDataFile(GAME_DATA_SCHEMAS[file], options);
+  }
+  return new GameData(records as GameDataRecords);
+}
+
+/**
+ * Returns the game data bundled with this package.
+ */
+export function getBundledGameData(): GameData {
+  if (!bundledGameData) {
+    bundledGameData = loadGameData();
+  }
+  return bundledGameData;
+}
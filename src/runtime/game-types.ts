@@ -0,0 +1,729 @@
+/**
+ * @file Stubs of KoLmafia's enumerated types (`Item`, `Effect`, `Skill`, ...).
+ *
+ * Like KoLmafia, each game entity is represented by exactly one instance, so
+ * that instances can be compared with `===`. Instances are created from the
+ * game data of the default runtime, and are shared by all runtimes that use
+ * the same game data (by default, the bundled data).
+ *
+ * Static lookups such as `Item.get()` have no way to know which runtime
+ * calls them, so they always use the default runtime. Code that works with
+ * another runtime uses `getEntity()` with the game data of that runtime.
+ */
+
+import {getDefaultRuntime} from './default-runtime';
+import type {
+  ClassRecord,
+  EffectRecord,
+  FamiliarRecord,
+  GameData,
+  GameRecord,
+  ItemRecord,
+  LocationRecord,
+  MonsterRecord,
+  RecordTable,
+  SkillRecord,
+  SlotRecord,
+  StatRecord,
+} from './game-data';
+
+/**
+ * Describes how instances of an enumerated type are created.
+ */
+interface TypeInfo<T, R extends GameRecord> {
+  /** Name of the type, as used in error messages */
+  name: string;
+  getTable(data: GameData): RecordTable<R>;
+  create(record: R, data: GameData): T;
+  /** Record of the `none` value */
+  none: R;
+}
+
+/** Canonical instances, keyed by game data, type, and id */
+const instances = new WeakMap<GameData, Map<string, Map<number, unknown>>>();
+
+function getGameData(): GameData {
+  return getDefaultRuntime().state.gameData;
+}
+
+function getInstance<T, R extends GameRecord>(
+  info: TypeInfo<T, R>,
+  record: R,
+  data: GameData
+): T {
+  let byType = instances.get(data);
+  if (!byType) {
+    byType = new Map();
+    instances.set(data, byType);
+  }
+  let byId = byType.get(info.name) as Map<number, T> | undefined;
+  if (!byId) {
+    byId = new Map();
+    byType.set(info.name, byId);
+  }
+  let instance = byId.get(record.id);
+  if (!instance) {
+    instance = info.create(record, data);
+    byId.set(record.id, instance);
+  }
+  return instance;
+}
+
+/**
+ * Finds a record by name or id, like KoLmafia. Names are matched
+ * case-insensitively; if no name matches exactly, a name that contains the
+ * given text is used if it is the only one. An empty name returns `none`.
+ * @return Matching record, or `undefined` if there is none
+ * @throws {Error} If several names contain the given text
+ */
+function findRecord<R extends GameRecord>(
+  info: TypeInfo<unknown, R>,
+  table: RecordTable<R>,
+  key: string | number
+): R | undefined {
+  if (typeof key === 'number') {
+    return key === info.none.id ? info.none : table.byId.get(key);
+  }
+
+  const name = key.trim().toLowerCase();
+  if (name === '' || name === info.none.name) return info.none;
+  const exact = table.byName.get(name);
+  if (exact) return exact;
+
+  // "[123]name" selects an entity by id, e.g. when names are ambiguous
+  const bracketed = /^\[(-?\d+)\]/.exec(name);
+  if (bracketed) return table.byId.get(Number(bracketed[1]));
+  if (/^-?\d+$/.test(name)) return findRecord(info, table, Number(name));
+
+  const matches = table.records.filter(record =>
+    record.name.toLowerCase().includes(name)
+  );
+  if (matches.length > 1) {
+    throw new Error(
+      `Multiple ${info.name.toLowerCase()} values match '${key}': ` +
+        matches.map(record => record.name).join(', ')
+    );
+  }
+  return matches[0];
+}
+
+function lookup<T, R extends GameRecord>(
+  info: TypeInfo<T, R>,
+  key: string | number,
+  data: GameData = getGameData()
+): T {
+  const record = findRecord(info, info.getTable(data), key);
+  if (!record) {
+    throw new Error(`Bad ${info.name.toLowerCase()} value: ${key}`);
+  }
+  return getInstance(info, record, data);
+}
+
+function lookupAll<T, R extends GameRecord>(
+  info: TypeInfo<T, R>,
+  keys: string | number | (string | number)[]
+): T | T[] {
+  return Array.isArray(keys)
+    ? keys.map(key => lookup(info, key))
+    : lookup(info, keys);
+}
+
+function getAll<T, R extends GameRecord>(info: TypeInfo<T, R>): T[] {
+  const data = getGameData();
+  return [...info.getTable(data).records]
+    .sort((a, b) => a.id - b.id)
+    .map(record => getInstance(info, record, data));
+}
+
+/**
+ * Returns the instance for a name in the same game data, or the `none`
+ * value if there is no such entity.
+ */
+function lookupIn<T, R extends GameRecord>(
+  info: TypeInfo<T, R>,
+  data: GameData,
+  name: string
+): T {
+  const record = info.getTable(data).byName.get(name.toLowerCase());
+  return getInstance(info, record || info.none, data);
+}
+
+/**
+ * Base class of all enumerated types.
+ */
+export abstract class MafiaClass {
+  /** Name of the entity */
+  readonly name: string;
+  /** Id of the entity (-1 for `none`) */
+  readonly id: number;
+
+  constructor(record: GameRecord) {
+    this.name = record.name;
+    this.id = record.id;
+  }
+
+  toString(): string {
+    return this.name;
+  }
+}
+
+const ITEM: TypeInfo<Item, ItemRecord> = {
+  name: 'Item',
+  getTable: data => data.items,
+  create: record => new Item(record),
+  none: {
+    id: -1,
+    name: 'none',
+    descid: '',
+    image: '',
+    uses: [],
+    access: [],
+    autosell: 0,
+    plural: '',
+  },
+};
+
+export class Item extends MafiaClass {
+  readonly plural: string;
+  readonly descid: string;
+  readonly image: string;
+  /** Level required to consume the item */
+  readonly levelreq: number;
+  /** Quality of the food, booze or spleen item (e.g. `"good"`) */
+  readonly quality: string;
+  /** Adventures gained by consuming the item, e.g. `"2-3"` */
+  readonly adventures: string;
+  readonly muscle: string;
+  readonly mysticality: string;
+  readonly moxie: string;
+  readonly fullness: number;
+  readonly inebriety: number;
+  readonly spleen: number;
+  readonly notes: string;
+  readonly quest: boolean;
+  readonly gift: boolean;
+  readonly tradeable: boolean;
+  readonly discardable: boolean;
+  readonly combat: boolean;
+  readonly combatReusable: boolean;
+  readonly usable: boolean;
+  readonly reusable: boolean;
+  readonly multi: boolean;
+  readonly potion: boolean;
+  /** Price when sold to NPC stores */
+  readonly autosell: number;
+
+  /**
+   * Use `Item.get()` instead, which returns the canonical instance.
+   * @param record
+   */
+  constructor(record: ItemRecord) {
+    super(record);
+    const consumable = record.fullness || record.inebriety || record.spleen;
+    const uses = new Set(record.uses);
+    this.plural = record.plural;
+    this.descid = record.descid;
+    this.image = record.image;
+    this.levelreq = consumable ? consumable.levelreq : 0;
+    this.quality = consumable ? consumable.quality : '';
+    this.adventures = consumable ? consumable.adventures : '';
+    this.muscle = consumable ? consumable.muscle : '';
+    this.mysticality = consumable ? consumable.mysticality : '';
+    this.moxie = consumable ? consumable.moxie : '';
+    this.fullness = record.fullness ? record.fullness.size : 0;
+    this.inebriety = record.inebriety ? record.inebriety.size : 0;
+    this.spleen = record.spleen ? record.spleen.size : 0;
+    this.notes = consumable ? consumable.notes : '';
+    this.quest = record.access.includes('q');
+    this.gift = record.access.includes('g');
+    this.tradeable = record.access.includes('t');
+    this.discardable = record.access.includes('d');
+    this.combat = uses.has('combat') || uses.has('combat reusable');
+    this.combatReusable = uses.has('combat reusable');
+    this.usable = uses.has('usable') || uses.has('multiple');
+    this.reusable = uses.has('reusable');
+    this.multi = uses.has('multiple');
+    this.potion = uses.has('potion');
+    this.autosell = record.autosell;
+  }
+
+  /**
+   * Returns the item with the given name or id.
+   * @throws {Error} If there is no such item
+   */
+  static get(key: string | number): Item;
+  /** Returns the items with the given names or ids. */
+  static get(keys: (string | number)[]): Item[];
+  static get(keys: string | number | (string | number)[]): Item | Item[] {
+    return lookupAll(ITEM, keys);
+  }
+
+  /** Returns all items, ordered by id. */
+  static all(): Item[] {
+    return getAll(ITEM);
+  }
+
+  /** Item that represents no item */
+  static get none(): Item {
+    return getInstance(ITEM, ITEM.none, getGameData());
+  }
+}
+
+const EFFECT: TypeInfo<Effect, EffectRecord> = {
+  name: 'Effect',
+  getTable: data => data.effects,
+  create: record => new Effect(record),
+  none: {
+    id: -1,
+    name: 'none',
+    image: '',
+    descid: '',
+    quality: 'neutral',
+    attributes: [],
+    defaultAction: '',
+  },
+};
+
+export class Effect extends MafiaClass {
+  /** Command that KoLmafia uses to get the effect */
+  readonly default: string;
+  /** `"good"`, `"neutral"` or `"bad"` */
+  readonly quality: string;
+  readonly attributes: string;
+  readonly descid: string;
+  readonly image: string;
+  readonly song: boolean;
+
+  /**
+   * Use `Effect.get()` instead, which returns the canonical instance.
+   * @param record
+   */
+  constructor(record: EffectRecord) {
+    super(record);
+    this.default = record.defaultAction;
+    this.quality = record.quality;
+    this.attributes = record.attributes.join(',');
+    this.descid = record.descid;
+    this.image = record.image;
+    this.song = record.attributes.includes('song');
+  }
+
+  /**
+   * Returns the effect with the given name or id.
+   * @throws {Error} If there is no such effect
+   */
+  static get(key: string | number): Effect;
+  /** Returns the effects with the given names or ids. */
+  static get(keys: (string | number)[]): Effect[];
+  static get(keys: string | number | (string | number)[]): Effect | Effect[] {
+    return lookupAll(EFFECT, keys);
+  }
+
+  /** Returns all effects, ordered by id. */
+  static all(): Effect[] {
+    return getAll(EFFECT);
+  }
+
+  /** Effect that represents no effect */
+  static get none(): Effect {
+    return getInstance(EFFECT, EFFECT.none, getGameData());
+  }
+}
+
+/** Names of the skill types used in `classskills.txt` */
+const SKILL_TYPES = [
+  'Passive',
+  'Summon',
+  'Remedy',
+  'Self-only',
+  'Buff',
+  'Combat',
+  'Song',
+  'Combat/Noncombat Remedy',
+  'Combat/Passive',
+  'Expression',
+  'Walk',
+];
+
+const SKILL: TypeInfo<Skill, SkillRecord> = {
+  name: 'Skill',
+  getTable: data => data.skills,
+  create: (record, data) => new Skill(record, data),
+  none: {
+    id: -1,
+    name: 'none',
+    image: '',
+    type: -1,
+    mpCost: 0,
+    duration: 0,
+    level: 0,
+  },
+};
+
+export class Skill extends MafiaClass {
+  /** Skill type, e.g. `"Buff"` or `"Combat"` */
+  readonly type: string;
+  /** Level at which the skill can be learned */
+  readonly level: number;
+  readonly image: string;
+  /** Class that can learn the skill */
+  readonly class: Class;
+  readonly passive: boolean;
+  readonly buff: boolean;
+  readonly combat: boolean;
+  readonly song: boolean;
+  readonly expression: boolean;
+  readonly walk: boolean;
+  readonly summon: boolean;
+
+  /**
+   * Use `Skill.get()` instead, which returns the canonical instance.
+   * @param record
+   * @param data Game data that contains the skill
+   */
+  constructor(record: SkillRecord, data: GameData) {
+    super(record);
+    this.type = SKILL_TYPES[record.type] || '';
+    this.level = record.level;
+    this.image = record.image;
+    const classRecord = data.classes.byId.get(Math.floor(record.id / 1000));
+    this.class = getInstance(CLASS, classRecord || CLASS.none, data);
+    this.passive = record.type === 0 || record.type === 8;
+    this.buff = record.type === 4 || record.type === 6;
+    this.combat = record.type === 5 || record.type === 7 || record.type === 8;
+    this.song = record.type === 6;
+    this.expression = record.type === 9;
+    this.walk = record.type === 10;
+    this.summon = record.type === 1;
+  }
+
+  /**
+   * Returns the skill with the given name or id.
+   * @throws {Error} If there is no such skill
+   */
+  static get(key: string | number): Skill;
+  /** Returns the skills with the given names or ids. */
+  static get(keys: (string | number)[]): Skill[];
+  static get(keys: string | number | (string | number)[]): Skill | Skill[] {
+    return lookupAll(SKILL, keys);
+  }
+
+  /** Returns all skills, ordered by id. */
+  static all(): Skill[] {
+    return getAll(SKILL);
+  }
+
+  /** Skill that represents no skill */
+  static get none(): Skill {
+    return getInstance(SKILL, SKILL.none, getGameData());
+  }
+}
+
+const FAMILIAR: TypeInfo<Familiar, FamiliarRecord> = {
+  name: 'Familiar',
+  getTable: data => data.familiars,
+  create: (record, data) => new Familiar(record, data),
+  none: {
+    id: -1,
+    name: 'none',
+    image: '',
+    types: [],
+    larva: '',
+    equipment: '',
+    attributes: [],
+  },
+};
+
+export class Familiar extends MafiaClass {
+  readonly image: string;
+  /** Item that hatches into the familiar */
+  readonly hatchling: Item;
+  /** Whether the familiar can attack in combat */
+  readonly combat: boolean;
+  readonly attributes: string;
+
+  /**
+   * Use `Familiar.get()` instead, which returns the canonical instance.
+   * @param record
+   * @param data Game data that contains the familiar
+   */
+  constructor(record: FamiliarRecord, data: GameData) {
+    super(record);
+    this.image = record.image;
+    this.hatchling = lookupIn(ITEM, data, record.larva);
+    this.combat = record.types.some(type => type.startsWith('combat'));
+    this.attributes = record.attributes.join('; ');
+  }
+
+  /**
+   * Returns the familiar with the given name or id.
+   * @throws {Error} If there is no such familiar
+   */
+  static get(key: string | number): Familiar;
+  /** Returns the familiars with the given names or ids. */
+  static get(keys: (string | number)[]): Familiar[];
+  static get(
+    keys: string | number | (string | number)[]
+  ): Familiar | Familiar[] {
+    return lookupAll(FAMILIAR, keys);
+  }
+
+  /** Returns all familiars, ordered by id. */
+  static all(): Familiar[] {
+    return getAll(FAMILIAR);
+  }
+
+  /** Familiar that represents no familiar */
+  static get none(): Familiar {
+    return getInstance(FAMILIAR, FAMILIAR.none, getGameData());
+  }
+}
+
+const LOCATION: TypeInfo<Location, LocationRecord> = {
+  name: 'Location',
+  getTable: data => data.locations,
+  create: record => new Location(record),
+  none: {
+    id: -1,
+    name: 'none',
+    zone: '',
+    url: '',
+    difficultyLevel: 'unknown',
+    environment: 'none',
+    recommendedStat: 0,
+  },
+};
+
+export class Location extends MafiaClass {
+  /** Zone that contains the location */
+  readonly zone: string;
+  /** `"indoor"`, `"outdoor"`, `"underground"`, `"underwater"` or `"none"` */
+  readonly environment: string;
+  /** `"low"`, `"mid"`, `"high"`, `"none"` or `"unknown"` */
+  readonly difficultyLevel: string;
+  readonly recommendedStat: number;
+
+  /**
+   * Use `Location.get()` instead, which returns the canonical instance.
+   * @param record
+   */
+  constructor(record: LocationRecord) {
+    super(record);
+    this.zone = record.zone;
+    this.environment = record.environment;
+    this.difficultyLevel = record.difficultyLevel;
+    this.recommendedStat = record.recommendedStat;
+  }
+
+  /**
+   * Returns the location with the given name or id.
+   * @throws {Error} If there is no such location
+   */
+  static get(key: string | number): Location;
+  /** Returns the locations with the given names or ids. */
+  static get(keys: (string | number)[]): Location[];
+  static get(
+    keys: string | number | (string | number)[]
+  ): Location | Location[] {
+    return lookupAll(LOCATION, keys);
+  }
+
+  /** Returns all locations, ordered by id. */
+  static all(): Location[] {
+    return getAll(LOCATION);
+  }
+
+  /** Location that represents no location */
+  static get none(): Location {
+    return getInstance(LOCATION, LOCATION.none, getGameData());
+  }
+}
+
+const MONSTER: TypeInfo<Monster, MonsterRecord> = {
+  name: 'Monster',
+  getTable: data => data.monsters,
+  create: record => new Monster(record),
+  none: {id: 0, name: 'none', image: '', attributes: {}, drops: []},
+};
+
+export class Monster extends MafiaClass {
+  readonly image: string;
+  readonly baseHp: number;
+  readonly baseAttack: number;
+  readonly baseDefense: number;
+  readonly baseInitiative: number;
+  /** Average meat dropped */
+  readonly baseMeat: number;
+  /** Phylum, e.g. `"beast"` */
+  readonly phylum: string;
+
+  /**
+   * Use `Monster.get()` instead, which returns the canonical instance.
+   * @param record
+   */
+  constructor(record: MonsterRecord) {
+    super(record);
+    const {attributes} = record;
+    this.image = record.image;
+    this.baseHp = Number(attributes.HP) || 0;
+    this.baseAttack = Number(attributes.Atk) || 0;
+    this.baseDefense = Number(attributes.Def) || 0;
+    this.baseInitiative = Number(attributes.Init) || 0;
+    this.baseMeat = Number(attributes.Meat) || 0;
+    this.phylum = attributes.P || '';
+  }
+
+  /**
+   * Returns the monster with the given name or id.
+   * @throws {Error} If there is no such monster
+   */
+  static get(key: string | number): Monster;
+  /** Returns the monsters with the given names or ids. */
+  static get(keys: (string | number)[]): Monster[];
+  static get(keys: string | number | (string | number)[]): Monster | Monster[] {
+    return lookupAll(MONSTER, keys);
+  }
+
+  /** Returns all monsters, ordered by id. */
+  static all(): Monster[] {
+    return getAll(MONSTER);
+  }
+
+  /** Monster that represents no monster */
+  static get none(): Monster {
+    return getInstance(MONSTER, MONSTER.none, getGameData());
+  }
+}
+
+const CLASS: TypeInfo<Class, ClassRecord> = {
+  name: 'Class',
+  getTable: data => data.classes,
+  create: record => new Class(record),
+  none: {id: -1, name: 'none', primestat: 'none'},
+};
+
+export class Class extends MafiaClass {
+  /** `"Muscle"`, `"Mysticality"` or `"Moxie"` */
+  readonly primestat: string;
+
+  /**
+   * Use `Class.get()` instead, which returns the canonical instance.
+   * @param record
+   */
+  constructor(record: ClassRecord) {
+    super(record);
+    this.primestat = record.primestat;
+  }
+
+  /**
+   * Returns the class with the given name or id.
+   * @throws {Error} If there is no such class
+   */
+  static get(key: string | number): Class;
+  /** Returns the classes with the given names or ids. */
+  static get(keys: (string | number)[]): Class[];
+  static get(keys: string | number | (string | number)[]): Class | Class[] {
+    return lookupAll(CLASS, keys);
+  }
+
+  /** Returns all classes, ordered by id. */
+  static all(): Class[] {
+    return getAll(CLASS);
+  }
+
+  /** Class that represents no class */
+  static get none(): Class {
+    return getInstance(CLASS, CLASS.none, getGameData());
+  }
+}
+
+const SLOT: TypeInfo<Slot, SlotRecord> = {
+  name: 'Slot',
+  getTable: data => data.slots,
+  create: record => new Slot(record),
+  none: {id: -1, name: 'none'},
+};
+
+export class Slot extends MafiaClass {
+  /**
+   * Returns the slot with the given name.
+   * @throws {Error} If there is no such slot
+   */
+  static get(key: string | number): Slot;
+  /** Returns the slots with the given names. */
+  static get(keys: (string | number)[]): Slot[];
+  static get(keys: string | number | (string | number)[]): Slot | Slot[] {
+    return lookupAll(SLOT, keys);
+  }
+
+  /** Returns all slots. */
+  static all(): Slot[] {
+    return getAll(SLOT);
+  }
+
+  /** Slot that represents no slot */
+  static get none(): Slot {
+    return getInstance(SLOT, SLOT.none, getGameData());
+  }
+}
+
+const STAT: TypeInfo<Stat, StatRecord> = {
+  name: 'Stat',
+  getTable: data => data.stats,
+  create: record => new Stat(record),
+  none: {id: -1, name: 'none'},
+};
+
+export class Stat extends MafiaClass {
+  /**
+   * Returns the stat with the given name, e.g. `Muscle` or `SubMuscle`.
+   * @throws {Error} If there is no such stat
+   */
+  static get(key: string | number): Stat;
+  /** Returns the stats with the given names. */
+  static get(keys: (string | number)[]): Stat[];
+  static get(keys: string | number | (string | number)[]): Stat | Stat[] {
+    return lookupAll(STAT, keys);
+  }
+
+  /** Returns all stats and substats. */
+  static all(): Stat[] {
+    return getAll(STAT);
+  }
+
+  /** Stat that represents no stat */
+  static get none(): Stat {
+    return getInstance(STAT, STAT.none, getGameData());
+  }
+}
+
+/** Type information of each enumerated type, keyed by class */
+const TYPE_INFO = new Map<unknown, TypeInfo<unknown, GameRecord>>([
+  [Item, ITEM],
+  [Effect, EFFECT],
+  [Skill, SKILL],
+  [Familiar, FAMILIAR],
+  [Location, LOCATION],
+  [Monster, MONSTER],
+  [Class, CLASS],
+  [Slot, SLOT],
+  [Stat, STAT],
+]);
+
+/**
+ * Returns the canonical instance of an enumerated type in the given game data.
+ * Runtime functions use this instead of `Item.get()` and similar functions,
+ * which always use the game data of the default runtime.
+ * @param type Enumerated type, e.g. `Item`
+ * @param data
+ * @param key Name or id of the entity
+ * @throws {Error} If there is no such entity
+ */
+export function getEntity<T extends MafiaClass>(
+  type: {prototype: T},
+  data: GameData,
+  key: string | number
+): T {
+  const info = TYPE_INFO.get(type) as TypeInfo<T, GameRecord>;
+  return lookup(info, key, data);
+}
@@ -0,0 +1,549 @@
+/**
+ * @file Model of the places where a character keeps items (inventory, closet,
+ * Hagnk's storage, display case and equipment), and the KoLmafia functions
+ * that count and move items.
+ *
+ * Actions follow KoLmafia's rules:
+ * - `use()`, `eat()`, `drink()` and `chew()` first acquire missing items with
+ *   `retrieveItem()`, and fail if the character is too full, too drunk, or
+ *   has too much spleen use, or if the character's level is too low.
+ * - `buy()` uses NPC store prices, or mall prices if the character can
+ *   interact, and deducts meat.
+ * - `takeStorage()` fails in hardcore, and uses up pulls in ronin.
+ * - `retrieveItem()` takes items from equipment, the closet, storage, NPC
+ *   stores and the mall, as allowed by the `autoSatisfyWith*` preferences.
+ */
+
+import type {GameData} from './game-data';
+import {getEntity, Item, Slot} from './game-types';
+import type {RuntimeState} from './runtime';
+
+/** Places where items are kept, other than equipment */
+export type ItemLocation = 'inventory' | 'closet' | 'storage' | 'display';
+
+const ITEM_LOCATIONS: readonly ItemLocation[] = [
+  'inventory',
+  'closet',
+  'storage',
+  'display',
+];
+
+/**
+ * Options for the inventory of a runtime. Items are keyed by name or id.
+ */
+export interface InventoryOptions {
+  /** Items in the inventory */
+  items?: Record<string, number>;
+  closet?: Record<string, number>;
+  storage?: Record<string, number>;
+  display?: Record<string, number>;
+  /** Equipped items, keyed by slot name (e.g. `{hat: 'helmet turtle'}`) */
+  equipment?: Record<string, string>;
+  /** Meat in the closet */
+  closetMeat?: number;
+  /**
+   * Number of items that can still be pulled from storage today, or `-1` if
+   * the character is out of ronin (default: `-1`)
+   */
+  pullsRemaining?: number;
+  /** Prices of items sold in NPC stores */
+  npcPrices?: Record<string, number>;
+  /** Lowest prices of items in the mall */
+  mallPrices?: Record<string, number>;
+  /**
+   * Custom outfits worn by the `outfit` gCLI command, keyed by name. Each
+   * outfit maps slot names to items.
+   */
+  outfits?: Record<string, Record<string, string>>;
+}
+
+/**
+ * Successful action that moved or consumed items or meat.
+ */
+export interface InventoryAction {
+  /** Function that performed the action, e.g. `buy` */
+  function: string;
+  /** Name of the item, or `""` for meat */
+  item: string;
+  quantity: number;
+  /** Meat spent (for `buy()`) */
+  meat?: number;
+}
+
+/**
+ * Stores the items of a runtime.
+ */
+export class InventoryState {
+  /** Every successful action, in order */
+  readonly actions: InventoryAction[] = [];
+  closetMeat: number;
+  pullsRemaining: number;
+  /** Item counts, keyed by location and item id */
+  private readonly counts = new Map<ItemLocation, Map<number, number>>();
+  /** Ids of equipped items, keyed by slot name */
+  private readonly equipment = new Map<string, number>();
+  private readonly npcPrices = new Map<number, number>();
+  private readonly mallPrices = new Map<number, number>();
+  /** Custom outfits, keyed by lowercase name */
+  private readonly outfits = new Map<string, Record<string, string>>();
+
+  /**
+   * @param gameData Game data used to look up items and slots
+   * @param options
+   * @throws {Error} If an item or slot does not exist
+   */
+  constructor(
+    private readonly gameData: GameData,
+    options: InventoryOptions = {}
+  ) {
+    for (const location of ITEM_LOCATIONS) {
+      this.counts.set(location, new Map());
+    }
+    const {items, closet, storage, display} = options;
+    this.addAll('inventory', items);
+    this.addAll('closet', closet);
+    this.addAll('storage', storage);
+    this.addAll('display', display);
+    const equipment = options.equipment || {};
+    for (const slot of Object.keys(equipment)) {
+      this.equip(slot, equipment[slot]);
+    }
+    this.closetMeat = options.closetMeat || 0;
+    this.pullsRemaining =
+      options.pullsRemaining === undefined ? -1 : options.pullsRemaining;
+    this.setPrices(this.npcPrices, options.npcPrices);
+    this.setPrices(this.mallPrices, options.mallPrices);
+    const outfits = options.outfits || {};
+    for (const name of Object.keys(outfits)) {
+      this.outfits.set(name.toLowerCase(), outfits[name]);
+    }
+  }
+
+  /**
+   * Returns the number of items in a location.
+   * @param location
+   * @param item Item, or its name or id
+   */
+  getAmount(location: ItemLocation, item: Item | string | number): number {
+    const counts = this.counts.get(location)!;
+    return counts.get(this.toItem(item).id) || 0;
+  }
+
+  /**
+   * Adds items to a location, or removes them if the quantity is negative.
+   * @param location
+   * @param item Item, or its name or id
+   * @param quantity
+   * @throws {Error} If there are not enough items to remove
+   */
+  add(
+    location: ItemLocation,
+    item: Item | string | number,
+    quantity: number
+  ): void {
+    const {id, name} = this.toItem(item);
+    const counts = this.counts.get(location)!;
+    const count = (counts.get(id) || 0) + quantity;
+    if (count < 0) {
+      throw new Error(`Not enough ${name} in ${location} to remove`);
+    }
+    if (count === 0) counts.delete(id);
+    else counts.set(id, count);
+  }
+
+  /**
+   * Returns all items in a location, keyed by name.
+   * @param location
+   */
+  getItems(location: ItemLocation): Record<string, number> {
+    const items: Record<string, number> = {};
+    for (const [id, count] of this.counts.get(location)!) {
+      items[getEntity(Item, this.gameData, id).name] = count;
+    }
+    return items;
+  }
+
+  /**
+   * Returns the item equipped in a slot.
+   * @param slot Slot, or its name
+   */
+  getEquipped(slot: Slot | string): Item {
+    const name = getEntity(Slot, this.gameData, String(slot)).name;
+    const id = this.equipment.get(name);
+    return id === undefined ? Item.none : getEntity(Item, this.gameData, id);
+  }
+
+  /**
+   * Equips an item in a slot, without taking it from the inventory.
+   * @param slot Slot, or its name
+   * @param item Item, or its name or id. Use `none` to empty the slot
+   * @throws {Error} If the slot or item does not exist
+   */
+  equip(slot: Slot | string, item: Item | string | number): void {
+    const name = getEntity(Slot, this.gameData, String(slot)).name;
+    const {id} = this.toItem(item);
+    if (id === -1) this.equipment.delete(name);
+    else this.equipment.set(name, id);
+  }
+
+  /**
+   * Returns the items of a custom outfit.
+   * @param name Name of the outfit (case-insensitive)
+   * @return Items keyed by slot name, or `undefined` if there is no such
+   *    outfit
+   */
+  getOutfit(name: string): Record<string, string> | undefined {
+    return this.outfits.get(name.toLowerCase());
+  }
+
+  /**
+   * Returns the number of slots in which an item is equipped.
+   * @param item Item, or its name or id
+   */
+  getEquippedAmount(item: Item | string | number): number {
+    const {id} = this.toItem(item);
+    return [...this.equipment.values()].filter(equipped => equipped === id)
+      .length;
+  }
+
+  /**
+   * Unequips an item from one slot, and puts it in the inventory.
+   * @param item Item, or its name or id
+   * @return Whether the item was equipped
+   */
+  unequip(item: Item | string | number): boolean {
+    const {id} = this.toItem(item);
+    for (const [slot, equipped] of this.equipment) {
+      if (equipped === id) {
+        this.equipment.delete(slot);
+        this.add('inventory', id, 1);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Returns the price of an item in NPC stores, or 0 if it is not sold there.
+   * @param item Item, or its name or id
+   */
+  getNpcPrice(item: Item | string | number): number {
+    return this.npcPrices.get(this.toItem(item).id) || 0;
+  }
+
+  /**
+   * Returns the lowest price of an item in the mall, or 0 if it is unknown.
+   * @param item Item, or its name or id
+   */
+  getMallPrice(item: Item | string | number): number {
+    return this.mallPrices.get(this.toItem(item).id) || 0;
+  }
+
+  /**
+   * Sets the price of an item in NPC stores or the mall.
+   * @param store
+   * @param item Item, or its name or id
+   * @param price Price, or 0 if the item is not sold
+   */
+  setPrice(
+    store: 'npc' | 'mall',
+    item: Item | string | number,
+    price: number
+  ): void {
+    const prices = store === 'npc' ? this.npcPrices : this.mallPrices;
+    const {id} = this.toItem(item);
+    if (price > 0) prices.set(id, price);
+    else prices.delete(id);
+  }
+
+  private toItem(item: Item | string | number): Item {
+    return getEntity(
+      Item,
+      this.gameData,
+      item instanceof Item ? item.id : item
+    );
+  }
+
+  private addAll(
+    location: ItemLocation,
+    items: Record<string, number> | undefined
+  ): void {
+    for (const name of Object.keys(items || {})) {
+      this.add(location, name, items![name]);
+    }
+  }
+
+  private setPrices(
+    prices: Map<number, number>,
+    values: Record<string, number> | undefined
+  ): void {
+    for (const name of Object.keys(values || {})) {
+      prices.set(this.toItem(name).id, values![name]);
+    }
+  }
+}
+
+export interface InventoryFunctions {
+  itemAmount(item: Item): number;
+  availableAmount(item: Item): number;
+  closetAmount(item: Item): number;
+  storageAmount(item: Item): number;
+  displayAmount(item: Item): number;
+  equippedAmount(item: Item): number;
+  equippedItem(slot: Slot): Item;
+  myClosetMeat(): number;
+  pullsRemaining(): number;
+  canInteract(): boolean;
+  npcPrice(item: Item): number;
+  mallPrice(item: Item): number;
+  putCloset(item: Item, quantity?: number): boolean;
+  putCloset(quantity: number, item: Item): boolean;
+  putCloset(meat: number): boolean;
+  takeCloset(item: Item, quantity?: number): boolean;
+  takeCloset(quantity: number, item: Item): boolean;
+  takeCloset(meat: number): boolean;
+  takeStorage(item: Item, quantity?: number): boolean;
+  takeStorage(quantity: number, item: Item): boolean;
+  use(item: Item, quantity?: number): boolean;
+  use(quantity: number, item: Item): boolean;
+  eat(item: Item, quantity?: number): boolean;
+  eat(quantity: number, item: Item): boolean;
+  drink(item: Item, quantity?: number): boolean;
+  drink(quantity: number, item: Item): boolean;
+  chew(item: Item, quantity?: number): boolean;
+  chew(quantity: number, item: Item): boolean;
+  buy(item: Item, quantity?: number): boolean;
+  buy(quantity: number, item: Item): boolean;
+  /** Buys items that cost at most `price`, and returns how many were bought */
+  buy(item: Item, quantity: number, price: number): number;
+  buy(quantity: number, item: Item, price: number): number;
+  retrieveItem(item: Item, quantity?: number): boolean;
+  retrieveItem(quantity: number, item: Item): boolean;
+}
+
+/**
+ * Accepts both argument orders of KoLmafia's item functions, e.g.
+ * `use(3, item)` and `use(item, 3)`.
+ */
+function itemAndQuantity(
+  arg1: Item | number,
+  arg2: Item | number | undefined
+): [Item, number] {
+  return arg1 instanceof Item
+    ? [arg1, arg2 === undefined ? 1 : (arg2 as number)]
+    : [arg2 as Item, arg1];
+}
+
+/**
+ * Returns the average of a range such as `2-4`, rounded down.
+ */
+function averageOfRange(range: string): number {
+  const [min, max] = range.split('-').map(Number);
+  const average = max === undefined ? min : (min + max) / 2;
+  return Math.floor(average) || 0;
+}
+
+export function createInventoryFunctions(
+  state: RuntimeState
+): InventoryFunctions {
+  const {character, inventory, preferences} = state;
+
+  const canInteract = () =>
+    !character.hardcore && inventory.pullsRemaining === -1;
+  const record = (fn: string, item: Item | null, quantity: number) =>
+    inventory.actions.push({
+      function: fn,
+      item: item ? item.name : '',
+      quantity,
+    });
+
+  const move = (
+    fn: string,
+    from: ItemLocation,
+    to: ItemLocation,
+    item: Item,
+    quantity: number
+  ) => {
+    if (inventory.getAmount(from, item) < quantity) return false;
+    inventory.add(from, item, -quantity);
+    inventory.add(to, item, quantity);
+    record(fn, item, quantity);
+    return true;
+  };
+
+  const moveMeat = (fn: string, meat: number, toCloset: boolean) => {
+    if ((toCloset ? character.meat : inventory.closetMeat) < meat) {
+      return false;
+    }
+    character.meat += toCloset ? -meat : meat;
+    inventory.closetMeat += toCloset ? meat : -meat;
+    record(fn, null, meat);
+    return true;
+  };
+
+  const takeStorage = (item: Item, quantity: number) => {
+    if (character.hardcore) return false;
+    if (inventory.pullsRemaining !== -1) {
+      if (inventory.pullsRemaining < quantity) return false;
+      if (inventory.getAmount('storage', item) < quantity) return false;
+      inventory.pullsRemaining -= quantity;
+    }
+    return move('takeStorage', 'storage', 'inventory', item, quantity);
+  };
+
+  /** Buys items, and returns the number bought. */
+  const buy = (item: Item, quantity: number, maxPrice = Infinity) => {
+    let price = inventory.getNpcPrice(item);
+    if (!price && canInteract()) price = inventory.getMallPrice(item);
+    if (!price || price > maxPrice) return 0;
+    const affordable = Math.min(quantity, Math.floor(character.meat / price));
+    if (affordable < quantity && maxPrice === Infinity) return 0;
+    if (affordable <= 0) return 0;
+    character.meat -= affordable * price;
+    inventory.add('inventory', item, affordable);
+    inventory.actions.push({
+      function: 'buy',
+      item: item.name,
+      quantity: affordable,
+      meat: affordable * price,
+    });
+    return affordable;
+  };
+
+  const retrieveItem = (item: Item, quantity: number) => {
+    let missing = quantity - inventory.getAmount('inventory', item);
+    while (missing > 0 && inventory.unequip(item)) --missing;
+
+    const take = (
+      allowed: boolean,
+      amount: number,
+      fn: (count: number) => unknown
+    ) => {
+      const count = allowed ? Math.min(missing, amount) : 0;
+      if (count > 0) {
+        fn(count);
+        missing -= count;
+      }
+    };
+    take(
+      preferences.getBoolean('autoSatisfyWithCloset'),
+      inventory.getAmount('closet', item),
+      count => move('takeCloset', 'closet', 'inventory', item, count)
+    );
+    // Out of ronin, pulls are free and unlimited
+    take(
+      canInteract() && preferences.getBoolean('autoSatisfyWithStorage'),
+      inventory.getAmount('storage', item),
+      count => move('takeStorage', 'storage', 'inventory', item, count)
+    );
+    if (missing > 0 && preferences.getBoolean('autoSatisfyWithNPCs')) {
+      if (inventory.getNpcPrice(item)) missing -= buy(item, missing);
+    }
+    if (
+      missing > 0 &&
+      canInteract() &&
+      preferences.getBoolean('autoSatisfyWithMall') &&
+      !inventory.getNpcPrice(item)
+    ) {
+      missing -= buy(item, missing);
+    }
+    return missing <= 0;
+  };
+
+  const consume = (
+    fn: 'eat' | 'drink' | 'chew',
+    item: Item,
+    quantity: number
+  ) => {
+    const [size, current, limit] =
+      fn === 'eat'
+        ? [item.fullness, character.fullness, character.fullnessLimit]
+        : fn === 'drink'
+        ? [item.inebriety, character.inebriety, character.inebrietyLimit]
+        : [item.spleen, character.spleenUse, character.spleenLimit];
+    if (size === 0 || character.level < item.levelreq) return false;
+    if (current + size * quantity > limit) return false;
+    if (!retrieveItem(item, quantity)) return false;
+
+    inventory.add('inventory', item, -quantity);
+    if (fn === 'eat') character.fullness += size * quantity;
+    else if (fn === 'drink') character.inebriety += size * quantity;
+    else character.spleenUse += size * quantity;
+    character.adventures += averageOfRange(item.adventures) * quantity;
+    record(fn, item, quantity);
+    return true;
+  };
+
+  const useItem = (item: Item, quantity: number) => {
+    if (item.fullness) return consume('eat', item, quantity);
+    if (item.inebriety) return consume('drink', item, quantity);
+    if (item.spleen) return consume('chew', item, quantity);
+    if (!item.usable && !item.reusable && !item.potion) return false;
+    if (!retrieveItem(item, item.reusable ? 1 : quantity)) return false;
+    if (!item.reusable) inventory.add('inventory', item, -quantity);
+    record('use', item, quantity);
+    return true;
+  };
+
+  /**
+   * Wraps an action that takes an item and a quantity, so that it accepts
+   * both argument orders and succeeds without doing anything for
+   * non-positive quantities.
+   */
+  const itemAction = (action: (item: Item, quantity: number) => boolean) => (
+    arg1: Item | number,
+    arg2?: Item | number
+  ) => {
+    const [item, quantity] = itemAndQuantity(arg1, arg2);
+    return quantity <= 0 || action(item, quantity);
+  };
+
+  return {
+    itemAmount: item => inventory.getAmount('inventory', item),
+    availableAmount: item => {
+      let amount =
+        inventory.getAmount('inventory', item) +
+        inventory.getEquippedAmount(item);
+      if (preferences.getBoolean('autoSatisfyWithCloset')) {
+        amount += inventory.getAmount('closet', item);
+      }
+      if (canInteract() && preferences.getBoolean('autoSatisfyWithStorage')) {
+        amount += inventory.getAmount('storage', item);
+      }
+      return amount;
+    },
+    closetAmount: item => inventory.getAmount('closet', item),
+    storageAmount: item => inventory.getAmount('storage', item),
+    displayAmount: item => inventory.getAmount('display', item),
+    equippedAmount: item => inventory.getEquippedAmount(item),
+    equippedItem: slot => inventory.getEquipped(slot),
+    myClosetMeat: () => inventory.closetMeat,
+    pullsRemaining: () => inventory.pullsRemaining,
+    canInteract,
+    npcPrice: item => inventory.getNpcPrice(item),
+    mallPrice: item => inventory.getMallPrice(item),
+    putCloset: (arg1: Item | number, arg2?: Item | number) =>
+      typeof arg1 === 'number' && arg2 === undefined
+        ? moveMeat('putCloset', arg1, true)
+        : itemAction((item, quantity) =>
+            move('putCloset', 'inventory', 'closet', item, quantity)
+          )(arg1, arg2),
+    takeCloset: (arg1: Item | number, arg2?: Item | number) =>
+      typeof arg1 === 'number' && arg2 === undefined
+        ? moveMeat('takeCloset', arg1, false)
+        : itemAction((item, quantity) =>
+            move('takeCloset', 'closet', 'inventory', item, quantity)
+          )(arg1, arg2),
+    takeStorage: itemAction(takeStorage),
+    use: itemAction(useItem),
+    eat: itemAction((item, quantity) => consume('eat', item, quantity)),
+    drink: itemAction((item, quantity) => consume('drink', item, quantity)),
+    chew: itemAction((item, quantity) => consume('chew', item, quantity)),
+    buy: ((arg1: Item | number, arg2?: Item | number, price?: number) => {
+      const [item, quantity] = itemAndQuantity(arg1, arg2);
+      if (price !== undefined) return buy(item, quantity, price);
+      return quantity <= 0 || buy(item, quantity) === quantity;
+    }) as InventoryFunctions['buy'],
+    retrieveItem: itemAction(retrieveItem),
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * @file Log of the messages printed by a script, and the KoLmafia functions
+ * that write to it.
+ */
+
+import {htmlToText} from '../lib/clean-html';
+import type {RuntimeState} from './runtime';
+
+/** Name of the function that produced an output entry */
+export type OutputFunction =
+  | 'print'
+  | 'printHtml'
+  | 'logprint'
+  | 'debugprint'
+  | 'abort';
+
+/**
+ * Message written by a script.
+ */
+export interface OutputEntry {
+  /** Function that wrote the message */
+  function: OutputFunction;
+  /** Message as HTML, as KoLmafia shows it in the gCLI */
+  html: string;
+  /** Message without markup, as KoLmafia writes it to the session log */
+  text: string;
+  /** Color passed to `print()`, or `red` for `abort()` */
+  color?: string;
+}
+
+/**
+ * Thrown by `abort()`. Catch this to check that a script has aborted.
+ */
+export class KoLmafiaAbortError extends Error {
+  /**
+   * @param message Message passed to `abort()`
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'KoLmafiaAbortError';
+  }
+}
+
+/** Message used by `abort()` when none is given */
+const DEFAULT_ABORT_MESSAGE = 'Script aborted.';
+
+/** Functions whose output is shown in the gCLI */
+const CLI_FUNCTIONS: ReadonlySet<OutputFunction> = new Set<OutputFunction>([
+  'print',
+  'printHtml',
+  'abort',
+]);
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+};
+
+/**
+ * Escapes characters that have a special meaning in HTML.
+ * @param text
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, ch => HTML_ESCAPES[ch]);
+}
+
+/**
+ * Stores the messages written by a runtime.
+ */
+export class OutputLog {
+  /** Every message written, in order */
+  readonly entries: OutputEntry[] = [];
+
+  /**
+   * Adds a plain-text message.
+   * @param fn Function that wrote the message
+   * @param text
+   * @param color
+   */
+  addText(fn: OutputFunction, text: string, color?: string): OutputEntry {
+    const html = color
+      ? `<font color="${escapeHtml(color)}">${escapeHtml(text)}</font>`
+      : escapeHtml(text);
+    return this.add({function: fn, html, text, ...(color ? {color} : {})});
+  }
+
+  /**
+   * Adds an HTML message.
+   * @param fn Function that wrote the message
+   * @param html
+   */
+  addHtml(fn: OutputFunction, html: string): OutputEntry {
+    return this.add({function: fn, html, text: htmlToText(html)});
+  }
+
+  /**
+   * Prints a message in red and throws a `KoLmafiaAbortError`, like
+   * KoLmafia's `abort()`.
+   * @param message
+   * @throws {KoLmafiaAbortError} Always
+   */
+  abort(message = DEFAULT_ABORT_MESSAGE): never {
+    this.addText('abort', message, 'red');
+    throw new KoLmafiaAbortError(message);
+  }
+
+  /**
+   * Returns the text shown in the gCLI, i.e. the messages written by
+   * `print()`, `printHtml()` and `abort()`, one per line.
+   */
+  getCliText(): string {
+    return this.entries
+      .filter(entry => CLI_FUNCTIONS.has(entry.function))
+      .map(entry => entry.text)
+      .join('\n');
+  }
+
+  /**
+   * Removes all messages.
+   */
+  clear(): void {
+    this.entries.length = 0;
+  }
+
+  private add(entry: OutputEntry): OutputEntry {
+    this.entries.push(entry);
+    return entry;
+  }
+}
+
+export interface OutputFunctions {
+  print(message?: string, color?: string): void;
+  printHtml(html: string, logToSession?: boolean): void;
+  logprint(message: string): void;
+  debugprint(message: string): void;
+  abort(message?: string): never;
+}
+
+export function createOutputFunctions(state: RuntimeState): OutputFunctions {
+  const {output} = state;
+  return {
+    print: (message = '', color) => {
+      output.addText('print', String(message), color);
+    },
+    printHtml: html => {
+      output.addHtml('printHtml', String(html));
+    },
+    logprint: message => {
+      output.addText('logprint', String(message));
+    },
+    debugprint: message => {
+      output.addText('debugprint', String(message));
+    },
+    abort: message => output.abort(message),
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * @file Parses tables of preference defaults in the format of KoLmafia's
+ * `defaults.txt`, and loads the table bundled with this package.
+ */
+
+import {
+  DataFileError,
+  DataRecord,
+  loadDataFile,
+  parseDataFile,
+} from '../lib/data-file';
+
+/** Scope of a preference */
+export type PreferenceScope = 'global' | 'user';
+
+/**
+ * Default value and scope of a preference.
+ */
+export interface PreferenceDefault {
+  scope: PreferenceScope;
+  value: string;
+}
+
+/** Table of preference defaults, keyed by preference name */
+export type PreferenceDefaults = ReadonlyMap<string, PreferenceDefault>;
+
+/**
+ * Format of `defaults.txt`. Each line contains a scope (`global` or `user`), a
+ * preference name, and an optional default value. Unlike most data files, it
+ * has no version line.
+ */
+export const PREFERENCE_DEFAULTS_SCHEMA = {
+  file: 'defaults.txt',
+  columns: [
+    {name: 'scope', type: 'string'},
+    {name: 'name', type: 'string'},
+    {name: 'value', type: 'string', optional: true},
+  ],
+} as const;
+
+let bundledDefaults: PreferenceDefaults | null = null;
+
+/**
+ * Builds a table of preference defaults from the records of `defaults.txt`.
+ * @param records
+ * @param source Name or path of the file used in error messages
+ * @throws {DataFileError} If a line has an unknown scope
+ */
+function toPreferenceDefaults(
+  records: DataRecord<typeof PREFERENCE_DEFAULTS_SCHEMA>[],
+  source: string
+): PreferenceDefaults {
+  const defaults = new Map<string, PreferenceDefault>();
+  for (const {scope, name, value, line} of records) {
+    if (scope !== 'global' && scope !== 'user') {
+      throw new DataFileError(
+        source,
+        line,
+        `Unknown preference scope '${scope}'`
+      );
+    }
+    defaults.set(name, {scope, value});
+  }
+  return defaults;
+}
+
+/**
+ * Parses a table of preference defaults in the format of `defaults.txt` (see
+ * `PREFERENCE_DEFAULTS_SCHEMA`). Empty lines and lines starting with `#` are
+ * ignored.
+ * @param text Contents of `defaults.txt`
+ * @param source Name or path of the file used in error messages
+ * @throws {DataFileError} If a line is missing a column or has an unknown
+ *    scope
+ */
+export function parsePreferenceDefaults(
+  text: string,
+  source: string = PREFERENCE_DEFAULTS_SCHEMA.file
+): PreferenceDefaults {
+  return toPreferenceDefaults(
+    parseDataFile(text, PREFERENCE_DEFAULTS_SCHEMA, source),
+    source
+  );
+}
+
+/**
+ * Returns the table of preference defaults bundled with this package.
+ * This is an excerpt of KoLmafia's `defaults.txt`.
+ */
+export function getBundledPreferenceDefaults(): PreferenceDefaults {
+  if (!bundledDefaults) {
+    bundledDefaults = toPreferenceDefaults(
+      loadDataFile(PREFERENCE_DEFAULTS_SCHEMA),
+      PREFERENCE_DEFAULTS_SCHEMA.file
+    );
+  }
+  return bundledDefaults;
+}
@@ -0,0 +1,266 @@
+/**
+ * @file In-memory preference store, and the KoLmafia functions that use it.
+ *
+ * Like KoLmafia, preferences are either global or per-character. A preference
+ * is global if the table of defaults says so; all other preferences, including
+ * ones that are not in the table, belong to the current character.
+ * Defaults are copied into the store when it is created (global) or when a
+ * character's preferences are first accessed (user), so removing a preference
+ * makes it return `""` rather than its default value.
+ */
+
+import {
+  getBundledPreferenceDefaults,
+  parsePreferenceDefaults,
+  PreferenceDefaults,
+} from './preference-defaults';
+import type {RuntimeState} from './runtime';
+
+/**
+ * A change made to a preference.
+ */
+export interface PreferenceWrite {
+  /** Name of the preference */
+  name: string;
+  /** New value, or `null` if the preference was removed */
+  value: string | null;
+  /** Value before the change (`""` if the preference did not exist) */
+  previousValue: string;
+  /** Whether the global value was changed */
+  global: boolean;
+  /** Character whose preference was changed (for non-global preferences) */
+  user: string;
+}
+
+/**
+ * Copy of all preference values, created by `PreferenceStore.snapshot()`.
+ */
+export interface PreferenceSnapshot {
+  readonly user: string;
+  readonly global: ReadonlyMap<string, string>;
+  readonly users: ReadonlyMap<string, ReadonlyMap<string, string>>;
+}
+
+/**
+ * Options for the preference store of a runtime.
+ */
+export interface PreferenceOptions {
+  /**
+   * Name of the character whose preferences are used (default: `""`).
+   * Preferences of different characters are kept separate.
+   */
+  user?: string;
+  /**
+   * Contents of a `defaults.txt` file to use instead of the bundled table,
+   * which only contains commonly used preferences.
+   */
+  defaults?: string;
+  /** Initial preference values, as if set with `setProperty()` */
+  properties?: Record<string, string>;
+}
+
+/**
+ * Stores the preferences of a runtime.
+ */
+export class PreferenceStore {
+  /** Every change made to the preferences, in order */
+  readonly writes: PreferenceWrite[] = [];
+  /** Name of the character whose preferences are used */
+  user: string;
+  private readonly defaults: PreferenceDefaults;
+  private globalValues = new Map<string, string>();
+  /** Per-character values, keyed by lowercase character name */
+  private userValues = new Map<string, Map<string, string>>();
+
+  constructor(options: PreferenceOptions = {}) {
+    this.defaults =
+      options.defaults === undefined
+        ? getBundledPreferenceDefaults()
+        : parsePreferenceDefaults(options.defaults);
+    this.user = options.user || '';
+
+    for (const [name, {scope, value}] of this.defaults) {
+      if (scope === 'global') this.globalValues.set(name, value);
+    }
+    if (options.properties) {
+      for (const name of Object.keys(options.properties)) {
+        this.getMap(name).set(name, options.properties[name]);
+      }
+    }
+  }
+
+  /**
+   * @param name
+   * @return Whether the preference is global
+   */
+  isGlobal(name: string): boolean {
+    const entry = this.defaults.get(name);
+    return entry !== undefined && entry.scope === 'global';
+  }
+
+  /**
+   * Returns the value of a preference, or `""` if it does not exist.
+   * @param name
+   * @param global Whether to read the global value, even if the preference
+   *    is per-character
+   */
+  get(name: string, global = false): string {
+    const value = (global ? this.globalValues : this.getMap(name)).get(name);
+    return value === undefined ? '' : value;
+  }
+
+  /**
+   * Returns the value of a preference as a number.
+   * @param name
+   * @return Value of the preference, or `NaN` if it is not a number
+   */
+  getNumber(name: string): number {
+    const value = this.get(name).trim();
+    return value === '' ? NaN : Number(value);
+  }
+
+  /**
+   * Returns the value of a preference as a boolean, i.e. whether it is
+   * `"true"`.
+   * @param name
+   */
+  getBoolean(name: string): boolean {
+    return this.get(name) === 'true';
+  }
+
+  /**
+   * Sets the value of a preference.
+   * @param name
+   * @param value
+   */
+  set(name: string, value: string): void {
+    const map = this.getMap(name);
+    this.writes.push({
+      name,
+      value,
+      previousValue: this.get(name),
+      global: map === this.globalValues,
+      user: this.user,
+    });
+    map.set(name, value);
+  }
+
+  /**
+   * Removes a preference.
+   * @param name
+   * @param global Whether to remove the global value, even if the preference
+   *    is per-character
+   * @return Value of the preference before it was removed
+   */
+  remove(name: string, global = false): string {
+    const map = global ? this.globalValues : this.getMap(name);
+    const previousValue = this.get(name, global);
+    this.writes.push({
+      name,
+      value: null,
+      previousValue,
+      global: map === this.globalValues,
+      user: this.user,
+    });
+    map.delete(name);
+    return previousValue;
+  }
+
+  /**
+   * @param name
+   * @param global Whether to check the global value
+   * @return Whether the preference exists
+   */
+  exists(name: string, global = false): boolean {
+    return (global ? this.globalValues : this.getMap(name)).has(name);
+  }
+
+  /**
+   * @param name
+   * @return Whether the preference has a default value
+   */
+  hasDefault(name: string): boolean {
+    return this.defaults.has(name);
+  }
+
+  /**
+   * @param name
+   * @return Default value of the preference, or `""` if it has none
+   */
+  defaultValue(name: string): string {
+    const entry = this.defaults.get(name);
+    return entry ? entry.value : '';
+  }
+
+  /**
+   * Copies the values of all preferences, and the current character.
+   */
+  snapshot(): PreferenceSnapshot {
+    const users = new Map<string, ReadonlyMap<string, string>>();
+    for (const [user, values] of this.userValues) {
+      users.set(user, new Map(values));
+    }
+    return {
+      user: this.user,
+      global: new Map(this.globalValues),
+      users,
+    };
+  }
+
+  /**
+   * Restores the values of all preferences, and the current character, from a
+   * snapshot. This does not change the list of writes.
+   * @param snapshot
+   */
+  restore(snapshot: PreferenceSnapshot): void {
+    this.user = snapshot.user;
+    this.globalValues = new Map(snapshot.global);
+    this.userValues = new Map();
+    for (const [user, values] of snapshot.users) {
+      this.userValues.set(user, new Map(values));
+    }
+  }
+
+  /**
+   * Returns the map that contains the given preference.
+   */
+  private getMap(name: string): Map<string, string> {
+    if (this.isGlobal(name)) return this.globalValues;
+
+    const key = this.user.toLowerCase();
+    let values = this.userValues.get(key);
+    if (!values) {
+      values = new Map();
+      for (const [defaultName, {scope, value}] of this.defaults) {
+        if (scope === 'user') values.set(defaultName, value);
+      }
+      this.userValues.set(key, values);
+    }
+    return values;
+  }
+}
+
+export interface PreferenceFunctions {
+  getProperty(name: string, globalValue?: boolean): string;
+  setProperty(name: string, value: string): void;
+  removeProperty(name: string, global?: boolean): string;
+  propertyExists(name: string, global?: boolean): boolean;
+  propertyHasDefault(name: string): boolean;
+  propertyDefaultValue(name: string): string;
+}
+
+export function createPreferenceFunctions(
+  state: RuntimeState
+): PreferenceFunctions {
+  const {preferences} = state;
+  return {
+    getProperty: (name, globalValue = false) =>
+      preferences.get(name, globalValue),
+    // KoLmafia converts all values to strings
+    setProperty: (name, value) => preferences.set(name, String(value)),
+    removeProperty: (name, global = false) => preferences.remove(name, global),
+    propertyExists: (name, global = false) => preferences.exists(name, global),
+    propertyHasDefault: name => preferences.hasDefault(name),
+    propertyDefaultValue: name => preferences.defaultValue(name),
+  };
+}
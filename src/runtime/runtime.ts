@@ -0,0 +1,182 @@
+/**
+ * @file Runtimes, which hold the state that KoLmafia functions operate on.
+ *
+ * Each runtime has its own copy of every stub function, bound to its own
+ * state. This allows tests that run in parallel, or tests that simulate
+ * several characters, to run without affecting each other.
+ *
+ * Functions are grouped into areas (e.g. `xpath.ts`). Each area exports a
+ * factory that receives the shared `RuntimeState` and returns its functions.
+ */
+
+import type {XPathOptions} from '../lib/xpath-pipeline';
+import {AdventureFunctions, createAdventureFunctions} from './adventure';
+import {CallRecorder, CallRecorderOptions} from './calls';
+import {Cassette, CassettePlayer} from './cassettes';
+import {
+  CharacterFunctions,
+  CharacterOptions,
+  CharacterState,
+  createCharacterFunctions,
+} from './character';
+import {ChoiceFunctions, ChoiceState, createChoiceFunctions} from './choices';
+import {CliFunctions, CliOptions, CliRegistry, createCliFunctions} from './cli';
+import {
+  CombatFunctions,
+  CombatState,
+  createCombatFunctions,
+  Encounter,
+} from './combat';
+import {
+  createFileFunctions,
+  FileFunctions,
+  FileSystemOptions,
+  VirtualFileSystem,
+} from './files';
+import {GameData, getBundledGameData} from './game-data';
+import {
+  createInventoryFunctions,
+  InventoryFunctions,
+  InventoryOptions,
+  InventoryState,
+} from './inventory';
+import {createOutputFunctions, OutputFunctions, OutputLog} from './output';
+import {
+  createPreferenceFunctions,
+  PreferenceFunctions,
+  PreferenceOptions,
+  PreferenceStore,
+} from './preferences';
+import {createVisitUrlFunctions, VisitUrlFunctions} from './visit-url';
+import {createXPathFunctions, XPathFunctions} from './xpath';
+
+/**
+ * Options for `createRuntime()`.
+ */
+export interface RuntimeOptions {
+  /** Options for the recorder of calls to the runtime's functions */
+  calls?: CallRecorderOptions;
+  /** Cassettes that `visitUrl()` plays responses from */
+  cassettes?: Cassette[];
+  /**
+   * Initial state of the character. The name defaults to the user of the
+   * preference store.
+   */
+  character?: CharacterOptions;
+  /** Options for the gCLI command handlers used by `cliExecute()` */
+  cli?: CliOptions;
+  /** Encounters that happen next at each location, keyed by location name */
+  encounters?: Record<string, Encounter[]>;
+  /** Initial files and passthrough directory for `fileToBuffer()` etc. */
+  files?: FileSystemOptions;
+  /**
+   * Game data used by `Item.get()` and similar functions, e.g. data loaded
+   * with `loadGameData()`. By default, the bundled data is used.
+   */
+  gameData?: GameData;
+  /** Initial items, equipment and store prices */
+  inventory?: InventoryOptions;
+  /** Options for the preference store */
+  preferences?: PreferenceOptions;
+  /**
+   * Default options for `xpath()`, e.g. `{cleaner: 'htmlcleaner'}`.
+   * Options passed to `xpath()` itself take precedence.
+   */
+  xpath?: XPathOptions;
+}
+
+/**
+ * State shared by all functions of a runtime.
+ */
+export interface RuntimeState {
+  /** Calls to the functions of the runtime, and their replacements */
+  calls: CallRecorder;
+  /** Responses returned by `visitUrl()` */
+  cassettes: CassettePlayer;
+  /** Character used by `myHp()` and similar functions */
+  character: CharacterState;
+  /** Choice adventure in progress and past decisions, used by `runChoice()` */
+  choices: ChoiceState;
+  /** gCLI command handlers used by `cliExecute()` */
+  cli: CliRegistry;
+  /** Scripted encounters and the current fight, used by `adv1()` etc. */
+  combat: CombatState;
+  /** Files read and written by `fileToBuffer()` and similar functions */
+  files: VirtualFileSystem;
+  /** Game data used by `Item.get()` and similar functions */
+  gameData: GameData;
+  /** Items used by `itemAmount()`, `use()`, `buy()` and similar functions */
+  inventory: InventoryState;
+  /** Messages written by `print()` and similar functions */
+  output: OutputLog;
+  /** Preferences used by `getProperty()` and `setProperty()` */
+  preferences: PreferenceStore;
+  /** Default options for `xpath()` */
+  xpathOptions: XPathOptions;
+}
+
+/**
+ * All KoLmafia functions provided by a runtime.
+ */
+export type KolmafiaFunctions = AdventureFunctions &
+  CharacterFunctions &
+  ChoiceFunctions &
+  CliFunctions &
+  CombatFunctions &
+  FileFunctions &
+  InventoryFunctions &
+  OutputFunctions &
+  PreferenceFunctions &
+  VisitUrlFunctions &
+  XPathFunctions;
+
+/**
+ * Set of KoLmafia functions bound to an isolated state.
+ */
+export interface KolmafiaRuntime extends KolmafiaFunctions {
+  /** State used by the functions of this runtime */
+  readonly state: RuntimeState;
+}
+
+/**
+ * Creates a runtime with its own state.
+ * @param options
+ */
+export function createRuntime(options: RuntimeOptions = {}): KolmafiaRuntime {
+  const gameData = options.gameData || getBundledGameData();
+  const state: RuntimeState = {
+    calls: new CallRecorder(options.calls),
+    cassettes: new CassettePlayer(),
+    character: new CharacterState(gameData, {
+      name: options.preferences && options.preferences.user,
+      ...options.character,
+    }),
+    choices: new ChoiceState(),
+    cli: new CliRegistry(options.cli),
+    combat: new CombatState(gameData, options.encounters),
+    files: new VirtualFileSystem(options.files),
+    gameData,
+    inventory: new InventoryState(gameData, options.inventory),
+    output: new OutputLog(),
+    preferences: new PreferenceStore(options.preferences),
+    xpathOptions: {...options.xpath},
+  };
+  for (const cassette of options.cassettes || []) {
+    state.cassettes.insert(cassette);
+  }
+
+  const functions: KolmafiaFunctions = {
+    ...createAdventureFunctions(state),
+    ...createCharacterFunctions(state),
+    ...createChoiceFunctions(state),
+    ...createCliFunctions(state),
+    ...createCombatFunctions(state),
+    ...createFileFunctions(state),
+    ...createInventoryFunctions(state),
+    ...createOutputFunctions(state),
+    ...createPreferenceFunctions(state),
+    ...createVisitUrlFunctions(state),
+    ...createXPathFunctions(state),
+  };
+  return {state, ...state.calls.instrument(functions)};
+}
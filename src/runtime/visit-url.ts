@@ -0,0 +1,42 @@
+/**
+ * @file Runtime functions that request pages from the game.
+ */
+
+import {visitEncounterUrl} from './adventure';
+import {normalizeUrl, parseFields} from './cassettes';
+import type {RuntimeState} from './runtime';
+
+export interface VisitUrlFunctions {
+  /**
+   * Implementation of KoLmafia's `visitUrl()` function, which returns the
+   * response recorded in the runtime's cassettes. Requests for
+   * `adventure.php`, `fight.php` and `choice.php` that belong to scripted
+   * encounters are handled by the encounters instead.
+   * @param url URL to visit
+   * @param usePostMethod Whether to use POST instead of GET
+   * @param encoded Whether the form fields in the URL are already URL-encoded
+   * @throws {CassetteMismatchError} If no cassette entry matches the request
+   */
+  visitUrl(url?: string, usePostMethod?: boolean, encoded?: boolean): string;
+}
+
+export function createVisitUrlFunctions(
+  state: RuntimeState
+): VisitUrlFunctions {
+  return {
+    visitUrl(url, usePostMethod = true, encoded = false) {
+      if (url === undefined) {
+        // Without a URL, KoLmafia returns the page requested by the relay
+        // browser, which does not exist here
+        throw new Error('visitUrl() requires a URL outside of relay scripts');
+      }
+      const page = visitEncounterUrl(state, url, encoded);
+      if (page !== null) return page;
+      return state.cassettes.play({
+        url: normalizeUrl(url),
+        method: usePostMethod ? 'POST' : 'GET',
+        fields: parseFields(url, encoded),
+      });
+    },
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * @file Runtime functions that parse HTML.
+ */
+
+import {
+  evaluateHtml,
+  serializeResult,
+  XPathOptions,
+} from '../lib/xpath-pipeline';
+import type {RuntimeState} from './runtime';
+
+export interface XPathFunctions {
+  /**
+   * Implementation of KoLmafia's `xpath()` function.
+   * @param html XML or HTML markup. This is sanitized
+   * @param selector XPath selector supported by HtmlCleaner.
+   * @param options Options that are not supported by KoLmafia itself. These
+   *    override the runtime's default `xpath()` options.
+   */
+  xpath(html: string, selector: string, options?: XPathOptions): string[];
+}
+
+export function createXPathFunctions(state: RuntimeState): XPathFunctions {
+  return {
+    xpath(html, selector, options = {}) {
+      const mergedOptions = {...state.xpathOptions, ...options};
+      return evaluateHtml(html, selector, mergedOptions).map(r =>
+        serializeResult(r, mergedOptions)
+      );
+    },
+  };
+}